@@ -0,0 +1,179 @@
+/**
+ * Collectors describe how `collect()` turns a sequence of values into a
+ * single result.
+ *
+ * A collector creates an accumulator with `init`, folds every value into it
+ * with `accumulate` and converts it into the final result with `finish`.
+ * Collectors that can merge two partial accumulators also implement
+ * `combine`. The built-in collectors in this module can be composed, e.g.
+ * `tee(toArray(), mapping(x => x * 2, toSet()))`.
+ */
+
+/**
+ * Protocol used by `collect()` to build a result from all values of an
+ * iterator. On the async pipeline `accumulate` and `finish` may return
+ * Promises.
+ *
+ * @template Value - The type of values being collected
+ * @template Acc - The type of the intermediate accumulator
+ * @template Result - The type of the final result
+ */
+export type Collector<Value, Acc, Result> = {
+  /** Creates a fresh accumulator */
+  init(): Acc;
+  /** Folds a value into the accumulator and returns the accumulator */
+  accumulate(acc: Acc, value: Value): Acc | Promise<Acc>;
+  /** Converts the accumulator into the final result */
+  finish(acc: Acc): Result | Promise<Result>;
+  /** Merges two partial accumulators into one */
+  combine?(left: Acc, right: Acc): Acc;
+};
+
+/**
+ * Extracts the result type of a collector.
+ */
+export type CollectorResult<C> = C extends Collector<any, any, infer Result>
+  ? Result
+  : never;
+
+/**
+ * Collects values into an array. This is the default collector of
+ * `collect()`.
+ *
+ * @template Value - The type of values being collected
+ * @returns A collector producing an array in encounter order
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3]).collect(toArray());
+ * // result: [1, 2, 3]
+ * ```
+ */
+export function toArray<Value>(): Collector<Value, Value[], Value[]> {
+  return {
+    init: () => [],
+    accumulate(acc, value) {
+      acc.push(value);
+      return acc;
+    },
+    finish: (acc) => acc,
+    combine: (left, right) => left.concat(right),
+  };
+}
+
+/**
+ * Collects distinct values into a Set.
+ *
+ * @template Value - The type of values being collected
+ * @returns A collector producing a Set in encounter order
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 2]).collect(toSet());
+ * // result: Set { 1, 2 }
+ * ```
+ */
+export function toSet<Value>(): Collector<Value, Set<Value>, Set<Value>> {
+  return {
+    init: () => new Set(),
+    accumulate(acc, value) {
+      acc.add(value);
+      return acc;
+    },
+    finish: (acc) => acc,
+    combine(left, right) {
+      for (const value of right) left.add(value);
+      return left;
+    },
+  };
+}
+
+/**
+ * Feeds every value to each of the given collectors in a single pass and
+ * returns their results as a tuple. The combined collector supports
+ * `combine` only when all given collectors do.
+ *
+ * @template Value - The type of values being collected
+ * @template Collectors - The tuple of collectors to feed
+ * @param collectors - The collectors to feed
+ * @returns A collector producing a tuple with the result of each collector
+ *
+ * @example
+ * ```ts
+ * const [all, distinct] = await iterup([1, 2, 2]).collect(tee(toArray(), toSet()));
+ * // all: [1, 2, 2], distinct: Set { 1, 2 }
+ * ```
+ */
+export function tee<Value, Collectors extends Collector<Value, any, any>[]>(
+  ...collectors: Collectors
+): Collector<
+  Value,
+  unknown[],
+  { [K in keyof Collectors]: CollectorResult<Collectors[K]> }
+> {
+  const combinable = collectors.every((collector) => collector.combine);
+
+  return {
+    init: () => collectors.map((collector) => collector.init()),
+    accumulate(acc, value) {
+      const results = collectors.map((collector, index) =>
+        collector.accumulate(acc[index], value)
+      );
+      if (results.some((result) => result instanceof Promise)) {
+        return Promise.all(results);
+      }
+      return results;
+    },
+    finish(acc) {
+      const results = collectors.map((collector, index) =>
+        collector.finish(acc[index])
+      );
+      if (results.some((result) => result instanceof Promise)) {
+        return Promise.all(results) as any;
+      }
+      return results as any;
+    },
+    combine: combinable
+      ? (left, right) =>
+          collectors.map((collector, index) =>
+            collector.combine!(left[index], right[index])
+          )
+      : undefined,
+  };
+}
+
+/**
+ * Transforms every value before handing it to another collector, like
+ * `Collectors.mapping` in Java.
+ *
+ * @template Value - The type of values being collected
+ * @template MapValue - The type of the transformed values
+ * @template Acc - The accumulator type of the downstream collector
+ * @template Result - The result type of the downstream collector
+ * @param f - Function to transform each value (async supported on the async pipeline)
+ * @param collector - The downstream collector receiving transformed values
+ * @returns A collector producing the downstream result
+ *
+ * @example
+ * ```ts
+ * const lengths = await iterup(["a", "bb"]).collect(mapping(s => s.length, toSet()));
+ * // result: Set { 1, 2 }
+ * ```
+ */
+export function mapping<Value, MapValue, Acc, Result>(
+  f: (value: Value) => MapValue | Promise<MapValue>,
+  collector: Collector<MapValue, Acc, Result>
+): Collector<Value, Acc, Result> {
+  return {
+    init: () => collector.init(),
+    accumulate(acc, value) {
+      const mapped = f(value);
+      if (mapped instanceof Promise) {
+        return mapped.then((value) => collector.accumulate(acc, value));
+      }
+      return collector.accumulate(acc, mapped);
+    },
+    finish: (acc) => collector.finish(acc),
+    combine: collector.combine?.bind(collector),
+  };
+}
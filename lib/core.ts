@@ -1,6 +1,29 @@
-import { Extensions, NumericExtensions } from "./extensions";
-import { range, RangeArgument } from "./methods";
+import {
+  BigIntExtensions,
+  Extensions,
+  NumericExtensions,
+  SignalBranches,
+  SignalCallbacks,
+  StringExtensions,
+} from "./extensions";
+import {
+  merge,
+  range,
+  RangeArgument,
+  type IteratorValues,
+  type MergeOptions,
+  type Shared,
+} from "./methods";
 import { OverrideFunctions, type Overrides } from "./overrides";
+import {
+  fromEmitter,
+  fromEventTarget,
+  fromReadableStream,
+  type ChannelOptions,
+  type Emitter,
+  type EmitterOptions,
+  type ReadableStreamOptions,
+} from "./sources";
 import { isAsyncIterator, isIterable, isIterator } from "./utils";
 
 /**
@@ -87,47 +110,157 @@ type IterupBase<Value> = Omit<BaseAsyncIterator<Value>, Excludes<Value>> &
 type IterupNumeric<Value extends number> = IterupBase<Value> &
   NumericExtensions<Value>;
 
+type IterupBigInt<Value extends bigint> = IterupBase<Value> &
+  BigIntExtensions<Value>;
+
+type IterupString<Value extends string> = IterupBase<Value> &
+  StringExtensions<Value>;
+
 /**
  * The main Iterup type that combines base async iterator functionality
  * with extension methods and overrides. This is the enhanced iterator
  * interface that provides functional programming capabilities.
  *
+ * The value type is wrapped in a tuple so the conditional does not
+ * distribute over unions: `Iterup<number | string>` stays one Iterup whose
+ * methods can be called, rather than `IterupNumeric<number> |
+ * IterupString<string>`, and `Iterup<boolean>` does not split into
+ * `Iterup<true> | Iterup<false>`. This matters for methods like `filter`
+ * that are mostly used on mixed values and narrow them.
+ *
  * @template Value - The type of values yielded by the iterator
  */
-export type Iterup<Value> = Value extends number
+export type Iterup<Value> = [Value] extends [number]
   ? IterupNumeric<Value>
+  : [Value] extends [bigint]
+  ? IterupBigInt<Value>
+  : [Value] extends [string]
+  ? IterupString<Value>
   : IterupBase<Value>;
+/**
+ * Options accepted by `iterup()`.
+ */
+export type IterupOptions = {
+  /**
+   * Cancels the pipeline when aborted. Pending terminal operations reject
+   * with the abort reason, upstream iterators are closed and callbacks
+   * receive the signal as an extra last argument.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Combines the signal of a pipeline with a signal passed to one of its
+ * methods, so callbacks further down observe both.
+ */
+function attachSignal(
+  signal: AbortSignal | undefined,
+  args: unknown[]
+): AbortSignal | undefined {
+  const attached = args.find((arg) => arg instanceof AbortSignal) as
+    | AbortSignal
+    | undefined;
+  if (!attached || attached === signal) return signal;
+  return signal ? AbortSignal.any([signal, attached]) : attached;
+}
+
+/**
+ * Passes the signal to the callback arguments of a method after their
+ * regular arguments.
+ */
+function withSignalArgs(
+  prop: PropertyKey,
+  args: unknown[],
+  signal: AbortSignal | undefined
+) {
+  const positions = SignalCallbacks[prop as keyof typeof SignalCallbacks];
+  if (!signal || !positions) return args;
+  return args.map((arg, index) =>
+    typeof arg === "function" && positions.includes(index)
+      ? (...params: unknown[]) => arg(...params, signal)
+      : arg
+  );
+}
+
+/**
+ * Passes the signal on to the branches returned by a method that splits the
+ * pipeline, so they are cancelled along with it.
+ */
+function withSignalBranches(
+  prop: PropertyKey,
+  result: unknown,
+  signal: AbortSignal | undefined
+) {
+  if (!signal || !SignalBranches.has(prop as keyof Extensions<{}>)) {
+    return result;
+  }
+  if (Array.isArray(result)) {
+    return result.map((branch: Iterup<unknown>) => branch.withSignal(signal));
+  }
+  const shared = result as Shared<unknown>;
+  return { subscribe: () => shared.subscribe().withSignal(signal) };
+}
+
+/**
+ * Rejects with the abort reason as soon as the signal aborts, even if the
+ * terminal operation is still waiting for a callback.
+ */
+function abortable<Result>(
+  result: Result,
+  signal: AbortSignal | undefined
+): Result {
+  if (!signal || !(result instanceof Promise)) return result;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    result
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  }) as Result;
+}
+
 /**
  * Creates an Iterup instance from an async iterator by wrapping it with
  * extension methods and overrides using a Proxy.
  *
  * @template Value - The type of values yielded by the iterator
  * @param iterator - The async iterator to wrap
+ * @param signal - The signal cancelling the pipeline, passed on to callbacks
  * @returns An enhanced Iterup instance with additional methods
  *
  * @internal This function is used internally by the main iterup function
  */
 export function fromAsyncIterator<Value>(
-  iterator: BaseAsyncIterator<Value>
+  iterator: BaseAsyncIterator<Value>,
+  signal?: AbortSignal
 ): Iterup<Value> {
   const proxy = new Proxy(iterator, {
     get(target, prop, receiver) {
-      const extension = Extensions[prop as keyof typeof Extensions];
+      const extension =
+        Extensions[prop as keyof typeof Extensions] ??
+        StringExtensions[prop as keyof typeof StringExtensions];
       if (extension) {
         return function (...args: any[]) {
-          return fromAsyncIterator(
-            (extension as any).apply(null, [target, ...args] as any)
-          );
+          const result = (extension as any).apply(null, [
+            target,
+            ...withSignalArgs(prop, args, signal),
+          ] as any);
+          // Terminal operations return plain results that must not be wrapped
+          return isAsyncIterator(result)
+            ? fromAsyncIterator(result, attachSignal(signal, args))
+            : abortable(withSignalBranches(prop, result, signal), signal);
         };
       }
       const numericExtension =
-        NumericExtensions[prop as keyof typeof NumericExtensions];
+        NumericExtensions[prop as keyof typeof NumericExtensions] ??
+        BigIntExtensions[prop as keyof typeof BigIntExtensions];
       if (numericExtension) {
         return function (...args: any[]) {
-          return (numericExtension as any).apply(null, [
-            target,
-            ...args,
-          ] as any);
+          return abortable(
+            (numericExtension as any).apply(null, [target, ...args] as any),
+            signal
+          );
         };
       }
 
@@ -181,10 +314,12 @@ function fromIterable<Value>(array: Iterable<Value>): Iterup<Value> {
  *
  * @overload
  * @param range - Range configuration object to create a numeric sequence
+ * @param options - Optional `signal` to cancel the pipeline
  * @returns An Iterup instance yielding numbers in the specified range
  *
  * @overload
  * @param collection - Any iterator, iterable, or async iterator to enhance
+ * @param options - Optional `signal` to cancel the pipeline
  * @returns An Iterup instance with functional programming methods
  *
  * @example
@@ -205,17 +340,135 @@ function fromIterable<Value>(array: Iterable<Value>): Iterup<Value> {
  * // result: [6, 8, 10, 12]
  * ```
  */
-export function iterup(range: RangeArgument): Iterup<number>;
-export function iterup<Value>(collection: BaseIterator<Value>): Iterup<Value>;
+export function iterup(
+  range: RangeArgument,
+  options?: IterupOptions
+): Iterup<number>;
+export function iterup<Value>(
+  collection: BaseIterator<Value>,
+  options?: IterupOptions
+): Iterup<Value>;
 export function iterup<Value>(
-  collection: BaseIterator<Value> | RangeArgument
+  collection: BaseIterator<Value> | RangeArgument,
+  { signal }: IterupOptions = {}
 ): Iterup<Value> | Iterup<number> {
-  if (isAsyncIterator(collection)) {
-    return fromAsyncIterator(collection);
-  }
-  if (isIterator(collection) || isIterable(collection)) {
-    return fromIterable(collection);
-  }
+  const iterator = isAsyncIterator(collection)
+    ? fromAsyncIterator(collection)
+    : isIterator(collection) || isIterable(collection)
+    ? fromIterable(collection)
+    : fromAsyncIterator(range(collection));
+
+  return signal
+    ? ((iterator as Iterup<unknown>).withSignal(signal) as Iterup<Value>)
+    : iterator;
+}
 
-  return fromAsyncIterator(range(collection));
+/**
+ * Creates an Iterup instance from the events of the given type dispatched on
+ * an `EventTarget`. The listener is removed once the pipeline stops.
+ *
+ * @template EventValue - The type of the dispatched events
+ * @param target - The target to listen on
+ * @param type - The event type to listen for
+ * @param options - The queue size and overflow strategy
+ * @returns An Iterup instance yielding the events
+ *
+ * @example
+ * ```ts
+ * const clicks = await iterup.fromEventTarget(button, "click").take(3).collect();
+ * ```
+ */
+iterup.fromEventTarget = function <EventValue extends Event = Event>(
+  target: EventTarget,
+  type: string,
+  options?: ChannelOptions
+): Iterup<EventValue> {
+  return fromAsyncIterator(fromEventTarget<EventValue>(target, type, options));
+};
+
+/**
+ * Creates an Iterup instance from the values emitted by a Node-style event
+ * emitter. The listeners are removed once the pipeline stops.
+ *
+ * @template Value - The type of the emitted values
+ * @param emitter - The emitter to listen on
+ * @param event - The event carrying the values
+ * @param options - End and error events, queue size and overflow strategy
+ * @returns An Iterup instance yielding the first argument of each event
+ *
+ * @example
+ * ```ts
+ * await iterup
+ *   .fromEmitter<Buffer>(socket, "data", { end: "end" })
+ *   .forEach(handle);
+ * ```
+ */
+iterup.fromEmitter = function <Value = unknown>(
+  emitter: Emitter,
+  event: string | symbol,
+  options?: EmitterOptions
+): Iterup<Value> {
+  return fromAsyncIterator(fromEmitter<Value>(emitter, event, options));
+};
+
+/**
+ * Creates an Iterup instance from the chunks of a `ReadableStream`. The
+ * reader lock is released once the pipeline stops.
+ *
+ * @template Value - The type of chunks in the stream
+ * @param stream - The stream to read
+ * @param options - Whether to leave the stream readable on early exit
+ * @returns An Iterup instance yielding the chunks
+ *
+ * @example
+ * ```ts
+ * const response = await fetch(url);
+ * const text = await iterup
+ *   .fromReadableStream(response.body!.pipeThrough(new TextDecoderStream()))
+ *   .concatStrings();
+ * ```
+ */
+iterup.fromReadableStream = function <Value>(
+  stream: ReadableStream<Value>,
+  options?: ReadableStreamOptions
+): Iterup<Value> {
+  return fromAsyncIterator(fromReadableStream(stream, options));
+};
+
+/**
+ * Overloads of `iterup.merge`, mirroring those of `merge`.
+ */
+function mergeSources<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): Iterup<Value | IteratorValues<Others>[number]>;
+function mergeSources<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...args: [...others: Others, options: MergeOptions & { tagged: true }]
+): Iterup<[Value | IteratorValues<Others>[number], number]>;
+function mergeSources<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...args: [...others: Others, options: MergeOptions]
+): Iterup<Value | IteratorValues<Others>[number]>;
+function mergeSources(
+  iterator: BaseIterator<unknown>,
+  ...args: unknown[]
+): Iterup<unknown> {
+  return fromAsyncIterator(
+    merge(iterator, ...(args as BaseIterator<unknown>[]))
+  );
 }
+
+/**
+ * Creates an Iterup instance that consumes all iterators concurrently and
+ * yields their values in the order they arrive, like the `merge` method.
+ * Pass `{ tagged: true }` last to receive `[value, sourceIndex]` pairs.
+ *
+ * @example
+ * ```ts
+ * await iterup
+ *   .merge(orders, payments, { tagged: true })
+ *   .forEach(([event, source]) => handle(event, source));
+ * ```
+ */
+iterup.merge = mergeSources;
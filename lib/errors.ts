@@ -0,0 +1,48 @@
+/**
+ * Error classes thrown by iterup operations.
+ *
+ * Errors that callers are expected to handle get their own class, so they
+ * can be told apart with `instanceof` from errors thrown by the source or by
+ * callbacks.
+ */
+
+/**
+ * Thrown by `timeout`, `timeoutFirst` and `deadline` when a source takes
+ * longer than allowed to produce a value.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await iterup(source).timeout(1000).collect();
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) console.log(`gave up after ${error.ms}ms`);
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+  override name = "TimeoutError";
+
+  /**
+   * @param message - Description of the exceeded limit
+   * @param ms - The limit that was exceeded, in milliseconds
+   */
+  constructor(message: string, readonly ms: number) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown by `buffer` with the `"error"` overflow strategy when the source
+ * produces values faster than the consumer reads them.
+ */
+export class BufferOverflowError extends Error {
+  override name = "BufferOverflowError";
+
+  /**
+   * @param message - Description of the overflow
+   * @param size - The capacity of the buffer that overflowed
+   */
+  constructor(message: string, readonly size: number) {
+    super(message);
+  }
+}
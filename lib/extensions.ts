@@ -5,26 +5,130 @@
  * Iterup instances, providing a fluent interface for iterator operations.
  */
 
-import type { BaseIterator, Iterup, Option } from "./core";
+import type { Collector } from "./collectors";
+import type { BaseIterator, Iterup, None, Option } from "./core";
 import {
+  type BatchOptions,
+  type BufferOptions,
+  type ChunksOptions,
+  type ComparableKey,
+  type Comparator,
+  type ConcurrencyOptions,
+  type DeadlineOptions,
+  type ExtremumOptions,
+  type HistogramBucket,
+  type IteratorValues,
+  type Materialized,
+  type MergeOptions,
+  type MinMaxOptions,
+  type PipeToOptions,
+  type ReplayOptions,
+  type RetryOptions,
+  type Shared,
+  type SkipErrorsOptions,
+  type SumOptions,
+  type ThrottleOptions,
+  type TimeoutOptions,
+  type ToMapOptions,
+  type Tuple,
+  type UnzipOptions,
+  type VarianceOptions,
+  type ZipLongestOptions,
+  type ZipLongestValues,
+  approxPercentile,
+  average,
+  batch,
+  buffer,
+  catchError,
+  chain,
+  chunkBy,
+  chunks,
   collect,
+  collectResult,
+  concatStrings,
+  countBy,
   cycle,
+  deadline,
+  debounce,
+  delay,
   drop,
+  dropWhile,
   enumerate,
   filter,
+  filterErr,
   filterMap,
+  filterOk,
+  find,
+  findIndex,
+  findLast,
   findMap,
+  first,
   flatMap,
+  flattenOptions,
   fold,
   forEach,
+  groupBy,
+  histogram,
+  intersperse,
+  intersperseWith,
+  join,
+  last,
+  lines,
   map,
+  mapErr,
+  mapWhile,
+  materialize,
   max,
+  maxBy,
+  maxByKey,
+  median,
+  merge,
   min,
+  minBy,
+  minByKey,
+  minMax,
+  nth,
+  onErrorResume,
+  partition,
+  partitionResults,
+  percentile,
+  pipeTo,
+  prefetch,
+  race,
   reduce,
+  replay,
+  retry,
+  roundRobin,
+  sample,
+  share,
+  skipErrors,
+  skipUntil,
+  split,
+  stddev,
   sum,
   take,
+  takeUntil,
+  takeWhile,
+  tee,
+  throttle,
+  timeout,
+  timeoutFirst,
+  toMap,
+  toObject,
+  toReadableStream,
+  toSet,
+  tryMap,
+  unzip,
+  variance,
+  windows,
+  withSignal,
+  words,
   zip,
+  zipLongest,
+  zipWith,
 } from "./methods";
+import type { Result } from "./result";
+import type { SchedulerOptions } from "./scheduler";
 
 /**
  * Function type for filtering and transforming values in filterMap operations.
@@ -34,7 +138,8 @@ import {
  * @template FilterValue - The output value type after transformation
  */
 type FilterFunction<Value, FilterValue> = (
-  value: Value
+  value: Value,
+  signal?: AbortSignal
 ) => Option<FilterValue> | Promise<Option<FilterValue>>;
 
 /**
@@ -45,7 +150,8 @@ type FilterFunction<Value, FilterValue> = (
  * @template MapValue - The output value type after transformation
  */
 type MapFunction<Value, MapValue> = (
-  value: Value
+  value: Value,
+  signal?: AbortSignal
 ) => MapValue | Promise<MapValue>;
 
 /**
@@ -62,6 +168,7 @@ export type Extensions<Value> = {
    *
    * @template FilterValue - The type of the transformed values
    * @param f - Function that transforms values; return None to filter out (async supported)
+   * @param options - Concurrency options for async callbacks (default: one at a time, ordered)
    * @returns Async iterator of transformed, non-None values
    *
    * @example
@@ -73,27 +180,97 @@ export type Extensions<Value> = {
    * ```
    */
   filterMap<FilterValue>(
-    f: FilterFunction<Value, FilterValue>
+    f: FilterFunction<Value, FilterValue>,
+    options?: ConcurrencyOptions
+  ): Iterup<FilterValue>;
+
+  /**
+   * Yields only the values that satisfy the predicate function.
+   * Supports async predicates and narrows the value type for type guards.
+   *
+   * @template FilterValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Async iterator of values for which f returned true
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3, 4, 5])
+   *   .filter(x => x > 3)
+   *   .collect();
+   * // result: [4, 5]
+   *
+   * const strings = await iterup([1, "a", 2, "b"])
+   *   .filter((x): x is string => typeof x === "string")
+   *   .collect();
+   * // result: ["a", "b"] (typed as string[])
+   * ```
+   */
+  filter<FilterValue extends Value>(
+    f: (value: Value, signal?: AbortSignal) => value is FilterValue
   ): Iterup<FilterValue>;
+  filter(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Iterup<Value>;
 
   /**
    * Finds the first value that satisfies the predicate function.
-   * Supports async predicates.
+   * Supports async predicates and narrows the value type for type guards.
    *
+   * @template FindValue - The narrowed type when f is a type guard
    * @param f - Predicate function to test each value (async supported)
    * @returns Promise resolving to the first matching value or undefined
    *
    * @example
    * ```ts
-   * const result = await iterup([1, 2, 3, 4, 5])
-   *   .filter(x => x > 3);
+   * const result = await iterup([1, 2, 3, 4, 5]).find(x => x > 3);
    * // result: 4
    * ```
    */
-  filter(
-    f: (value: Value) => boolean | Promise<boolean>
+  find<FindValue extends Value>(
+    f: (value: Value, signal?: AbortSignal) => value is FindValue
+  ): Promise<FindValue | undefined>;
+  find(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds the last value that satisfies the predicate function.
+   * Consumes the entire iterator. Supports async predicates.
+   *
+   * @template FindValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Promise resolving to the last matching value or undefined
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3, 4, 5]).findLast(x => x < 3);
+   * // result: 2
+   * ```
+   */
+  findLast<FindValue extends Value>(
+    f: (value: Value, signal?: AbortSignal) => value is FindValue
+  ): Promise<FindValue | undefined>;
+  findLast(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
   ): Promise<Value | undefined>;
 
+  /**
+   * Finds the index of the first value that satisfies the predicate function.
+   * Supports async predicates.
+   *
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Promise resolving to the index of the first match or -1 if none match
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3, 4, 5]).findIndex(x => x > 3);
+   * // result: 3
+   * ```
+   */
+  findIndex(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Promise<number>;
+
   /**
    * Finds the first value for which the provided function returns a non-None value.
    * Returns the transformed value if found, undefined if none match.
@@ -129,33 +306,165 @@ export type Extensions<Value> = {
   enumerate(): Iterup<[Value, number]>;
 
   /**
-   * Collects all values from the iterator into an array.
-   * This consumes the entire iterator and returns all values as an array.
+   * Collects all values from the iterator using a collector. Without a
+   * collector the values are collected into an array.
+   * This consumes the entire iterator.
    *
-   * @returns Promise resolving to an array containing all yielded values
+   * @template Acc - The accumulator type of the collector
+   * @template Result - The result type of the collector
+   * @param collector - The collector building the result (default: array)
+   * @returns Promise resolving to the collector's result
    *
    * @example
    * ```ts
    * const result = await iterup([1, 2, 3]).collect();
    * // result: [1, 2, 3]
+   *
+   * const [all, distinct] = await iterup([1, 1, 2]).collect(
+   *   collectors.tee(collectors.toArray(), collectors.toSet())
+   * );
+   * // all: [1, 1, 2], distinct: Set { 1, 2 }
    * ```
    */
   collect(): Promise<Array<Value>>;
+  collect<Acc, Result>(
+    collector: Collector<Value, Acc, Result>
+  ): Promise<Result>;
 
   /**
    * Collects all values from the iterator into an array.
-   * This consumes the entire iterator and returns all values as an array.
+   * Alias of `collect()` with the default array collector.
    *
    * @returns Promise resolving to an array containing all yielded values
    */
   toArray(): Promise<Array<Value>>;
 
+  /**
+   * Groups values into arrays by the key returned from the key function.
+   * Groups and the values within them keep their encounter order.
+   *
+   * @template Key - The type of the group keys
+   * @param f - Function returning the group key of each value (async supported)
+   * @returns Promise resolving to a Map from key to the values in that group
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3, 4]).groupBy(x => x % 2 === 0 ? "even" : "odd");
+   * // result: Map { "odd" => [1, 3], "even" => [2, 4] }
+   * ```
+   */
+  groupBy<Key>(
+    f: (value: Value, signal?: AbortSignal) => Key | Promise<Key>
+  ): Promise<Map<Key, Value[]>>;
+
+  /**
+   * Splits values into those that satisfy the predicate and those that don't.
+   *
+   * @template PassValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Promise resolving to a tuple of passing and failing values
+   *
+   * @example
+   * ```ts
+   * const [even, odd] = await iterup([1, 2, 3, 4]).partition(x => x % 2 === 0);
+   * // even: [2, 4], odd: [1, 3]
+   * ```
+   */
+  partition<PassValue extends Value>(
+    f: (value: Value, signal?: AbortSignal) => value is PassValue
+  ): Promise<[PassValue[], Exclude<Value, PassValue>[]]>;
+  partition(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Promise<[Value[], Value[]]>;
+
+  /**
+   * Counts values by the key returned from the key function.
+   *
+   * @template Key - The type of the count keys
+   * @param f - Function returning the key of each value (async supported)
+   * @returns Promise resolving to a Map from key to the number of values with that key
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(["a", "bb", "cc"]).countBy(x => x.length);
+   * // result: Map { 1 => 1, 2 => 2 }
+   * ```
+   */
+  countBy<Key>(
+    f: (value: Value, signal?: AbortSignal) => Key | Promise<Key>
+  ): Promise<Map<Key, number>>;
+
+  /**
+   * Collects values into a Map keyed by the key function. Values are the
+   * elements themselves unless a value function is given.
+   *
+   * @template Key - The type of the map keys
+   * @template MapValue - The type of the map values
+   * @param keyFn - Function returning the key of each value (async supported)
+   * @param valueFn - Function returning the map value of each value (async supported)
+   * @param options - Duplicate key handling
+   * @param options.duplicates - "first", "last", "throw" or "merge" (default: "merge" when `merge` is given, "last" otherwise)
+   * @param options.merge - Combines the existing and incoming value of a duplicate key
+   * @returns Promise resolving to the collected Map
+   * @throws {Error} If a key repeats and the duplicate policy is "throw"
+   * @throws {TypeError} If the policy is "merge" but no merge function is given
+   *
+   * @example
+   * ```ts
+   * const totals = await iterup(orders).toMap(
+   *   order => order.customer,
+   *   order => order.amount,
+   *   { merge: (a, b) => a + b }
+   * );
+   * ```
+   */
+  toMap<Key, MapValue = Value>(
+    keyFn: (value: Value, signal?: AbortSignal) => Key | Promise<Key>,
+    valueFn?: (
+      value: Value,
+      signal?: AbortSignal
+    ) => MapValue | Promise<MapValue>,
+    options?: ToMapOptions<Key, MapValue>
+  ): Promise<Map<Key, MapValue>>;
+
+  /**
+   * Collects all distinct values into a Set.
+   *
+   * @returns Promise resolving to a Set of the values in encounter order
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 2, 3]).toSet();
+   * // result: Set { 1, 2, 3 }
+   * ```
+   */
+  toSet(): Promise<Set<Value>>;
+
+  /**
+   * Collects `[key, value]` entries into a plain object, like
+   * `Object.fromEntries`. Later entries overwrite earlier ones.
+   *
+   * @returns Promise resolving to the collected object
+   * @throws {TypeError} If the iterator contains values that are not entries
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(Object.entries(prices))
+   *   .map(([name, price]) => [name, price * 2] as const)
+   *   .toObject();
+   * ```
+   */
+  toObject<Key extends PropertyKey, EntryValue>(
+    this: AsyncIterable<readonly [Key, EntryValue]>
+  ): Promise<Record<Key, EntryValue>>;
+
   /**
    * Transforms each value in the iterator using the provided function.
    * Supports async transformation functions.
    *
    * @template MapValue - The type of values after transformation
    * @param f - Function to transform each value (async supported)
+   * @param options - Concurrency options for async callbacks (default: one at a time, ordered)
    * @returns Async iterator of transformed values
    *
    * @example
@@ -164,9 +473,17 @@ export type Extensions<Value> = {
    *   .map(x => x * 2)
    *   .collect();
    * // result: [2, 4, 6]
+   *
+   * // Fetch up to 8 urls at a time, yielding responses as they arrive
+   * const responses = await iterup(urls)
+   *   .map(url => fetch(url), { concurrency: 8, ordered: false })
+   *   .collect();
    * ```
    */
-  map<MapValue>(f: MapFunction<Value, MapValue>): Iterup<MapValue>;
+  map<MapValue>(
+    f: MapFunction<Value, MapValue>,
+    options?: ConcurrencyOptions
+  ): Iterup<MapValue>;
 
   /**
    * Transforms each value into an iterator and flattens the results.
@@ -223,192 +540,1615 @@ export type Extensions<Value> = {
   drop(count: number): Iterup<Value>;
 
   /**
-   * Repeats the values from the iterator for a specified number of cycles.
-   * The input is consumed and cached during the first cycle; subsequent cycles
-   * replay the cached values. Defaults to infinite cycles.
+   * Yields values while the predicate returns true and stops at the first value
+   * for which it returns false. The upstream iterator is closed when stopping.
    *
-   * @param cycles - Number of times to repeat the sequence (default: Infinity)
-   * @returns Async iterator that yields the original values repeatedly
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Async iterator of the leading values satisfying the predicate
    *
    * @example
    * ```ts
-   * // Cycle through values 3 times
-   * const result = await iterup([1, 2, 3])
-   *   .cycle(3)
+   * const result = await iterup([1, 2, 3, 4, 1])
+   *   .takeWhile(x => x < 3)
    *   .collect();
-   * // result: [1, 2, 3, 1, 2, 3, 1, 2, 3]
+   * // result: [1, 2]
    * ```
    */
-  cycle(cycles?: number): Iterup<Value>;
+  takeWhile(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Iterup<Value>;
 
   /**
-   * Combines two iterators element-wise, yielding pairs until one is exhausted.
-   * The resulting iterator stops when the shorter of the two inputs completes.
+   * Skips values while the predicate returns true and yields the first value for
+   * which it returns false along with all remaining values.
    *
-   * @template AnotherValue - The type of values in the second iterator
-   * @param iterator - The second iterator to zip
-   * @returns Async iterator of [Value, AnotherValue]
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Async iterator without the leading values satisfying the predicate
    *
    * @example
    * ```ts
-   * const result = await iterup([1, 2, 3])
-   *   .zip(['a', 'b', 'c'])
+   * const result = await iterup([1, 2, 3, 4, 1])
+   *   .dropWhile(x => x < 3)
    *   .collect();
-   * // result: [[1, 'a'], [2, 'b'], [3, 'c']]
+   * // result: [3, 4, 1]
    * ```
    */
-  zip<AnotherValue>(
-    iterator: BaseIterator<AnotherValue>
-  ): Iterup<[Value, AnotherValue]>;
+  dropWhile(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Iterup<Value>;
 
   /**
-   * Applies a function to each element and an accumulator, returning the final value.
-   * This is a fundamental operation for building other aggregation functions.
+   * Transforms values until the provided function returns None, then stops.
+   * The upstream iterator is closed when stopping.
    *
-   * @template NewValue - The type of the accumulator and return value
-   * @param initialValue - The initial value for the accumulator
-   * @param f - Function that takes (accumulator, value) and returns the new accumulator
-   * @returns Promise resolving to the final accumulated value
+   * @template MapValue - The type of values after transformation
+   * @param f - Function that transforms values; return None to stop (async supported)
+   * @returns Async iterator of transformed values up to the first None
    *
    * @example
    * ```ts
-   * // Sum using fold
-   * const sum = await iterup([1, 2, 3, 4])
-   *   .fold(0, (acc, val) => acc + val);
-   * // result: 10
+   * const result = await iterup([1, 2, -1, 3])
+   *   .mapWhile(x => x > 0 ? x * 2 : None)
+   *   .collect();
+   * // result: [2, 4]
+   * ```
+   */
+  mapWhile<MapValue>(f: FilterFunction<Value, MapValue>): Iterup<MapValue>;
+
+  /**
+   * Skips values until the predicate returns true, then yields the matching
+   * value and all remaining values.
    *
-   * // Build a string
-   * const sentence = await iterup(['Hello', 'world'])
-   *   .fold('', (acc, word) => acc === '' ? word : `${acc} ${word}`);
-   * // result: "Hello world"
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Async iterator starting at the first value satisfying the predicate
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(['a', 'START', 'b', 'c'])
+   *   .skipUntil(x => x === 'START')
+   *   .collect();
+   * // result: ['START', 'b', 'c']
    * ```
    */
-  fold<NewValue>(
-    initialValue: NewValue,
-    f: (accumulator: NewValue, value: Value) => NewValue | Promise<NewValue>
-  ): Promise<NewValue>;
+  skipUntil(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Iterup<Value>;
 
   /**
-   * Reduces the iterator to a single value using the provided function.
-   * Unlike fold, reduce uses the first element as the initial accumulator value.
-   * Returns undefined if the iterator is empty.
+   * Yields values until the predicate returns true, then stops without yielding
+   * the matching value. The upstream iterator is closed when stopping.
    *
-   * @param f - Function that takes (accumulator, value) and returns the new accumulator
-   * @returns Promise resolving to the reduced value or undefined if empty
+   * @param f - Predicate function to test each value (async supported)
+   * @returns Async iterator of the values before the first value satisfying the predicate
    *
    * @example
    * ```ts
-   * // Sum using reduce
-   * const sum = await iterup([1, 2, 3, 4])
-   *   .reduce((acc, val) => acc + val);
-   * // result: 10
+   * const result = await iterup(['a', 'b', 'END', 'c'])
+   *   .takeUntil(x => x === 'END')
+   *   .collect();
+   * // result: ['a', 'b']
+   * ```
+   */
+  takeUntil(
+    f: (value: Value, signal?: AbortSignal) => boolean | Promise<boolean>
+  ): Iterup<Value>;
+
+  /**
+   * Groups consecutive values into arrays of the given size. The last chunk
+   * holds the remaining values and may be smaller unless `dropPartial` is set.
    *
-   * // Find maximum
-   * const max = await iterup([5, 2, 8, 1, 9])
-   *   .reduce((acc, val) => acc > val ? acc : val);
-   * // result: 9
+   * @param size - The number of values per chunk
+   * @param options - Chunk options
+   * @param options.dropPartial - Drop a smaller last chunk (default: false)
+   * @returns A new Iterup instance yielding chunks
+   * @throws {RangeError} If size is not a positive integer
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3, 4, 5]).chunks(2).collect();
+   * // result: [[1, 2], [3, 4], [5]]
    * ```
    */
-  reduce(
-    f: (accumulator: Value, value: Value) => Value | Promise<Value>
-  ): Promise<Value | undefined>;
+  chunks(size: number, options?: ChunksOptions): Iterup<Value[]>;
 
   /**
-   * Executes a function for each element in the iterator, primarily for side effects.
-   * This consumes the entire iterator and returns void.
+   * Yields sliding windows of `size` consecutive values, starting a new
+   * window every `step` values. Only full windows are yielded.
    *
-   * @param f - Function to execute for each value (can be async; not awaited)
-   * @returns Promise that resolves when all elements have been iterated
+   * @param size - The number of values per window
+   * @param step - The distance between the starts of two windows (default: 1)
+   * @returns A new Iterup instance yielding windows
+   * @throws {RangeError} If size or step is not a positive integer
    *
    * @example
    * ```ts
-   * // Log each element
-   * await iterup([1, 2, 3]).forEach((value) => {
-   *   console.log(`Processing: ${value}`);
-   * });
-   * // Logs: "Processing: 1", "Processing: 2", "Processing: 3"
+   * const result = await iterup([1, 2, 3, 4]).windows(2).collect();
+   * // result: [[1, 2], [2, 3], [3, 4]]
    * ```
    */
-  forEach(f: (value: Value) => void | Promise<void>): Promise<void>;
-};
+  windows(size: number, step?: number): Iterup<Value[]>;
 
-/**
- * Object mapping extension method names to their implementations.
- * Used by the Proxy to dynamically provide extension methods on Iterup instances.
- */
-export const Extensions: Record<keyof Extensions<{}>, any> = {
-  filterMap,
-  findMap,
-  collect,
-  toArray: collect,
-  enumerate,
-  drop,
-  take,
-  flatMap,
-  map,
-  filter,
-  cycle,
-  zip,
-  fold,
-  reduce,
-  forEach,
-};
+  /**
+   * Groups runs of consecutive values that share the same key. A new chunk
+   * starts whenever the key differs from the previous one (compared with ===).
+   *
+   * @template Key - The type of the keys
+   * @param f - Function returning the key of each value (async supported)
+   * @returns A new Iterup instance yielding runs with equal keys
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 1, 2, 3, 3]).chunkBy(x => x).collect();
+   * // result: [[1, 1], [2], [3, 3]]
+   * ```
+   */
+  chunkBy<Key>(
+    f: (value: Value, signal?: AbortSignal) => Key | Promise<Key>
+  ): Iterup<Value[]>;
 
-/**
- * Extension methods available only for numeric iterators.
- * These methods provide mathematical operations on iterators containing numbers.
- *
- * @template Value - The numeric type of values in the iterator
- */
-export type NumericExtensions<Value> = {
   /**
-   * Calculates the sum of all numeric values in the iterator.
-   * This method is only available for numeric iterators.
+   * Groups values into batches that are flushed when either `maxSize` values
+   * were collected or `maxWaitMs` milliseconds passed since the first value
+   * of the batch, whichever comes first.
    *
-   * @returns Promise resolving to the total sum
-   * @throws {TypeError} If the iterator contains non-numeric values
+   * @param options - Batch limits
+   * @param options.maxSize - Flush once the batch holds this many values (default: Infinity)
+   * @param options.maxWaitMs - Flush once this many milliseconds passed since the first value (default: Infinity)
+   * @param options.scheduler - The scheduler used to measure and wait for time (default: systemScheduler)
+   * @returns A new Iterup instance yielding non-empty batches
+   * @throws {RangeError} If maxSize is below 1 or maxWaitMs is negative
    *
    * @example
    * ```ts
-   * const total = await iterup([1, 2, 3, 4, 5]).sum();
-   * // result: 15
+   * await iterup(events)
+   *   .batch({ maxSize: 100, maxWaitMs: 1000 })
+   *   .forEach(rows => db.insert(rows));
    * ```
    */
-  sum(): Promise<number>;
+  batch(options: BatchOptions): Iterup<Value[]>;
 
   /**
-   * Finds the minimum value among all numeric values in the iterator.
-   * This method is only available for numeric iterators.
+   * Repeats the values from the iterator for a specified number of cycles.
+   * The input is consumed and cached during the first cycle; subsequent cycles
+   * replay the cached values. Defaults to infinite cycles.
    *
-   * @returns Promise resolving to the smallest value found
-   * @throws {TypeError} If the iterator contains non-numeric values
+   * @param cycles - Number of times to repeat the sequence (default: Infinity)
+   * @returns Async iterator that yields the original values repeatedly
    *
    * @example
    * ```ts
-   * const minimum = await iterup([5, 2, 8, 1, 9]).min();
-   * // result: 1
+   * // Cycle through values 3 times
+   * const result = await iterup([1, 2, 3])
+   *   .cycle(3)
+   *   .collect();
+   * // result: [1, 2, 3, 1, 2, 3, 1, 2, 3]
+   * ```
+   */
+  cycle(cycles?: number): Iterup<Value>;
+
+  /**
+   * Combines the iterator with other iterators element-wise, yielding tuples
+   * until one of them is exhausted. The remaining iterators are closed with
+   * `return()` once one of them ends.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators to zip
+   * @returns A new Iterup instance yielding tuples with one value from each iterator
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3])
+   *   .zip(['a', 'b', 'c'], [true, false])
+   *   .collect();
+   * // result: [[1, 'a', true], [2, 'b', false]]
    * ```
    */
-  min(): Promise<number>;
+  zip<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<[Value, ...IteratorValues<Others>]>;
 
   /**
-   * Finds the maximum value among all numeric values in the iterator.
-   * This method is only available for numeric iterators.
+   * Combines the iterator with other iterators element-wise until all of them
+   * are exhausted. Values of iterators that ended early are padded with
+   * `None`, or with the `fill` value when an options object is passed last.
    *
-   * @returns Promise resolving to the largest value found
-   * @throws {TypeError} If the iterator contains non-numeric values
+   * @template Others - The tuple of the other iterators
+   * @template Fill - The type of the padding value
+   * @param args - The other iterators, optionally followed by `{ fill }`
+   * @returns A new Iterup instance yielding tuples with one value or padding per iterator
    *
    * @example
    * ```ts
-   * const maximum = await iterup([5, 2, 8, 1, 9]).max();
-   * // result: 9
+   * const result = await iterup([1, 2, 3])
+   *   .zipLongest(['a'], { fill: '-' })
+   *   .collect();
+   * // result: [[1, 'a'], [2, '-'], [3, '-']]
    * ```
    */
-  max(): Promise<number>;
-};
+  zipLongest<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<[Option<Value>, ...ZipLongestValues<Others, None>]>;
+  zipLongest<Others extends BaseIterator<unknown>[], Fill>(
+    ...args: [...iterators: Others, options: ZipLongestOptions<Fill>]
+  ): Iterup<[Value | Fill, ...ZipLongestValues<Others, Fill>]>;
 
-export const NumericExtensions: Record<keyof NumericExtensions<{}>, any> = {
-  sum,
-  min,
-  max,
+  /**
+   * Combines the iterator with other iterators element-wise using a function,
+   * yielding its results until one of the iterators is exhausted.
+   * Supports async functions.
+   *
+   * @template Others - The tuple of the other iterators
+   * @template Result - The type returned by the function
+   * @param f - Function receiving one value from each iterator (async supported)
+   * @param iterators - The other iterators to zip
+   * @returns A new Iterup instance yielding the function results
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2])
+   *   .zipWith((a, b) => a * b, [10, 20])
+   *   .collect();
+   * // result: [10, 40]
+   * ```
+   */
+  zipWith<Others extends BaseIterator<unknown>[], Result>(
+    f: (
+      value: Value,
+      ...others: IteratorValues<Others>
+    ) => Result | Promise<Result>,
+    ...iterators: Others
+  ): Iterup<Result>;
+
+  /**
+   * Splits an iterator of pairs into two iterators that can be consumed
+   * independently. Values are buffered for the side that lags behind; with a
+   * bounded `bufferSize` the side that runs ahead waits for the other one.
+   *
+   * @template First - The type of the first values of the pairs
+   * @template Second - The type of the second values of the pairs
+   * @param options - Buffering options
+   * @param options.bufferSize - Maximum number of values buffered per side (default: Infinity)
+   * @returns A tuple of two Iterup instances
+   * @throws {RangeError} If bufferSize is below 1
+   *
+   * @example
+   * ```ts
+   * const [numbers, letters] = iterup([[1, 'a'], [2, 'b']] as const).unzip();
+   * await numbers.collect(); // [1, 2]
+   * ```
+   */
+  unzip<First, Second>(
+    this: AsyncIterable<readonly [First, Second]>,
+    options?: UnzipOptions
+  ): [Iterup<First>, Iterup<Second>];
+
+  /**
+   * Splits the iterator into `n` iterators that each yield all of its values
+   * and can be consumed independently. The source is read only once; values
+   * are buffered until the slowest iterator has read them.
+   *
+   * @template Count - The number of iterators
+   * @param n - The number of iterators to create (default: 2)
+   * @returns A tuple of `n` Iterup instances
+   * @throws {RangeError} If n is not a positive integer
+   *
+   * @example
+   * ```ts
+   * const [forSum, forMax] = iterup(readings()).tee();
+   * const [sum, max] = await Promise.all([forSum.sum(), forMax.max()]);
+   * ```
+   */
+  tee<Count extends number = 2>(n?: Count): Tuple<Iterup<Value>, Count>;
+
+  /**
+   * Shares one reading of the iterator between any number of subscribers.
+   * Each subscriber receives the values read after it subscribed. The source
+   * is closed once all subscribers have closed.
+   *
+   * @returns A shared source to subscribe to
+   *
+   * @example
+   * ```ts
+   * const prices = iterup(priceFeed).share();
+   * await Promise.all([
+   *   prices.subscribe().filter(isSpike).forEach(alert),
+   *   prices.subscribe().forEach(record),
+   * ]);
+   * ```
+   */
+  share(): Shared<Value>;
+
+  /**
+   * Like `share`, but late subscribers first receive up to `bufferSize` of
+   * the most recent values read before they subscribed.
+   *
+   * @param options - How many values to replay (default: all)
+   * @returns A shared source to subscribe to
+   * @throws {RangeError} If bufferSize is negative
+   *
+   * @example
+   * ```ts
+   * const history = iterup(events).replay({ bufferSize: 10 });
+   * await history.subscribe().take(20).forEach(handle);
+   * const lastTen = await history.subscribe().take(10).collect();
+   * ```
+   */
+  replay(options?: ReplayOptions): Shared<Value>;
+
+  /**
+   * Yields all values of the iterator followed by the values of each of the
+   * given iterators in turn. The given iterators are only started once the
+   * previous ones are exhausted.
+   *
+   * @template Others - The tuple of the iterators to append
+   * @param iterators - The iterators to append (sync, async or iterable)
+   * @returns A new Iterup instance yielding all values in order
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2]).chain([3], new Set([4])).collect();
+   * // result: [1, 2, 3, 4]
+   * ```
+   */
+  chain<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Alias of `chain`.
+   *
+   * @template Others - The tuple of the iterators to append
+   * @param iterators - The iterators to append (sync, async or iterable)
+   * @returns A new Iterup instance yielding all values in order
+   */
+  concat<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Takes one value from the iterator and each given iterator in turn,
+   * skipping exhausted iterators, until all of them are exhausted.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators (sync, async or iterable)
+   * @returns A new Iterup instance yielding the interleaved values
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3]).roundRobin(['a']).collect();
+   * // result: [1, 'a', 2, 3]
+   * ```
+   */
+  roundRobin<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Alias of `roundRobin`.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators (sync, async or iterable)
+   * @returns A new Iterup instance yielding the interleaved values
+   */
+  interleave<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Yields the separator between every two consecutive values.
+   *
+   * @template Separator - The type of the separator
+   * @param separator - The value placed between values
+   * @returns A new Iterup instance yielding values and separators
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3]).intersperse(0).collect();
+   * // result: [1, 0, 2, 0, 3]
+   * ```
+   */
+  intersperse<Separator>(separator: Separator): Iterup<Value | Separator>;
+
+  /**
+   * Yields the result of the separator function between every two
+   * consecutive values. The function is called once per separator.
+   * Supports async functions.
+   *
+   * @template Separator - The type returned by the separator function
+   * @param f - Function producing each separator (async supported)
+   * @returns A new Iterup instance yielding values and separators
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(['a', 'b']).intersperseWith(() => ', ').collect();
+   * // result: ['a', ', ', 'b']
+   * ```
+   */
+  intersperseWith<Separator>(
+    f: () => Separator | Promise<Separator>
+  ): Iterup<Value | Separator>;
+
+  /**
+   * Consumes the iterator and the given iterators concurrently and yields
+   * their values in the order they arrive. Pass `{ tagged: true }` last to
+   * receive `[value, sourceIndex]` pairs, where the current iterator has
+   * index 0. All sources are closed when the consumer stops early.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param args - The other iterators, optionally followed by `{ tagged }`
+   * @returns A new Iterup instance yielding values in arrival order
+   *
+   * @example
+   * ```ts
+   * const events = await iterup(clicks)
+   *   .merge(keys, { tagged: true })
+   *   .take(10)
+   *   .collect();
+   * // events: [[click, 0], [key, 1], ...]
+   * ```
+   */
+  merge<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+  merge<Others extends BaseIterator<unknown>[]>(
+    ...args: [...iterators: Others, options: MergeOptions & { tagged: true }]
+  ): Iterup<[Value | IteratorValues<Others>[number], number]>;
+  merge<Others extends BaseIterator<unknown>[]>(
+    ...args: [...iterators: Others, options: MergeOptions]
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Mirrors whichever of the iterator and the given iterators produces a
+   * value first and closes all the others. Iterators that finish without a
+   * value drop out of the race.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The competing iterators
+   * @returns A new Iterup instance yielding the values of the winner
+   *
+   * @example
+   * ```ts
+   * const response = await iterup(primary).race(fallback).collect();
+   * ```
+   */
+  race<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Cancels the pipeline when the signal aborts. Pending terminal operations
+   * reject with the abort reason, upstream iterators are closed with
+   * `return()` and callbacks of later methods receive the signal as an extra
+   * last argument.
+   *
+   * @param signal - The signal that cancels the pipeline
+   * @returns A new Iterup instance that stops once the signal aborts
+   *
+   * @example
+   * ```ts
+   * await iterup(urls)
+   *   .withSignal(controller.signal)
+   *   .map((url, signal) => fetch(url, { signal }))
+   *   .forEach(store);
+   * ```
+   */
+  withSignal(signal: AbortSignal): Iterup<Value>;
+
+  /**
+   * Limits how long the source may take to produce each value. A late value
+   * throws a `TimeoutError` and closes the source, or yields the `fallback`
+   * while waiting continues.
+   *
+   * @template Fallback - The type of the fallback value
+   * @param ms - Maximum time to wait for each value
+   * @param options - Optional `{ fallback }` yielded instead of throwing, and the scheduler
+   * @returns A new Iterup instance with limited waiting time per value
+   *
+   * @example
+   * ```ts
+   * const readings = await iterup(sensor)
+   *   .timeout(1000, { fallback: None })
+   *   .take(10)
+   *   .collect();
+   * ```
+   */
+  timeout<Fallback>(
+    ms: number,
+    options: TimeoutOptions<Fallback>
+  ): Iterup<Value | Fallback>;
+  timeout(ms: number, options?: SchedulerOptions): Iterup<Value>;
+
+  /**
+   * Limits how long the source may take to produce its first value. A late
+   * first value throws a `TimeoutError`, or yields the `fallback` once before
+   * waiting without a limit.
+   *
+   * @template Fallback - The type of the fallback value
+   * @param ms - Maximum time to wait for the first value
+   * @param options - Optional `{ fallback }` yielded instead of throwing, and the scheduler
+   * @returns A new Iterup instance with limited waiting time for the first value
+   *
+   * @example
+   * ```ts
+   * const messages = iterup(socket).timeoutFirst(5000);
+   * ```
+   */
+  timeoutFirst<Fallback>(
+    ms: number,
+    options: TimeoutOptions<Fallback>
+  ): Iterup<Value | Fallback>;
+  timeoutFirst(ms: number, options?: SchedulerOptions): Iterup<Value>;
+
+  /**
+   * Gives the whole iteration a time budget, counted from the first request
+   * for a value. Once it is used up the source is closed and the stream ends,
+   * or a `TimeoutError` is thrown with `onTimeout: "throw"`.
+   *
+   * @param ms - The time budget for the whole iteration
+   * @param options - Whether to end or throw once the budget is used up, and the scheduler
+   * @returns A new Iterup instance that stops at the deadline
+   *
+   * @example
+   * ```ts
+   * const firstSecond = await iterup(events).deadline(1000).collect();
+   * ```
+   */
+  deadline(ms: number, options?: DeadlineOptions): Iterup<Value>;
+
+  /**
+   * Limits the rate of values with a token bucket that holds up to `burst`
+   * tokens and refills with `perSecond` tokens per second. Values wait for a
+   * token instead of being dropped.
+   *
+   * @param options - The rate, burst size and an optional scheduler
+   * @returns A new Iterup instance paced to the rate
+   *
+   * @example
+   * ```ts
+   * await iterup(requests)
+   *   .throttle({ perSecond: 10, burst: 5 })
+   *   .forEach(send);
+   * ```
+   */
+  throttle(options: ThrottleOptions): Iterup<Value>;
+
+  /**
+   * Yields a value only once `ms` milliseconds have passed without a newer
+   * one. The last value is yielded right away when the source finishes.
+   *
+   * @param ms - The quiet period a value has to survive
+   * @param options - Optional scheduler to wait with
+   * @returns A new Iterup instance yielding the debounced values
+   *
+   * @example
+   * ```ts
+   * await iterup(keystrokes).debounce(300).forEach(search);
+   * ```
+   */
+  debounce(ms: number, options?: SchedulerOptions): Iterup<Value>;
+
+  /**
+   * Waits `ms` milliseconds before yielding each value.
+   *
+   * @param ms - The time to wait before each value
+   * @param options - Optional scheduler to wait with
+   * @returns A new Iterup instance yielding the delayed values
+   *
+   * @example
+   * ```ts
+   * await iterup(frames).delay(16).forEach(draw);
+   * ```
+   */
+  delay(ms: number, options?: SchedulerOptions): Iterup<Value>;
+
+  /**
+   * Yields the most recent value once every `ms` milliseconds, skipping
+   * periods without a new value.
+   *
+   * @param ms - The sampling period
+   * @param options - Optional scheduler to wait with
+   * @returns A new Iterup instance yielding at most one value per period
+   *
+   * @example
+   * ```ts
+   * await iterup(mouseMoves).sample(100).forEach(render);
+   * ```
+   */
+  sample(ms: number, options?: SchedulerOptions): Iterup<Value>;
+
+  /**
+   * Replaces the rest of the iterator when it throws. The handler receives
+   * the error and returns the iterator to continue with, or throws to
+   * propagate an error.
+   *
+   * @template Fallback - The type of values in the fallback iterator
+   * @param handler - Function returning the fallback iterator (async supported)
+   * @returns A new Iterup instance that continues with the fallback on error
+   *
+   * @example
+   * ```ts
+   * const prices = await iterup(fetchPrices())
+   *   .catchError(() => cachedPrices)
+   *   .collect();
+   * ```
+   */
+  catchError<Fallback>(
+    handler: (
+      error: unknown
+    ) => BaseIterator<Fallback> | Promise<BaseIterator<Fallback>>
+  ): Iterup<Value | Fallback>;
+
+  /**
+   * Continues with the next fallback iterator whenever the current one
+   * throws. An error of the last fallback is propagated.
+   *
+   * @template Others - The tuple of fallback iterators
+   * @param fallbacks - The iterators to continue with, in order
+   * @returns A new Iterup instance that switches sources on error
+   *
+   * @example
+   * ```ts
+   * const quotes = iterup(primaryFeed).onErrorResume(backupFeed);
+   * ```
+   */
+  onErrorResume<Others extends BaseIterator<unknown>[]>(
+    ...fallbacks: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Transforms errors thrown by the iterator before they propagate.
+   *
+   * @param f - Function returning the error to throw instead (async supported)
+   * @returns A new Iterup instance with transformed errors
+   *
+   * @example
+   * ```ts
+   * await iterup(rows)
+   *   .mapErr((error) => new ImportError("reading rows failed", { cause: error }))
+   *   .forEach(save);
+   * ```
+   */
+  mapErr(f: (error: unknown) => unknown): Iterup<Value>;
+
+  /**
+   * Maps each value with a function and retries failed calls for that value,
+   * waiting `backoff` milliseconds in between. The last error is thrown once
+   * all attempts have failed.
+   *
+   * @template MapValue - The type returned by the function
+   * @param f - Function to apply to each value (async supported)
+   * @param options - Number of attempts (default: 3), backoff and scheduler
+   * @returns A new Iterup instance yielding the mapped values
+   *
+   * @example
+   * ```ts
+   * const users = await iterup(ids)
+   *   .retry((id) => fetchUser(id), { attempts: 5, backoff: 200 })
+   *   .collect();
+   * ```
+   */
+  retry<MapValue>(
+    f: MapFunction<Value, MapValue>,
+    options?: RetryOptions
+  ): Iterup<MapValue>;
+
+  /**
+   * Maps each value and drops the ones whose function throws or rejects,
+   * optionally reporting the errors first. Values after a failed one still
+   * come through. Without a function, errors raised while requesting values
+   * from the source are skipped; generators finish once they throw, other
+   * iterators keep being read.
+   *
+   * @template MapValue - The type returned by the function
+   * @param f - Optional function to apply to each value (async supported)
+   * @param options - Optional function receiving each error
+   * @returns A new Iterup instance without errors
+   *
+   * @example
+   * ```ts
+   * const numbers = await iterup(["1", "bad", "3"])
+   *   .skipErrors(parse, { onError: (error) => log.warn(error) })
+   *   .collect();
+   * // numbers: [1, 3]
+   * ```
+   */
+  skipErrors<MapValue = Value>(
+    f?: MapFunction<Value, MapValue>,
+    options?: SkipErrorsOptions
+  ): Iterup<MapValue>;
+
+  /**
+   * Maps each value and turns the outcomes into `{ ok: true, value }` and
+   * `{ ok: false, error }` records, so failed values can be routed instead of
+   * ending the pipeline. Without a function, the values and errors of the
+   * source are recorded.
+   *
+   * @template MapValue - The type returned by the function
+   * @param f - Optional function to apply to each value (async supported)
+   * @returns A new Iterup instance yielding outcome records
+   *
+   * @example
+   * ```ts
+   * const [ok, failed] = await iterup(rows)
+   *   .materialize(parse)
+   *   .partition((result) => result.ok);
+   * ```
+   */
+  materialize<MapValue = Value>(
+    f?: MapFunction<Value, MapValue>
+  ): Iterup<Materialized<MapValue>>;
+
+  /**
+   * Yields the values of the successful Results and drops the failed ones.
+   *
+   * @returns A new Iterup instance yielding the successful values
+   * @throws {TypeError} If the iterator contains values that are not Results
+   *
+   * @example
+   * ```ts
+   * const numbers = await iterup(rows).tryMap(parse).filterOk().collect();
+   * ```
+   */
+  filterOk<OkValue>(
+    this: AsyncIterable<Result<OkValue, unknown>>
+  ): Iterup<OkValue>;
+
+  /**
+   * Yields the errors of the failed Results and drops the successful ones.
+   *
+   * @returns A new Iterup instance yielding the errors
+   * @throws {TypeError} If the iterator contains values that are not Results
+   *
+   * @example
+   * ```ts
+   * const problems = await iterup(rows).tryMap(parse).filterErr().collect();
+   * ```
+   */
+  filterErr<ErrorValue>(
+    this: AsyncIterable<Result<unknown, ErrorValue>>
+  ): Iterup<ErrorValue>;
+
+  /**
+   * Splits Results into the values of the successful ones and the errors of
+   * the failed ones.
+   *
+   * @returns Promise resolving to `[values, errors]`
+   * @throws {TypeError} If the iterator contains values that are not Results
+   *
+   * @example
+   * ```ts
+   * const [valid, invalid] = await iterup(rows)
+   *   .tryMap(parse)
+   *   .partitionResults();
+   * ```
+   */
+  partitionResults<OkValue, ErrorValue>(
+    this: AsyncIterable<Result<OkValue, ErrorValue>>
+  ): Promise<[OkValue[], ErrorValue[]]>;
+
+  /**
+   * Collects the values of Results into an array, or returns the first
+   * failed Result. Reading stops at the first failure.
+   *
+   * @returns Promise resolving to `Ok(values)` or the first `Err`
+   * @throws {TypeError} If the iterator contains values that are not Results
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(rows).tryMap(parse).collectResult();
+   * if (!result.ok) console.error(result.error);
+   * ```
+   */
+  collectResult<OkValue, ErrorValue>(
+    this: AsyncIterable<Result<OkValue, ErrorValue>>
+  ): Promise<Result<OkValue[], ErrorValue>>;
+
+  /**
+   * Maps each value with a function and captures thrown errors and
+   * rejections as failed Results, so one bad value does not end the
+   * pipeline. Supports async functions.
+   *
+   * @template MapValue - The type returned by the function
+   * @param f - Function to apply to each value (async supported)
+   * @returns A new Iterup instance yielding `Ok(mapped)` or `Err(error)`
+   *
+   * @example
+   * ```ts
+   * const results = await iterup(['1', 'x'])
+   *   .tryMap((row) => JSON.parse(row) as number)
+   *   .collect();
+   * // results: [{ ok: true, value: 1 }, { ok: false, error: SyntaxError }]
+   * ```
+   */
+  tryMap<MapValue>(
+    f: MapFunction<Value, MapValue>
+  ): Iterup<Result<MapValue, unknown>>;
+
+  /**
+   * Yields the values that are not None, narrowing the value type.
+   *
+   * @returns A new Iterup instance yielding the present values
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, None, 2]).flattenOptions().collect();
+   * // result: [1, 2]
+   * ```
+   */
+  flattenOptions(): Iterup<Exclude<Value, None>>;
+
+  /**
+   * Returns the first value, or None for an empty iterator. Unlike `find`,
+   * this tells an empty iterator apart from a first value that is
+   * `undefined`.
+   *
+   * @returns Promise resolving to the first value or None
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([undefined, 1]).first();
+   * // result: undefined (not None)
+   * ```
+   */
+  first(): Promise<Option<Value>>;
+
+  /**
+   * Returns the last value, or None for an empty iterator.
+   *
+   * @returns Promise resolving to the last value or None
+   *
+   * @example
+   * ```ts
+   * const result = await iterup([1, 2, 3]).last();
+   * // result: 3
+   * ```
+   */
+  last(): Promise<Option<Value>>;
+
+  /**
+   * Returns the value at the given zero-based position, or None when the
+   * iterator is shorter. Reading stops at that position.
+   *
+   * @param n - The zero-based position of the value
+   * @returns Promise resolving to the value or None
+   * @throws {RangeError} If n is not a non-negative integer
+   *
+   * @example
+   * ```ts
+   * const result = await iterup(['a', 'b', 'c']).nth(1);
+   * // result: 'b'
+   * ```
+   */
+  nth(n: number): Promise<Option<Value>>;
+
+  /**
+   * Reads values from the source in the background and keeps up to `size`
+   * of them ready while the consumer is busy. The `overflow` strategy decides
+   * what happens when the buffer is full: `"block"` waits for the consumer,
+   * `"drop-oldest"` and `"drop-newest"` discard a value, and `"error"` fails
+   * with a `BufferOverflowError`. While the buffer is full, the dropping and
+   * error strategies wait for the scheduler before each read.
+   *
+   * @param size - The maximum number of buffered values
+   * @param options - The overflow strategy (default: "block") and scheduler
+   * @returns A new Iterup instance reading ahead of the consumer
+   * @throws {RangeError} If size is not a positive integer
+   *
+   * @example
+   * ```ts
+   * await iterup(ticker)
+   *   .buffer(100, { overflow: "drop-oldest" })
+   *   .forEach(render);
+   * ```
+   */
+  buffer(size: number, options?: BufferOptions): Iterup<Value>;
+
+  /**
+   * Reads up to `size` values ahead of the consumer, waiting whenever that
+   * many values are ready. Same as `buffer(size)`.
+   *
+   * @param size - The maximum number of values read ahead
+   * @returns A new Iterup instance reading ahead of the consumer
+   * @throws {RangeError} If size is not a positive integer
+   *
+   * @example
+   * ```ts
+   * await iterup(pageUrls).map(download).prefetch(3).forEach(process);
+   * ```
+   */
+  prefetch(size: number): Iterup<Value>;
+
+  /**
+   * Applies a function to each element and an accumulator, returning the final value.
+   * This is a fundamental operation for building other aggregation functions.
+   *
+   * @template NewValue - The type of the accumulator and return value
+   * @param initialValue - The initial value for the accumulator
+   * @param f - Function that takes (accumulator, value) and returns the new accumulator
+   * @returns Promise resolving to the final accumulated value
+   *
+   * @example
+   * ```ts
+   * // Sum using fold
+   * const sum = await iterup([1, 2, 3, 4])
+   *   .fold(0, (acc, val) => acc + val);
+   * // result: 10
+   *
+   * // Build a string
+   * const sentence = await iterup(['Hello', 'world'])
+   *   .fold('', (acc, word) => acc === '' ? word : `${acc} ${word}`);
+   * // result: "Hello world"
+   * ```
+   */
+  fold<NewValue>(
+    initialValue: NewValue,
+    f: (
+      accumulator: NewValue,
+      value: Value,
+      signal?: AbortSignal
+    ) => NewValue | Promise<NewValue>
+  ): Promise<NewValue>;
+
+  /**
+   * Reduces the iterator to a single value using the provided function.
+   * Unlike fold, reduce uses the first element as the initial accumulator value.
+   * Returns undefined if the iterator is empty.
+   *
+   * @param f - Function that takes (accumulator, value) and returns the new accumulator
+   * @returns Promise resolving to the reduced value or undefined if empty
+   *
+   * @example
+   * ```ts
+   * // Sum using reduce
+   * const sum = await iterup([1, 2, 3, 4])
+   *   .reduce((acc, val) => acc + val);
+   * // result: 10
+   *
+   * // Find maximum
+   * const max = await iterup([5, 2, 8, 1, 9])
+   *   .reduce((acc, val) => acc > val ? acc : val);
+   * // result: 9
+   * ```
+   */
+  reduce(
+    f: (
+      accumulator: Value,
+      value: Value,
+      signal?: AbortSignal
+    ) => Value | Promise<Value>
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds the smallest element according to the comparator.
+   * Supports async comparators.
+   *
+   * @param compare - Comparator returning a negative number if a is smaller than b (async supported)
+   * @param options - Tie-breaking options (default: the first smallest element wins)
+   * @returns Promise resolving to the smallest element or undefined if empty
+   *
+   * @example
+   * ```ts
+   * const cheapest = await iterup(offers)
+   *   .minBy((a, b) => a.price - b.price);
+   * ```
+   */
+  minBy(
+    compare: Comparator<Value>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds the largest element according to the comparator.
+   * Supports async comparators.
+   *
+   * @param compare - Comparator returning a positive number if a is larger than b (async supported)
+   * @param options - Tie-breaking options (default: the first largest element wins)
+   * @returns Promise resolving to the largest element or undefined if empty
+   *
+   * @example
+   * ```ts
+   * const newest = await iterup(records)
+   *   .maxBy((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+   * ```
+   */
+  maxBy(
+    compare: Comparator<Value>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds the element with the smallest key. The key selector is called once
+   * per element. Supports async key selectors.
+   *
+   * @param f - Function returning the key to compare (async supported)
+   * @param options - Tie-breaking options (default: the first smallest element wins)
+   * @returns Promise resolving to the element with the smallest key or undefined if empty
+   *
+   * @example
+   * ```ts
+   * const cheapest = await iterup(offers).minByKey(offer => offer.price);
+   * ```
+   */
+  minByKey(
+    f: (
+      value: Value,
+      signal?: AbortSignal
+    ) => ComparableKey | Promise<ComparableKey>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds the element with the largest key. The key selector is called once
+   * per element. Supports async key selectors.
+   *
+   * @param f - Function returning the key to compare (async supported)
+   * @param options - Tie-breaking options (default: the first largest element wins)
+   * @returns Promise resolving to the element with the largest key or undefined if empty
+   *
+   * @example
+   * ```ts
+   * const newest = await iterup(records).maxByKey(record => record.createdAt);
+   * ```
+   */
+  maxByKey(
+    f: (
+      value: Value,
+      signal?: AbortSignal
+    ) => ComparableKey | Promise<ComparableKey>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+
+  /**
+   * Finds both the smallest and the largest element according to the
+   * comparator in a single pass. Supports async comparators.
+   *
+   * @param compare - Comparator returning a negative number if a is smaller than b (async supported)
+   * @param options - Tie-breaking options applied to both ends (default: first wins)
+   * @returns Promise resolving to `{ min, max }` or undefined if empty
+   *
+   * @example
+   * ```ts
+   * const bounds = await iterup(['pear', 'fig', 'banana'])
+   *   .minMax((a, b) => a.length - b.length);
+   * // result: { min: 'fig', max: 'banana' }
+   * ```
+   */
+  minMax(
+    compare: Comparator<Value>,
+    options?: ExtremumOptions
+  ): Promise<{ min: Value; max: Value } | undefined>;
+
+  /**
+   * Executes a function for each element in the iterator, primarily for side effects.
+   * This consumes the entire iterator and returns void.
+   *
+   * @param f - Function to execute for each value (async supported)
+   * @param options - Concurrency options for async callbacks (default: one at a time)
+   * @returns Promise that resolves when all elements have been iterated
+   *
+   * @example
+   * ```ts
+   * // Log each element
+   * await iterup([1, 2, 3]).forEach((value) => {
+   *   console.log(`Processing: ${value}`);
+   * });
+   * // Logs: "Processing: 1", "Processing: 2", "Processing: 3"
+   * ```
+   */
+  forEach(
+    f: (value: Value, signal?: AbortSignal) => void | Promise<void>,
+    options?: Omit<ConcurrencyOptions, "ordered">
+  ): Promise<void>;
+
+  /**
+   * Creates a `ReadableStream` that pulls values from the iterator as the
+   * stream needs them. Cancelling the stream closes the iterator.
+   *
+   * @param strategy - Queuing strategy of the stream (default: one value ahead)
+   * @returns A readable stream of the values
+   *
+   * @example
+   * ```ts
+   * const body = iterup(rows).map(toCsvLine).toReadableStream();
+   * return new Response(body.pipeThrough(new TextEncoderStream()));
+   * ```
+   */
+  toReadableStream(strategy?: QueuingStrategy<Value>): ReadableStream<Value>;
+
+  /**
+   * Writes every value to a `WritableStream`, respecting its backpressure.
+   * The stream is closed when the iterator finishes and aborted when it
+   * fails.
+   *
+   * @param writable - The stream to write to
+   * @param options - Whether to leave the stream open or usable afterwards
+   * @returns Promise that resolves once every value is written
+   *
+   * @example
+   * ```ts
+   * await iterup(chunks).pipeTo(fileHandle.createWritable());
+   * ```
+   */
+  pipeTo(
+    writable: WritableStream<Value>,
+    options?: PipeToOptions
+  ): Promise<void>;
+};
+
+/**
+ * Object mapping extension method names to their implementations.
+ * Used by the Proxy to dynamically provide extension methods on Iterup instances.
+ */
+export const Extensions: Record<keyof Extensions<{}>, any> = {
+  filterMap,
+  findMap,
+  collect,
+  toArray: collect,
+  groupBy,
+  partition,
+  countBy,
+  toMap,
+  toSet,
+  toObject,
+  enumerate,
+  drop,
+  take,
+  takeWhile,
+  dropWhile,
+  mapWhile,
+  skipUntil,
+  takeUntil,
+  chunks,
+  windows,
+  chunkBy,
+  batch,
+  flatMap,
+  map,
+  filter,
+  find,
+  findLast,
+  findIndex,
+  cycle,
+  zip,
+  zipLongest,
+  zipWith,
+  unzip,
+  tee,
+  share,
+  replay,
+  chain,
+  concat: chain,
+  roundRobin,
+  interleave: roundRobin,
+  intersperse,
+  intersperseWith,
+  merge,
+  race,
+  withSignal,
+  timeout,
+  timeoutFirst,
+  deadline,
+  throttle,
+  debounce,
+  delay,
+  sample,
+  catchError,
+  onErrorResume,
+  mapErr,
+  retry,
+  skipErrors,
+  materialize,
+  filterOk,
+  filterErr,
+  partitionResults,
+  collectResult,
+  tryMap,
+  flattenOptions,
+  first,
+  last,
+  nth,
+  buffer,
+  prefetch,
+  fold,
+  reduce,
+  forEach,
+  toReadableStream,
+  pipeTo,
+  minBy,
+  maxBy,
+  minByKey,
+  maxByKey,
+  minMax,
+};
+
+/**
+ * Positions of the callback arguments that receive the pipeline signal as an
+ * extra last argument. Other function arguments, such as variadic `zipWith`
+ * callbacks, separators and error handlers, are passed through unchanged.
+ */
+export const SignalCallbacks: Partial<
+  Record<keyof Extensions<{}>, readonly number[]>
+> = {
+  filterMap: [0],
+  findMap: [0],
+  groupBy: [0],
+  partition: [0],
+  countBy: [0],
+  toMap: [0, 1],
+  takeWhile: [0],
+  dropWhile: [0],
+  mapWhile: [0],
+  skipUntil: [0],
+  takeUntil: [0],
+  chunkBy: [0],
+  flatMap: [0],
+  map: [0],
+  filter: [0],
+  find: [0],
+  findLast: [0],
+  findIndex: [0],
+  retry: [0],
+  skipErrors: [0],
+  materialize: [0],
+  tryMap: [0],
+  fold: [1],
+  reduce: [0],
+  forEach: [0],
+  minByKey: [0],
+  maxByKey: [0],
+};
+
+/**
+ * Methods that split the pipeline into branches, returned as a tuple of
+ * Iterup instances or as a shared source handing them out. Every branch
+ * keeps the pipeline signal.
+ */
+export const SignalBranches: ReadonlySet<keyof Extensions<{}>> = new Set([
+  "unzip",
+  "tee",
+  "share",
+  "replay",
+] as const);
+
+/**
+ * Extension methods available only for numeric iterators.
+ * These methods provide mathematical operations on iterators containing numbers.
+ *
+ * @template Value - The numeric type of values in the iterator
+ */
+export type NumericExtensions<Value> = {
+  /**
+   * Calculates the sum of all numeric values in the iterator.
+   * This method is only available for numeric iterators.
+   *
+   * @param options - Summation options
+   * @param options.compensated - Use Neumaier compensated summation (default: false)
+   * @returns Promise resolving to the total sum (0 for empty iterators)
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const total = await iterup([1, 2, 3, 4, 5]).sum();
+   * // result: 15
+   *
+   * const precise = await iterup([0.1, 0.2, 0.3]).sum({ compensated: true });
+   * // result: 0.6
+   * ```
+   */
+  sum(options?: SumOptions): Promise<number>;
+
+  /**
+   * Finds the minimum value among all numeric values in the iterator.
+   * This method is only available for numeric iterators.
+   *
+   * @param options - Comparison options
+   * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+   * @returns Promise resolving to the smallest value found or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const minimum = await iterup([5, 2, 8, 1, 9]).min();
+   * // result: 1
+   * ```
+   */
+  min(options?: MinMaxOptions): Promise<number | undefined>;
+
+  /**
+   * Finds the maximum value among all numeric values in the iterator.
+   * This method is only available for numeric iterators.
+   *
+   * @param options - Comparison options
+   * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+   * @returns Promise resolving to the largest value found or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const maximum = await iterup([5, 2, 8, 1, 9]).max();
+   * // result: 9
+   * ```
+   */
+  max(options?: MinMaxOptions): Promise<number | undefined>;
+
+  /**
+   * Calculates the arithmetic mean of all numeric values in a single pass.
+   * This method is only available for numeric iterators.
+   *
+   * @returns Promise resolving to the mean or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const mean = await iterup([1, 2, 3, 4]).average();
+   * // result: 2.5
+   * ```
+   */
+  average(): Promise<number | undefined>;
+
+  /**
+   * Calculates the variance of all numeric values in a single pass using
+   * Welford's algorithm.
+   * This method is only available for numeric iterators.
+   *
+   * @param options - Variance options
+   * @param options.sample - Compute the sample variance instead of the population variance (default: false)
+   * @returns Promise resolving to the variance or undefined if there are too few values
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const variance = await iterup([2, 4, 4, 4, 5, 5, 7, 9]).variance();
+   * // result: 4
+   * ```
+   */
+  variance(options?: VarianceOptions): Promise<number | undefined>;
+
+  /**
+   * Calculates the standard deviation of all numeric values in a single pass
+   * using Welford's algorithm.
+   * This method is only available for numeric iterators.
+   *
+   * @param options - Variance options
+   * @param options.sample - Compute the sample standard deviation instead of the population one (default: false)
+   * @returns Promise resolving to the standard deviation or undefined if there are too few values
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const stddev = await iterup([2, 4, 4, 4, 5, 5, 7, 9]).stddev();
+   * // result: 2
+   * ```
+   */
+  stddev(options?: VarianceOptions): Promise<number | undefined>;
+
+  /**
+   * Calculates the exact median of all numeric values. Buffers all values.
+   * This method is only available for numeric iterators.
+   *
+   * @returns Promise resolving to the median, undefined if empty or NaN if any value is NaN
+   * @throws {TypeError} If the iterator contains non-numeric values
+   *
+   * @example
+   * ```ts
+   * const median = await iterup([5, 1, 4, 2]).median();
+   * // result: 3
+   * ```
+   */
+  median(): Promise<number | undefined>;
+
+  /**
+   * Calculates the exact p-th percentile of all numeric values, interpolating
+   * linearly between the closest ranks. Buffers all values; use
+   * `approxPercentile` for unbounded streams.
+   * This method is only available for numeric iterators.
+   *
+   * @param p - The percentile to compute, between 0 and 100
+   * @returns Promise resolving to the percentile, undefined if empty or NaN if any value is NaN
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If p is outside [0, 100]
+   *
+   * @example
+   * ```ts
+   * const p90 = await iterup(latencies).percentile(90);
+   * ```
+   */
+  percentile(p: number): Promise<number | undefined>;
+
+  /**
+   * Estimates the p-th percentile of all numeric values in constant memory
+   * using the P² algorithm. NaN values are ignored.
+   * This method is only available for numeric iterators.
+   *
+   * @param p - The percentile to estimate, between 0 and 100
+   * @returns Promise resolving to the estimated percentile or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If p is outside [0, 100]
+   *
+   * @example
+   * ```ts
+   * const p99 = await iterup(latencyStream).approxPercentile(99);
+   * ```
+   */
+  approxPercentile(p: number): Promise<number | undefined>;
+
+  /**
+   * Counts the numeric values falling into each bucket delimited by the
+   * given boundaries. The outer buckets are open ended, so every value except
+   * NaN is counted.
+   * This method is only available for numeric iterators.
+   *
+   * @param boundaries - Strictly ascending bucket boundaries
+   * @returns Promise resolving to boundaries.length + 1 buckets
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If the boundaries are not strictly ascending
+   *
+   * @example
+   * ```ts
+   * const buckets = await iterup([5, 15, 25, 100]).histogram([10, 50]);
+   * // result: [
+   * //   { from: -Infinity, to: 10, count: 1 },
+   * //   { from: 10, to: 50, count: 2 },
+   * //   { from: 50, to: Infinity, count: 1 },
+   * // ]
+   * ```
+   */
+  histogram(boundaries: number[]): Promise<HistogramBucket[]>;
+};
+
+export const NumericExtensions: Record<keyof NumericExtensions<{}>, any> = {
+  sum,
+  min,
+  max,
+  average,
+  variance,
+  stddev,
+  median,
+  percentile,
+  approxPercentile,
+  histogram,
+};
+
+/**
+ * Extension methods available only for bigint iterators.
+ * The implementations are shared with NumericExtensions and pick the
+ * arithmetic based on the values they receive.
+ *
+ * @template Value - The bigint type of values in the iterator
+ */
+export type BigIntExtensions<Value> = {
+  /**
+   * Calculates the sum of all bigint values in the iterator, starting from
+   * `initial`. The element type of an empty iterator is unknown at runtime,
+   * so the initial value is what makes its sum a bigint; called without it,
+   * as untyped code can, an empty iterator sums to the number 0.
+   *
+   * @param initial - The value the sum starts from, usually 0n
+   * @returns Promise resolving to the total sum (initial for empty iterators)
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   *
+   * @example
+   * ```ts
+   * const total = await iterup([1n, 2n, 3n]).sum(0n);
+   * // result: 6n
+   * ```
+   */
+  sum(initial: bigint): Promise<bigint>;
+
+  /**
+   * Finds the minimum value among all bigint values in the iterator.
+   *
+   * @returns Promise resolving to the smallest value found or undefined if empty
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   */
+  min(): Promise<bigint | undefined>;
+
+  /**
+   * Finds the maximum value among all bigint values in the iterator.
+   *
+   * @returns Promise resolving to the largest value found or undefined if empty
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   */
+  max(): Promise<bigint | undefined>;
+};
+
+export const BigIntExtensions: Record<keyof BigIntExtensions<{}>, any> = {
+  sum,
+  min,
+  max,
+};
+
+/**
+ * Extension methods available only for string iterators.
+ *
+ * @template Value - The string type of values in the iterator
+ */
+export type StringExtensions<Value> = {
+  /**
+   * Joins all string values of the iterator into a single string.
+   * This method is only available for string iterators.
+   *
+   * @param separator - String placed between values (default: ",")
+   * @returns Promise resolving to the joined string ("" for empty iterators)
+   * @throws {TypeError} If the iterator contains non-string values
+   *
+   * @example
+   * ```ts
+   * const csv = await iterup(["a", "b", "c"]).join(", ");
+   * // result: "a, b, c"
+   * ```
+   */
+  join(separator?: string): Promise<string>;
+
+  /**
+   * Concatenates all string values of the iterator without a separator.
+   * This method is only available for string iterators.
+   *
+   * @returns Promise resolving to the concatenated string
+   * @throws {TypeError} If the iterator contains non-string values
+   *
+   * @example
+   * ```ts
+   * const text = await iterup(["Hel", "lo"]).concatStrings();
+   * // result: "Hello"
+   * ```
+   */
+  concatStrings(): Promise<string>;
+
+  /**
+   * Splits a stream of string chunks into lines. Both "\n" and "\r\n" line
+   * endings are recognized, even when they are split across chunks.
+   * This method is only available for string iterators.
+   *
+   * @returns A new Iterup instance yielding lines without their line endings
+   * @throws {TypeError} If the iterator contains non-string values
+   *
+   * @example
+   * ```ts
+   * const lines = await iterup(["first\nsec", "ond\r\nthird"]).lines().collect();
+   * // result: ["first", "second", "third"]
+   * ```
+   */
+  lines(): Iterup<string>;
+
+  /**
+   * Splits a stream of string chunks into whitespace separated words.
+   * This method is only available for string iterators.
+   *
+   * @returns A new Iterup instance yielding non-empty words
+   * @throws {TypeError} If the iterator contains non-string values
+   *
+   * @example
+   * ```ts
+   * const words = await iterup(["hello wo", "rld  again"]).words().collect();
+   * // result: ["hello", "world", "again"]
+   * ```
+   */
+  words(): Iterup<string>;
+
+  /**
+   * Splits a stream of string chunks on a delimiter, like
+   * `String.prototype.split` over the concatenated chunks.
+   * This method is only available for string iterators.
+   *
+   * @param delimiter - The non-empty delimiter to split on
+   * @returns A new Iterup instance yielding the tokens between delimiters
+   * @throws {TypeError} If the iterator contains non-string values
+   * @throws {RangeError} If the delimiter is empty
+   *
+   * @example
+   * ```ts
+   * const fields = await iterup(["a,b", ",c"]).split(",").collect();
+   * // result: ["a", "b", "c"]
+   * ```
+   */
+  split(delimiter: string): Iterup<string>;
+};
+
+export const StringExtensions: Record<keyof StringExtensions<{}>, any> = {
+  join,
+  concatStrings,
+  lines,
+  words,
+  split,
 };
@@ -1,5 +1,33 @@
 import { expect, test, describe } from "bun:test";
-import { iterup, None } from "./main";
+import { EventEmitter } from "node:events";
+import { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  BufferOverflowError,
+  channel,
+  collectors,
+  Err,
+  isErr,
+  isNone,
+  isOk,
+  isSome,
+  iterup,
+  iterupSync,
+  mapOption,
+  merge,
+  None,
+  Ok,
+  orElse,
+  Some,
+  TimeoutError,
+  unwrapOr,
+  virtualScheduler,
+  type Collector,
+  type Option,
+  type Result,
+  type VirtualScheduler,
+} from "./main";
+import { fromNodeReadable, pipeToNode, toNodeReadable } from "./node";
 import { isIterup } from "./utils";
 
 describe("filterMap", () => {
@@ -69,6 +97,80 @@ describe("findMap", () => {
   });
 });
 
+describe("filter", () => {
+  test("should yield all matching values", async () => {
+    const result = await iterup([1, 2, 3, 4, 5])
+      .filter((value) => value % 2 === 1)
+      .collect();
+    expect(result).toEqual([1, 3, 5]);
+  });
+
+  test("should support async predicates", async () => {
+    const result = await iterup([1, 2, 3, 4])
+      .filter(async (value) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return value > 2;
+      })
+      .collect();
+    expect(result).toEqual([3, 4]);
+  });
+
+  test("should narrow types with type guards", async () => {
+    const result: string[] = await iterup([1, "a", 2, "b"])
+      .filter((value): value is string => typeof value === "string")
+      .map((value) => value.toUpperCase())
+      .collect();
+    expect(result).toEqual(["A", "B"]);
+  });
+
+  test("should return iterup instance", () => {
+    expect(isIterup(iterup([1, 2, 3]).filter(() => true))).toBeTrue();
+  });
+
+  test("should resolve to the first match with a warning when awaited", async () => {
+    const warnings: unknown[][] = [];
+    const { warn } = console;
+    console.warn = (...args: unknown[]) => warnings.push(args);
+    try {
+      const filtered: unknown = iterup([1, 2, 3, 4]).filter(
+        (value) => value > 2
+      );
+      expect(await filtered).toBe(3);
+      expect(
+        await (iterup([1]).filter(() => false) as unknown)
+      ).toBeUndefined();
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings).toHaveLength(1);
+    expect(String(warnings[0]![0])).toContain("use find() instead");
+  });
+});
+
+describe("find", () => {
+  test("should return the first matching value", async () => {
+    const result = await iterup([1, 2, 3, 4, 5]).find((value) => value > 3);
+    expect(result).toBe(4);
+  });
+
+  test("should return undefined if no value matches", async () => {
+    const result = await iterup([1, 2, 3]).find((value) => value > 3);
+    expect(result).toBeUndefined();
+  });
+
+  test("should return the last matching value with findLast", async () => {
+    const result = await iterup([1, 2, 3, 4, 5]).findLast(
+      async (value) => value < 3
+    );
+    expect(result).toBe(2);
+  });
+
+  test("should return the index of the first match with findIndex", async () => {
+    expect(await iterup([1, 2, 3]).findIndex((value) => value === 2)).toBe(1);
+    expect(await iterup([1, 2, 3]).findIndex((value) => value > 3)).toBe(-1);
+  });
+});
+
 describe("enumerate", () => {
   test("should return array with index starting at 0", async () => {
     const result = await iterup([1, 2, 3])
@@ -167,6 +269,171 @@ describe("drop", () => {
   });
 });
 
+describe("predicate slicing", () => {
+  const closable = (values: number[]) => {
+    const state = { closed: false };
+    const source = (function* () {
+      try {
+        yield* values;
+      } finally {
+        state.closed = true;
+      }
+    })();
+    return { source, state };
+  };
+
+  test("takeWhile should stop at the first failing value", async () => {
+    const result = await iterup([1, 2, 3, 4, 1])
+      .takeWhile(async (value) => value < 3)
+      .collect();
+    expect(result).toEqual([1, 2]);
+  });
+
+  test("dropWhile should yield from the first failing value", async () => {
+    const result = await iterup([1, 2, 3, 4, 1])
+      .dropWhile((value) => value < 3)
+      .collect();
+    expect(result).toEqual([3, 4, 1]);
+  });
+
+  test("mapWhile should stop at the first None", async () => {
+    const result = await iterup([1, 2, -1, 3])
+      .mapWhile((value) => (value > 0 ? `${value}` : None))
+      .collect();
+    expect(result).toEqual(["1", "2"]);
+  });
+
+  test("skipUntil should include the matching value", async () => {
+    const result = await iterup(["a", "START", "b"])
+      .skipUntil((value) => value === "START")
+      .collect();
+    expect(result).toEqual(["START", "b"]);
+  });
+
+  test("takeUntil should exclude the matching value", async () => {
+    const result = await iterup(["a", "END", "b"])
+      .takeUntil((value) => value === "END")
+      .collect();
+    expect(result).toEqual(["a"]);
+  });
+
+  test("should close the upstream iterator when stopping early", async () => {
+    const takeWhileSource = closable([1, 2, 3]);
+    await iterup(takeWhileSource.source)
+      .takeWhile((value) => value < 2)
+      .collect();
+    expect(takeWhileSource.state.closed).toBeTrue();
+
+    const mapWhileSource = closable([1, 2, 3]);
+    await iterup(mapWhileSource.source)
+      .mapWhile((value) => (value < 2 ? value : None))
+      .collect();
+    expect(mapWhileSource.state.closed).toBeTrue();
+
+    const takeUntilSource = closable([1, 2, 3]);
+    iterupSync(takeUntilSource.source)
+      .takeUntil((value) => value === 2)
+      .collect();
+    expect(takeUntilSource.state.closed).toBeTrue();
+  });
+
+  test("should close the upstream iterator when the consumer stops", async () => {
+    const { source, state } = closable([1, 2, 3]);
+    await iterup(source)
+      .dropWhile((value) => value < 2)
+      .take(1)
+      .collect();
+    expect(state.closed).toBeTrue();
+  });
+});
+
+describe("windowing", () => {
+  test("should split values into chunks", async () => {
+    expect(await iterup([1, 2, 3, 4, 5]).chunks(2).collect()).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+    expect(
+      await iterup([1, 2, 3, 4, 5]).chunks(2, { dropPartial: true }).collect()
+    ).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(() => iterupSync([1]).chunks(0).collect()).toThrowError(RangeError);
+  });
+
+  test("should yield sliding windows", async () => {
+    expect(await iterup([1, 2, 3, 4]).windows(2).collect()).toEqual([
+      [1, 2],
+      [2, 3],
+      [3, 4],
+    ]);
+    expect(iterupSync([1, 2, 3, 4, 5, 6, 7]).windows(2, 3).collect()).toEqual([
+      [1, 2],
+      [4, 5],
+    ]);
+  });
+
+  test("should chunk runs of equal keys", async () => {
+    const result = await iterup(["a", "b", "cc", "d", "ee", "ff"])
+      .chunkBy(async (value) => value.length)
+      .collect();
+    expect(result).toEqual([["a", "b"], ["cc"], ["d"], ["ee", "ff"]]);
+  });
+
+  test("should flush batches by size or time", async () => {
+    const source = async function* () {
+      yield 1;
+      yield 2;
+      yield 3;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      yield 4;
+    };
+    const result = await iterup(source())
+      .batch({ maxSize: 2, maxWaitMs: 10 })
+      .collect();
+    expect(result).toEqual([[1, 2], [3], [4]]);
+  });
+
+  test("should measure batch waits on the given scheduler", async () => {
+    const scheduler = virtualScheduler();
+    async function* source() {
+      yield 1;
+      await new Promise((resolve) =>
+        scheduler.schedule(() => resolve(undefined), 50)
+      );
+      yield 2;
+    }
+    const result = iterup(source())
+      .batch({ maxWaitMs: 10, scheduler })
+      .map((batch) => [batch, scheduler.now()])
+      .collect();
+    await scheduler.advance(100);
+    expect(await result).toEqual([
+      [[1], 10],
+      [[2], 50],
+    ]);
+  });
+
+  test("should close the source when a batch consumer stops", async () => {
+    let closed = false;
+    const source = async function* () {
+      try {
+        for (let value = 0; ; value++) yield value;
+      } finally {
+        closed = true;
+      }
+    };
+    const result = await iterup(source())
+      .batch({ maxSize: 2 })
+      .take(1)
+      .collect();
+    expect(result).toEqual([[0, 1]]);
+    expect(closed).toBe(true);
+  });
+});
+
 describe("collect", () => {
   test("should materialize all values", async () => {
     const result = await iterup([1, 2, 3, 4, 5])
@@ -183,6 +450,149 @@ describe("collect", () => {
   });
 });
 
+describe("collectors", () => {
+  test("should use the array collector by default", async () => {
+    const result = await iterup([1, 2]).collect(collectors.toArray());
+    expect(result).toEqual([1, 2]);
+    expect(await iterup([1, 2]).toArray()).toEqual([1, 2]);
+  });
+
+  test("should support custom collectors", async () => {
+    const total: Collector<number, { sum: number }, string> = {
+      init: () => ({ sum: 0 }),
+      accumulate: async (acc, value) => ({ sum: acc.sum + value }),
+      finish: (acc) => `total: ${acc.sum}`,
+    };
+    expect(await iterup([1, 2, 3]).collect(total)).toBe("total: 6");
+  });
+
+  test("should compose collectors with tee and mapping", async () => {
+    const [all, lengths] = await iterup(["a", "bb", "cc"]).collect(
+      collectors.tee(
+        collectors.toArray<string>(),
+        collectors.mapping(
+          async (value: string) => value.length,
+          collectors.toSet()
+        )
+      )
+    );
+    expect(all).toEqual(["a", "bb", "cc"]);
+    expect(lengths).toEqual(new Set([1, 2]));
+  });
+
+  test("should combine partial accumulators", () => {
+    const collector = collectors.tee(
+      collectors.toArray<number>(),
+      collectors.toSet<number>()
+    );
+    const left = collector.accumulate(collector.init(), 1) as unknown[];
+    const right = collector.accumulate(collector.init(), 1) as unknown[];
+    expect(collector.finish(collector.combine!(left, right))).toEqual([
+      [1, 1],
+      new Set([1]),
+    ]);
+  });
+
+  test("should reject async collectors in sync pipelines", () => {
+    const collector = collectors.mapping(
+      async (value: number) => value,
+      collectors.toArray()
+    );
+    expect(() => iterupSync([1]).collect(collector)).toThrowError(TypeError);
+    expect(iterupSync([1, 1]).collect(collectors.toSet())).toEqual(
+      new Set([1])
+    );
+  });
+});
+
+describe("keyed collection", () => {
+  test("should group values by an async key", async () => {
+    const result = await iterup([1, 2, 3, 4, 5]).groupBy(async (x) =>
+      x % 2 === 0 ? "even" : "odd"
+    );
+    expect([...result]).toEqual([
+      ["odd", [1, 3, 5]],
+      ["even", [2, 4]],
+    ]);
+  });
+
+  test("should partition values with a type guard", async () => {
+    const [numbers, strings] = await iterup([1, "a", 2, "b"]).partition(
+      (x): x is number => typeof x === "number"
+    );
+    expect(numbers).toEqual([1, 2]);
+    expect(strings).toEqual(["a", "b"]);
+    expect(iterupSync([1, 2, 3]).partition((x) => x > 1)).toEqual([
+      [2, 3],
+      [1],
+    ]);
+  });
+
+  test("should count values by key", async () => {
+    const result = await iterup(["a", "bb", "cc"]).countBy((x) => x.length);
+    expect(result).toEqual(
+      new Map([
+        [1, 1],
+        [2, 2],
+      ])
+    );
+  });
+
+  test("should resolve duplicate keys in toMap", async () => {
+    const orders = [
+      { customer: "ann", amount: 5 },
+      { customer: "bob", amount: 3 },
+      { customer: "ann", amount: 2 },
+    ];
+    const byCustomer = (order: (typeof orders)[number]) => order.customer;
+    const amount = (order: (typeof orders)[number]) => order.amount;
+
+    const last = await iterup(orders).toMap(byCustomer, amount);
+    expect(last.get("ann")).toBe(2);
+
+    const first = await iterup(orders).toMap(byCustomer, amount, {
+      duplicates: "first",
+    });
+    expect(first.get("ann")).toBe(5);
+
+    const merged = await iterup(orders).toMap(byCustomer, amount, {
+      merge: async (a, b) => a + b,
+    });
+    expect(merged.get("ann")).toBe(7);
+
+    const thrown = (async () =>
+      iterup(orders).toMap(byCustomer, undefined, { duplicates: "throw" }))();
+    await expect(thrown).rejects.toThrowError("duplicate key: ann");
+
+    expect(() =>
+      iterupSync(orders).toMap(byCustomer, amount, { duplicates: "merge" })
+    ).toThrowError(TypeError);
+  });
+
+  test("should collect into sets and objects", async () => {
+    expect(await iterup([1, 2, 2, 3]).toSet()).toEqual(new Set([1, 2, 3]));
+    const object = await iterup(["a", "b"])
+      .enumerate()
+      .map(([key, index]) => [key, index] as const)
+      .toObject();
+    expect(object).toEqual({ a: 0, b: 1 });
+    expect(iterupSync([["x", true] as const]).toObject()).toEqual({ x: true });
+  });
+
+  test("should keep __proto__ entries as own properties", async () => {
+    const entries = [["__proto__", { polluted: true }] as const];
+    const object = await iterup(entries).toObject();
+    expect(Object.getPrototypeOf(object)).toBe(Object.prototype);
+    expect(Object.keys(object)).toEqual(["__proto__"]);
+    expect(object["__proto__"]).toEqual({ polluted: true });
+    expect((object as { polluted?: boolean }).polluted).toBeUndefined();
+
+    const syncObject = iterupSync(entries).toObject();
+    expect(Object.getPrototypeOf(syncObject)).toBe(Object.prototype);
+    expect(Object.keys(syncObject)).toEqual(["__proto__"]);
+  });
+});
+
 describe("chaining operations", () => {
   test("should support complex operation chains", async () => {
     const result = await iterup([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
@@ -378,101 +788,2068 @@ describe("zip", () => {
       [2, 1],
     ]);
   });
-});
 
-describe("fold", () => {
-  test("should fold the iterator with the given value", async () => {
-    const actual = await iterup([1, 2, 3]).fold(
-      "Result: ",
-      (accumulator, value) => `${accumulator}, ${value}`
-    );
-    expect(actual).toEqual("Result: , 1, 2, 3");
+  test("should combine any number of iterators", async () => {
+    const combined = await iterup([1, 2, 3])
+      .zip(["a", "b"], [true, false, true])
+      .collect();
+    expect(combined).toEqual([
+      [1, "a", true],
+      [2, "b", false],
+    ]);
+    expect(iterupSync([1]).zip(["a"], [null]).collect()).toEqual([
+      [1, "a", null],
+    ]);
   });
 
-  test("should return initial value if iterator is empty", async () => {
-    const actual = await iterup([] as number[]).fold(
-      "Result: ",
-      (accumulator, value) => `${accumulator}, ${value}`
-    );
-    expect(actual).toEqual("Result: ");
+  test("should close the surviving iterator", async () => {
+    let closed = false;
+    const longer = async function* () {
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed = true;
+      }
+    };
+    await iterup([1]).zip(longer()).collect();
+    expect(closed).toBe(true);
   });
-});
 
-describe("reduce", () => {
-  test("should reduce the iterator with the given value", async () => {
-    const actual = await iterup([1, 2, 3]).reduce(
-      (accumulator, value) => accumulator - value
-    );
-    expect(actual).toEqual(1 - 2 - 3);
+  test("should pad shorter iterators in zipLongest", async () => {
+    const padded = await iterup([1, 2, 3]).zipLongest(["a"]).collect();
+    expect(padded).toEqual([
+      [1, "a"],
+      [2, None],
+      [3, None],
+    ]);
+    const filled = iterupSync(["a"]).zipLongest([1, 2], { fill: 0 }).collect();
+    expect(filled).toEqual([
+      ["a", 1],
+      [0, 2],
+    ]);
   });
 
-  test("should return None if iterator is empty", async () => {
-    const actual = await iterup([] as number[]).reduce(
-      (accumulator, value) => accumulator - value
-    );
-    expect(actual).toBeUndefined();
+  test("should combine values with zipWith", async () => {
+    const result = await iterup([1, 2, 3])
+      .zipWith(async (a, b, c) => a * b + c, [10, 20], [1, 1])
+      .collect();
+    expect(result).toEqual([11, 41]);
+  });
+
+  test("should unzip pairs into independent iterators", async () => {
+    const [numbers, letters] = iterup([
+      [1, "a"],
+      [2, "b"],
+    ] as const).unzip();
+    expect(await letters.collect()).toEqual(["a", "b"]);
+    expect(await numbers.collect()).toEqual([1, 2]);
+
+    const [left, right] = iterupSync([
+      [1, 2],
+      [3, 4],
+    ] as [number, number][]).unzip({ bufferSize: 1 });
+    expect(() => left.collect()).toThrowError(RangeError);
+    expect(right.collect()).toEqual([2, 4]);
+  });
+
+  test("should apply backpressure with a bounded unzip buffer", async () => {
+    const [left, right] = iterup(
+      [1, 2, 3, 4].map((value) => [value, -value] as [number, number])
+    ).unzip({ bufferSize: 1 });
+    const [lefts, rights] = await Promise.all([
+      left.collect(),
+      right.collect(),
+    ]);
+    expect(lefts).toEqual([1, 2, 3, 4]);
+    expect(rights).toEqual([-1, -2, -3, -4]);
   });
 });
 
-describe("forEach", () => {
-  test("should iterate each element", async () => {
-    const elements: number[] = [];
-    await iterup([1, 2, 3]).forEach((value) => {
-      elements.push(value);
-    });
-    expect(elements).toEqual([1, 2, 3]);
+describe("multicasting", () => {
+  function counted(values: number[]) {
+    const state = { reads: 0, closed: false };
+    async function* source() {
+      try {
+        for (const value of values) {
+          state.reads++;
+          yield value;
+        }
+      } finally {
+        state.closed = true;
+      }
+    }
+    return { state, source: source() };
+  }
+
+  test("should tee a source into independent iterators", async () => {
+    const { state, source } = counted([1, 2, 3]);
+    const [forSum, forMax] = iterup(source).tee();
+    const [sum, max] = await Promise.all([forSum.sum(), forMax.max()]);
+    expect(sum).toBe(6);
+    expect(max).toBe(3);
+    expect(state.reads).toBe(3);
+
+    const copies = iterup([1, 2]).tee(3);
+    expect(copies).toHaveLength(3);
+    expect(await copies[2].collect()).toEqual([1, 2]);
+    expect(await copies[0].collect()).toEqual([1, 2]);
+  });
+
+  test("should close the source once all tee iterators are closed", async () => {
+    const { state, source } = counted([1, 2, 3, 4]);
+    const [left, right] = iterup(source).tee();
+    expect(await left.take(1).collect()).toEqual([1]);
+    expect(state.closed).toBe(false);
+    expect(await right.take(2).collect()).toEqual([1, 2]);
+    expect(state.closed).toBe(true);
+  });
+
+  test("should release branches closed before they start", async () => {
+    const teed = counted([1, 2, 3, 4]);
+    const [left, right] = iterup(teed.source).tee();
+    await right.return?.();
+    expect(await right.next()).toEqual({ done: true, value: undefined });
+    expect(await left.take(2).collect()).toEqual([1, 2]);
+    expect(teed.state.closed).toBe(true);
+
+    const shared = counted([1, 2, 3]);
+    const subscriptions = iterup(shared.source).share();
+    const active = subscriptions.subscribe();
+    await subscriptions.subscribe().return?.();
+    expect(await active.take(1).collect()).toEqual([1]);
+    expect(shared.state.closed).toBe(true);
+  });
+
+  test("should share values read after subscribing", async () => {
+    const { state, source } = counted([1, 2, 3]);
+    const shared = iterup(source).share();
+    const early = shared.subscribe();
+    expect(await early.next()).toEqual({ done: false, value: 1 });
+    const late = shared.subscribe();
+    const [rest, lateValues] = await Promise.all([
+      early.collect(),
+      late.collect(),
+    ]);
+    expect(rest).toEqual([2, 3]);
+    expect(lateValues).toEqual([2, 3]);
+    expect(state.reads).toBe(3);
+  });
+
+  test("should replay recent values to late subscribers", async () => {
+    const history = iterup([1, 2, 3, 4]).replay({ bufferSize: 2 });
+    expect(await history.subscribe().collect()).toEqual([1, 2, 3, 4]);
+    expect(await history.subscribe().collect()).toEqual([3, 4]);
+
+    const everything = iterup([1, 2]).replay();
+    expect(await everything.subscribe().take(1).collect()).toEqual([1]);
+    expect(await everything.subscribe().collect()).toEqual([1]);
+  });
+
+  test("should propagate source errors to every consumer", async () => {
+    async function* failing() {
+      yield 1;
+      throw new Error("boom");
+    }
+    const [left, right] = iterup(failing()).tee();
+    await expect(left.collect()).rejects.toThrow("boom");
+    await expect(right.collect()).rejects.toThrow("boom");
   });
 });
 
-describe("numeric instance", () => {
-  describe("sum", () => {
-    test("should sum a numeric iterator", async () => {
-      const actual = await iterup({ from: 1 })
-        .take(3)
-        .map(() => 10)
-        .sum();
-      expect(actual).toEqual(30);
-    });
+describe("sequence joining", () => {
+  test("should chain iterators in order", async () => {
+    async function* source() {
+      yield 4;
+    }
+    const chained = await iterup([1, 2]).chain([3], source()).collect();
+    expect(chained).toEqual([1, 2, 3, 4]);
+    expect(await iterup([1]).concat([2]).collect()).toEqual([1, 2]);
+  });
 
-    test("should throw error for non numeric iterator", async () => {
-      const actual = (
-        iterup({ from: 1 })
-          .take(3)
-          .map(() => "Ten") as any
-      ).sum();
-      expect(actual).rejects.toThrowError(TypeError);
-    });
+  test("should interleave values and skip exhausted iterators", async () => {
+    expect(await iterup([1]).interleave([10, 20, 30]).collect()).toEqual([
+      1, 10, 20, 30,
+    ]);
+    const interleaved = await iterup([1, 2, 3])
+      .interleave(["a", "b"])
+      .collect();
+    expect(interleaved).toEqual([1, "a", 2, "b", 3]);
   });
 
-  describe("min", () => {
-    test("should return the minimum value from an iterator", async () => {
-      const actual = await iterup([5, 4, 2, 0, -10, 890]).min();
-      expect(actual).toEqual(-10);
-    });
+  test("should close the other iterators when stopping early", async () => {
+    let closed = false;
+    function* source() {
+      try {
+        yield* ["a", "b", "c"];
+      } finally {
+        closed = true;
+      }
+    }
+    const values = await iterup([1, 2]).interleave(source()).take(3).collect();
+    expect(values).toEqual([1, "a", 2]);
+    expect(closed).toBe(true);
+  });
 
-    test("should throw error for non numeric iterator", async () => {
-      const actual = (
-        iterup({ from: 1 })
-          .take(3)
-          .map(() => "Ten") as any
-      ).min();
-      expect(actual).rejects.toThrowError(TypeError);
-    });
+  test("should round robin until all iterators are exhausted", async () => {
+    const values = await iterup([1, 2, 3])
+      .roundRobin(["a"], [true, false])
+      .collect();
+    expect(values).toEqual([1, "a", true, 2, false, 3]);
   });
 
-  describe("max", () => {
-    test("should return the maximum value from an iterator", async () => {
-      const actual = await iterup([5, 4, 2, 890, 0, -10]).max();
-      expect(actual).toEqual(890);
-    });
+  test("should intersperse separators between values", async () => {
+    expect(await iterup([1, 2, 3]).intersperse(0).collect()).toEqual([
+      1, 0, 2, 0, 3,
+    ]);
+    expect(await iterup([1]).intersperse(0).collect()).toEqual([1]);
 
-    test("should throw error for non numeric iterator", async () => {
-      const actual = (
-        iterup({ from: 1 })
-          .take(3)
-          .map(() => "Ten") as any
-      ).max();
-      expect(actual).rejects.toThrowError(TypeError);
-    });
+    let count = 0;
+    const values = await iterup(["a", "b", "c"])
+      .intersperseWith(async () => ++count)
+      .collect();
+    expect(values).toEqual(["a", 1, "b", 2, "c"]);
+  });
+
+  test("should join sequences on the sync pipeline", () => {
+    expect(iterupSync([1, 2]).chain([3]).collect()).toEqual([1, 2, 3]);
+    expect(iterupSync([1, 2, 3]).interleave(["a"]).collect()).toEqual([
+      1,
+      "a",
+      2,
+      3,
+    ]);
+    expect(iterupSync([1, 2]).roundRobin(["a", "b", "c"]).collect()).toEqual([
+      1,
+      "a",
+      2,
+      "b",
+      "c",
+    ]);
+    expect(iterupSync(["a", "b"]).intersperse("-").collect()).toEqual([
+      "a",
+      "-",
+      "b",
+    ]);
+  });
+});
+
+describe("merge", () => {
+  async function* delayed<Value>(values: [Value, number][]) {
+    for (const [value, ms] of values) {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      yield value;
+    }
+  }
+
+  test("should yield values in arrival order", async () => {
+    const values = await iterup(
+      delayed([
+        ["a", 10],
+        ["b", 30],
+      ])
+    )
+      .merge(delayed([[1, 20]]))
+      .collect();
+    expect(values).toEqual(["a", 1, "b"]);
+  });
+
+  test("should tag values with their source index", async () => {
+    const values = await iterup(
+      merge(delayed([["a", 20]]), delayed([[1, 10]]), { tagged: true })
+    ).collect();
+    expect(values).toEqual([
+      [1, 1],
+      ["a", 0],
+    ]);
+  });
+
+  test("should merge sources with iterup.merge", async () => {
+    const merged = iterup.merge(delayed([["a", 20]]), delayed([[1, 10]]));
+    expect(await merged.map((value) => String(value)).collect()).toEqual([
+      "1",
+      "a",
+    ]);
+
+    const tagged = await iterup
+      .merge(delayed([["a", 20]]), [1], { tagged: true })
+      .collect();
+    expect(tagged).toEqual([
+      [1, 1],
+      ["a", 0],
+    ]);
+  });
+
+  test("should close all sources when the consumer stops early", async () => {
+    const closed: string[] = [];
+    async function* source(name: string, ms: number) {
+      try {
+        for (;;) {
+          await new Promise((resolve) => setTimeout(resolve, ms));
+          yield name;
+        }
+      } finally {
+        closed.push(name);
+      }
+    }
+    const values = await iterup(source("fast", 5))
+      .merge(source("slow", 50))
+      .take(2)
+      .collect();
+    expect(values).toEqual(["fast", "fast"]);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(closed.sort()).toEqual(["fast", "slow"]);
+  });
+
+  test("should propagate errors from any source", async () => {
+    async function* failing() {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      throw new Error("boom");
+    }
+    await expect(
+      iterup(delayed([[1, 50]]))
+        .merge(failing())
+        .collect()
+    ).rejects.toThrow("boom");
+  });
+
+  test("should mirror the first source to produce a value", async () => {
+    let closed = false;
+    async function* slow() {
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        yield "slow";
+      } finally {
+        closed = true;
+      }
+    }
+    const values = await iterup(slow())
+      .race(
+        delayed([]),
+        delayed([
+          ["fast", 5],
+          ["again", 5],
+        ])
+      )
+      .collect();
+    expect(values).toEqual(["fast", "again"]);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(closed).toBe(true);
+  });
+});
+
+describe("withSignal", () => {
+  test("should stop an infinite pipeline when aborted", async () => {
+    const controller = new AbortController();
+    let closed = false;
+    async function* ticks() {
+      try {
+        for (let tick = 0; ; tick++) {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          yield tick;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    const seen: number[] = [];
+    await expect(
+      iterup(ticks(), { signal: controller.signal }).forEach((tick) => {
+        seen.push(tick);
+        if (tick === 2) controller.abort(new Error("stopped"));
+      })
+    ).rejects.toThrow("stopped");
+    expect(seen).toEqual([0, 1, 2]);
+    expect(closed).toBe(true);
+  });
+
+  test("should abort infinite ranges", async () => {
+    const controller = new AbortController();
+    const values = iterup({ from: 0 })
+      .withSignal(controller.signal)
+      .map((value) => {
+        if (value === 3) controller.abort();
+        return value;
+      });
+    await expect(values.collect()).rejects.toThrow("aborted");
+  });
+
+  test("should reject pending terminals with the abort reason", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const result = iterup([1, 2, 3], { signal: controller.signal }).forEach(
+      () => new Promise(() => {})
+    );
+    setTimeout(() => controller.abort(reason), 5);
+    await expect(result).rejects.toBe(reason);
+  });
+
+  test("should pass the signal into callbacks", async () => {
+    const controller = new AbortController();
+    const signals: (AbortSignal | undefined)[] = [];
+    await iterup([1, 2])
+      .withSignal(controller.signal)
+      .map((value, signal) => {
+        signals.push(signal);
+        return value;
+      })
+      .filter((_, signal) => signal === controller.signal)
+      .collect();
+    expect(signals).toEqual([controller.signal, controller.signal]);
+  });
+
+  test("should only pass the signal to declared callbacks", async () => {
+    const { signal } = new AbortController();
+    const separator = () => "sep";
+    expect(
+      await iterup([1, 2], { signal })
+        .zipWith((...values: unknown[]) => values.length, [10, 20])
+        .collect()
+    ).toEqual([2, 2]);
+    expect(
+      await iterup(["a", "b"], { signal }).intersperse(separator).collect()
+    ).toEqual(["a", separator, "b"]);
+    expect(
+      await iterup([1, 2], { signal }).fold(
+        [] as unknown[],
+        (acc, value, received) => [...acc, received === signal]
+      )
+    ).toEqual([true, true]);
+  });
+
+  test("should abort an infinite sync pipeline from a timer", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("stopped")), 20);
+    let count = 0;
+    await expect(
+      iterup({ from: 0 }, { signal: controller.signal }).forEach(() => {
+        count++;
+      })
+    ).rejects.toThrow("stopped");
+    expect(count).toBeGreaterThan(0);
+  });
+
+  test("should reject right away when already aborted", async () => {
+    const signal = AbortSignal.abort(new Error("early"));
+    await expect(iterup([1], { signal }).collect()).rejects.toThrow("early");
+  });
+
+  test("should keep the signal on split branches", async () => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const [first, second] = iterup([1, 2], { signal }).tee();
+    const [numbers, letters] = iterup([[1, "a"]] as const, { signal }).unzip();
+    const shared = iterup([1, 2], { signal }).share();
+    const replayed = iterup([1, 2], { signal }).replay();
+    expect(await first.collect()).toEqual([1, 2]);
+    expect(await numbers.collect()).toEqual([1]);
+    expect(await replayed.subscribe().collect()).toEqual([1, 2]);
+
+    controller.abort(new Error("stopped"));
+    await expect(second.collect()).rejects.toThrow("stopped");
+    await expect(letters.collect()).rejects.toThrow("stopped");
+    await expect(shared.subscribe().collect()).rejects.toThrow("stopped");
+    await expect(replayed.subscribe().collect()).rejects.toThrow("stopped");
+  });
+
+  test("should pass the signal to callbacks on split branches", async () => {
+    const controller = new AbortController();
+    const [branch] = iterup([1], { signal: controller.signal }).tee(1);
+    const signals = await branch
+      .map((_value, signal?: AbortSignal) => signal)
+      .collect();
+    expect(signals).toEqual([controller.signal]);
+  });
+});
+
+describe("timeouts", () => {
+  async function* delayed<Value>(values: [Value, number][]) {
+    for (const [value, ms] of values) {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      yield value;
+    }
+  }
+
+  test("should throw a TimeoutError when a value is late", async () => {
+    async function* stalled() {
+      yield 1;
+      await new Promise(() => {});
+    }
+    const values: number[] = [];
+    const error = await iterup(stalled())
+      .timeout(10)
+      .forEach((value) => {
+        values.push(value);
+      })
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.ms).toBe(10);
+    expect(values).toEqual([1]);
+  });
+
+  test("should yield the fallback while waiting for a late value", async () => {
+    const values = await iterup(
+      delayed([
+        [1, 0],
+        [2, 35],
+      ])
+    )
+      .timeout(20, { fallback: None })
+      .collect();
+    expect(values).toEqual([1, None, 2]);
+  });
+
+  test("should only limit the first value with timeoutFirst", async () => {
+    const values = await iterup(
+      delayed([
+        ["a", 5],
+        ["b", 30],
+      ])
+    )
+      .timeoutFirst(20)
+      .collect();
+    expect(values).toEqual(["a", "b"]);
+
+    await expect(
+      iterup(delayed([["a", 30]]))
+        .timeoutFirst(10)
+        .collect()
+    ).rejects.toBeInstanceOf(TimeoutError);
+
+    const fallback = await iterup(delayed([["a", 30]]))
+      .timeoutFirst(10, { fallback: "-" })
+      .collect();
+    expect(fallback).toEqual(["-", "a"]);
+  });
+
+  test("should end the stream at the deadline", async () => {
+    let closed = false;
+    async function* ticks() {
+      try {
+        for (let tick = 0; ; tick++) {
+          await new Promise((resolve) => setTimeout(resolve, 15));
+          yield tick;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    const values = await iterup(ticks()).deadline(40).collect();
+    expect(values).toEqual([0, 1]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toBe(true);
+
+    await expect(
+      iterup(ticks()).deadline(20, { onTimeout: "throw" }).collect()
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test("should measure timeouts on the given scheduler", async () => {
+    const scheduler = virtualScheduler();
+    async function* late() {
+      yield 1;
+      await new Promise((resolve) =>
+        scheduler.schedule(() => resolve(undefined), 150)
+      );
+      yield 2;
+    }
+    const values = iterup(late())
+      .timeout(100, { fallback: None, scheduler })
+      .collect();
+    const first = iterup(late()).timeoutFirst(100, { scheduler }).collect();
+    const limited = iterup(late()).deadline(100, { scheduler }).collect();
+    await scheduler.advance(200);
+    expect(await values).toEqual([1, None, 2]);
+    expect(await first).toEqual([1, 2]);
+    expect(await limited).toEqual([1]);
+  });
+
+  test("should reject negative durations", async () => {
+    await expect(iterup([1]).timeout(-1).collect()).rejects.toThrowError(
+      RangeError
+    );
+  });
+});
+
+describe("pacing", () => {
+  async function* timed<Value>(
+    scheduler: VirtualScheduler,
+    values: [Value, number][]
+  ) {
+    for (const [value, at] of values) {
+      await new Promise((resolve) =>
+        scheduler.schedule(() => resolve(undefined), at - scheduler.now())
+      );
+      yield value;
+    }
+  }
+
+  test("should throttle with a token bucket", async () => {
+    const scheduler = virtualScheduler();
+    const times: number[] = [];
+    const done = iterup([1, 2, 3, 4, 5])
+      .throttle({ perSecond: 2, burst: 2, scheduler })
+      .forEach(() => {
+        times.push(scheduler.now());
+      });
+    await scheduler.advance(2000);
+    await done;
+    expect(times).toEqual([0, 0, 500, 1000, 1500]);
+  });
+
+  test("should debounce values followed by a quiet period", async () => {
+    const scheduler = virtualScheduler();
+    const result = iterup(
+      timed(scheduler, [
+        ["a", 0],
+        ["b", 50],
+        ["c", 300],
+        ["d", 350],
+      ])
+    )
+      .debounce(100, { scheduler })
+      .map((value) => [value, scheduler.now()])
+      .collect();
+    await scheduler.advance(1000);
+    expect(await result).toEqual([
+      ["b", 150],
+      ["d", 350],
+    ]);
+  });
+
+  test("should delay each value", async () => {
+    const scheduler = virtualScheduler();
+    const result = iterup([1, 2])
+      .delay(1000, { scheduler })
+      .map((value) => [value, scheduler.now()])
+      .collect();
+    await scheduler.advance(2000);
+    expect(await result).toEqual([
+      [1, 1000],
+      [2, 2000],
+    ]);
+  });
+
+  test("should sample the latest value per period", async () => {
+    const scheduler = virtualScheduler();
+    const result = iterup(
+      timed(scheduler, [
+        [1, 10],
+        [2, 20],
+        [3, 150],
+        [4, 160],
+        [5, 390],
+      ])
+    )
+      .sample(100, { scheduler })
+      .collect();
+    await scheduler.advance(1000);
+    expect(await result).toEqual([2, 4]);
+  });
+
+  test("should validate pacing options", async () => {
+    await expect(
+      iterup([1]).throttle({ perSecond: 0 }).collect()
+    ).rejects.toThrowError(RangeError);
+    await expect(iterup([1]).sample(0).collect()).rejects.toThrowError(
+      RangeError
+    );
+  });
+});
+
+describe("error handling", () => {
+  // Unlike generators, this iterator keeps producing values after an error
+  function flaky(values: (number | Error)[]) {
+    let index = 0;
+    return {
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      async next() {
+        const value = values[index++];
+        if (value === undefined) return { done: true, value: undefined };
+        if (value instanceof Error) throw value;
+        return { done: false, value };
+      },
+    } as unknown as AsyncGenerator<number>;
+  }
+
+  async function* failing() {
+    yield 1;
+    throw new Error("boom");
+  }
+
+  test("should continue with a fallback iterator", async () => {
+    const errors: unknown[] = [];
+    const values = await iterup(failing())
+      .catchError((error) => {
+        errors.push(error);
+        return ["fallback"];
+      })
+      .collect();
+    expect(values).toEqual([1, "fallback"]);
+    expect(errors).toEqual([new Error("boom")]);
+
+    await expect(
+      iterup(failing())
+        .catchError(() => {
+          throw new Error("rethrown");
+        })
+        .collect()
+    ).rejects.toThrow("rethrown");
+  });
+
+  test("should resume with the next source on error", async () => {
+    const values = await iterup(failing())
+      .onErrorResume(failing(), [3])
+      .collect();
+    expect(values).toEqual([1, 1, 3]);
+  });
+
+  test("should transform errors", async () => {
+    await expect(
+      iterup(failing())
+        .mapErr((error) => new Error("wrapped", { cause: error }))
+        .collect()
+    ).rejects.toThrow("wrapped");
+  });
+
+  test("should retry failed calls per value", async () => {
+    const calls = new Map<number, number>();
+    const values = await iterup([1, 2])
+      .retry((value) => {
+        const count = (calls.get(value) ?? 0) + 1;
+        calls.set(value, count);
+        if (value === 2 && count < 3) throw new Error("flaky");
+        return value * 10;
+      })
+      .collect();
+    expect(values).toEqual([10, 20]);
+    expect(calls.get(2)).toBe(3);
+
+    await expect(
+      iterup([1])
+        .retry(
+          async () => {
+            throw new Error("down");
+          },
+          { attempts: 2 }
+        )
+        .collect()
+    ).rejects.toThrow("down");
+  });
+
+  test("should wait for the backoff between attempts", async () => {
+    const scheduler = virtualScheduler();
+    const times: number[] = [];
+    const result = iterup([1])
+      .retry(
+        () => {
+          times.push(scheduler.now());
+          if (times.length < 3) throw new Error("flaky");
+          return "ok";
+        },
+        { backoff: (attempt) => attempt * 100, scheduler }
+      )
+      .collect();
+    await scheduler.advance(1000);
+    expect(await result).toEqual(["ok"]);
+    expect(times).toEqual([0, 100, 300]);
+  });
+
+  function parse(row: string) {
+    const value = Number(row);
+    if (Number.isNaN(value)) throw new Error(`invalid row: ${row}`);
+    return value;
+  }
+
+  test("should skip errors and report them", async () => {
+    const errors: unknown[] = [];
+    const values = await iterup(flaky([1, new Error("bad"), 2]))
+      .skipErrors(undefined, {
+        onError: (error) => {
+          errors.push(error);
+        },
+      })
+      .collect();
+    expect(values).toEqual([1, 2]);
+    expect(errors).toEqual([new Error("bad")]);
+
+    expect(await iterup(failing()).skipErrors().collect()).toEqual([1]);
+  });
+
+  test("should skip failed values and keep the later ones", async () => {
+    const errors: unknown[] = [];
+    const values = await iterup(["1", "bad", "3"])
+      .skipErrors(parse, {
+        onError: (error) => {
+          errors.push(error);
+        },
+      })
+      .map((x) => x * 10)
+      .collect();
+    expect(values).toEqual([10, 30]);
+    expect(errors).toEqual([new Error("invalid row: bad")]);
+  });
+
+  test("should give up on a source that keeps throwing", async () => {
+    let calls = 0;
+    const broken = {
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      async next(): Promise<IteratorResult<number>> {
+        calls++;
+        throw new Error("down");
+      },
+    } as unknown as AsyncGenerator<number>;
+    await expect(iterup(broken).skipErrors().collect()).rejects.toThrow("down");
+    expect(calls).toBe(100);
+  });
+
+  test("should materialize values and errors", async () => {
+    const error = new Error("bad");
+    const results = await iterup(flaky([1, error, 2]))
+      .materialize()
+      .collect();
+    expect(results).toEqual([
+      { ok: true, value: 1 },
+      { ok: false, error },
+      { ok: true, value: 2 },
+    ]);
+  });
+
+  test("should materialize failed values and keep the later ones", async () => {
+    const results = await iterup(["1", "bad", "3"])
+      .materialize(parse)
+      .collect();
+    expect(results).toEqual([
+      { ok: true, value: 1 },
+      { ok: false, error: new Error("invalid row: bad") },
+      { ok: true, value: 3 },
+    ]);
+  });
+});
+
+describe("result", () => {
+  function parse(row: string) {
+    const value = Number(row);
+    if (Number.isNaN(value)) throw new Error(`invalid row: ${row}`);
+    return value;
+  }
+
+  test("should capture throws as Err with tryMap", async () => {
+    const results = await iterup(["1", "x", "3"]).tryMap(parse).collect();
+    expect(results).toEqual([Ok(1), Err(new Error("invalid row: x")), Ok(3)]);
+    expect(results.filter(isOk).map((result) => result.value)).toEqual([1, 3]);
+    expect(results.filter(isErr)).toHaveLength(1);
+  });
+
+  test("should filter and partition results", async () => {
+    const rows = () => iterup(["1", "x", "3", "y"]).tryMap(parse);
+    expect(await rows().filterOk().collect()).toEqual([1, 3]);
+    expect(
+      (await rows().filterErr().collect()).map((error) =>
+        error instanceof Error ? error.message : error
+      )
+    ).toEqual(["invalid row: x", "invalid row: y"]);
+
+    const [values, errors] = await rows().partitionResults();
+    expect(values).toEqual([1, 3]);
+    expect(errors).toHaveLength(2);
+  });
+
+  test("should short-circuit collectResult on the first Err", async () => {
+    expect(
+      await iterup([Ok(1), Ok(2)] as Result<number, string>[]).collectResult()
+    ).toEqual(Ok([1, 2]));
+
+    let read = 0;
+    const result = await iterup(["1", "x", "3"])
+      .map((row) => {
+        read++;
+        return row;
+      })
+      .tryMap(parse)
+      .collectResult();
+    expect(result.ok).toBe(false);
+    expect(read).toBe(2);
+  });
+
+  test("should reject values that are not results", async () => {
+    await expect(
+      (iterup([1]) as any).filterOk().collect()
+    ).rejects.toThrowError(TypeError);
+  });
+
+  test("should handle results on the sync pipeline", () => {
+    const results = iterupSync(["1", "x"]).tryMap(parse);
+    expect(results.partitionResults()[0]).toEqual([1]);
+    expect(iterupSync([Ok(1), Err("bad")]).collectResult()).toEqual(Err("bad"));
+    expect(
+      iterupSync([Ok(1), Err("bad")])
+        .filterOk()
+        .collect()
+    ).toEqual([1]);
+  });
+});
+
+describe("option", () => {
+  test("should narrow and transform options", () => {
+    const options: Option<number>[] = [Some(1), None, 3];
+    expect(options.filter(isSome)).toEqual([1, 3]);
+    expect(options.filter(isNone)).toEqual([None]);
+    expect(unwrapOr(None as Option<number>, 0)).toBe(0);
+    expect(unwrapOr(Some(2), 0)).toBe(2);
+    expect(mapOption(Some(2), (x) => x * 2)).toBe(4);
+    expect(mapOption(None as Option<number>, (x) => x * 2)).toBe(None);
+    expect(orElse(None, () => "fallback")).toBe("fallback");
+    expect(orElse(Some("value"), () => "fallback")).toBe("value");
+  });
+
+  test("should flatten options", async () => {
+    const values = await iterup([1, None, 2, None] as Option<number>[])
+      .flattenOptions()
+      .map((value) => value * 10)
+      .collect();
+    expect(values).toEqual([10, 20]);
+    expect(iterupSync([None, "a"]).flattenOptions().collect()).toEqual(["a"]);
+  });
+
+  test("should return the first, last and nth value as an option", async () => {
+    expect(await iterup([undefined, 1]).first()).toBeUndefined();
+    expect(await iterup([]).first()).toBe(None);
+    expect(await iterup([1, 2, 3]).last()).toBe(3);
+    expect(await iterup([]).last()).toBe(None);
+    expect(await iterup(["a", "b", "c"]).nth(1)).toBe("b");
+    expect(await iterup(["a"]).nth(3)).toBe(None);
+    await expect(iterup([1]).nth(-1)).rejects.toThrowError(RangeError);
+
+    expect(iterupSync([1, 2, 3]).first()).toBe(1);
+    expect(iterupSync([1, 2, 3]).last()).toBe(3);
+    expect(iterupSync([1, 2, 3]).nth(2)).toBe(3);
+  });
+
+  test("should stop reading after the first and nth value", async () => {
+    let closed = false;
+    function* source() {
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed = true;
+      }
+    }
+    expect(await iterup(source()).nth(1)).toBe(2);
+    expect(closed).toBe(true);
+  });
+});
+
+describe("buffering", () => {
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+  function gated(first: number[], rest: number[]) {
+    let open = () => {};
+    const gate = new Promise<void>((resolve) => (open = resolve));
+    async function* source() {
+      yield* first;
+      await gate;
+      yield* rest;
+    }
+    return { open, source: source() };
+  }
+
+  test("should read ahead while the consumer is busy", async () => {
+    let reads = 0;
+    let closed = false;
+    async function* source() {
+      try {
+        for (let value = 1; value <= 10; value++) {
+          reads++;
+          yield value;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    const values = iterup(source()).prefetch(2);
+    expect(await values.next()).toEqual({ done: false, value: 1 });
+    await tick();
+    expect(reads).toBe(3);
+    expect(await values.take(2).collect()).toEqual([2, 3]);
+    expect(closed).toBe(true);
+  });
+
+  test("should keep every value with the block strategy", async () => {
+    const { open, source } = gated([1], [2, 3, 4, 5, 6]);
+    const values = iterup(source).buffer(2);
+    expect(await values.next()).toEqual({ done: false, value: 1 });
+    open();
+    await tick();
+    expect(await values.collect()).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  test("should drop values when the buffer overflows", async () => {
+    const scheduler = virtualScheduler();
+    const oldest = gated([1], [2, 3, 4, 5, 6]);
+    const dropOldest = iterup(oldest.source).buffer(2, {
+      overflow: "drop-oldest",
+      scheduler,
+    });
+    expect(await dropOldest.next()).toEqual({ done: false, value: 1 });
+    oldest.open();
+    await scheduler.advance(0);
+    expect(await dropOldest.collect()).toEqual([5, 6]);
+
+    const newest = gated([1], [2, 3, 4, 5, 6]);
+    const dropNewest = iterup(newest.source).buffer(2, {
+      overflow: "drop-newest",
+      scheduler,
+    });
+    expect(await dropNewest.next()).toEqual({ done: false, value: 1 });
+    newest.open();
+    await scheduler.advance(0);
+    expect(await dropNewest.collect()).toEqual([2, 3]);
+  });
+
+  test("should throw a BufferOverflowError with the error strategy", async () => {
+    const scheduler = virtualScheduler();
+    const { open, source } = gated([1], [2, 3, 4]);
+    const values = iterup(source).buffer(2, { overflow: "error", scheduler });
+    expect(await values.next()).toEqual({ done: false, value: 1 });
+    open();
+    await scheduler.advance(0);
+    const error = await values.collect().catch((error) => error);
+    expect(error).toBeInstanceOf(BufferOverflowError);
+    expect(error.size).toBe(2);
+  });
+
+  test("should let timers run while dropping values", async () => {
+    const values = await iterup({ from: 0 })
+      .buffer(2, { overflow: "drop-oldest" })
+      .map(async (value) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return value;
+      })
+      .take(3)
+      .collect();
+    expect(values).toHaveLength(3);
+  });
+
+  test("should yield buffered values before a source error", async () => {
+    async function* failing() {
+      yield 1;
+      yield 2;
+      throw new Error("boom");
+    }
+    const seen: number[] = [];
+    const error = await iterup(failing())
+      .buffer(5)
+      .forEach((value) => {
+        seen.push(value);
+      })
+      .catch((error) => error);
+    expect(seen).toEqual([1, 2]);
+    expect(error.message).toBe("boom");
+  });
+
+  test("should reject sizes that are not positive integers", async () => {
+    await expect(iterup([1]).buffer(0).collect()).rejects.toThrow(RangeError);
+    await expect(iterup([1]).prefetch(1.5).collect()).rejects.toThrow(
+      RangeError
+    );
+  });
+});
+
+describe("push sources", () => {
+  test("should iterate values sent to a channel", async () => {
+    const messages = channel<number>();
+    const result = iterup(messages)
+      .map((x) => x * 2)
+      .collect();
+    expect(await messages.send(1)).toBe(true);
+    expect(await messages.send(2)).toBe(true);
+    messages.close();
+    expect(await messages.send(3)).toBe(false);
+    expect(await result).toEqual([2, 4]);
+  });
+
+  test("should fail after the queued values when a channel errors", async () => {
+    const messages = channel<number>();
+    messages.send(1);
+    messages.error(new Error("disconnected"));
+    const seen: number[] = [];
+    const error = await iterup(messages)
+      .forEach((value) => {
+        seen.push(value);
+      })
+      .catch((error) => error);
+    expect(seen).toEqual([1]);
+    expect(error.message).toBe("disconnected");
+  });
+
+  test("should apply backpressure and overflow strategies to a channel", async () => {
+    const blocking = channel<number>({ bufferSize: 1 });
+    expect(await blocking.send(1)).toBe(true);
+    let delivered = false;
+    const pending = blocking.send(2).then((sent) => (delivered = sent));
+    await Promise.resolve();
+    expect(delivered).toBe(false);
+    expect(await blocking.next()).toEqual({ done: false, value: 1 });
+    await pending;
+    expect(delivered).toBe(true);
+
+    const dropping = channel<number>({
+      bufferSize: 2,
+      overflow: "drop-oldest",
+    });
+    for (const value of [1, 2, 3]) dropping.send(value);
+    dropping.close();
+    expect(await iterup(dropping).collect()).toEqual([2, 3]);
+
+    const failing = channel<number>({ bufferSize: 1, overflow: "error" });
+    failing.send(1);
+    expect(await failing.send(2)).toBe(false);
+    const error = await iterup(failing)
+      .collect()
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(BufferOverflowError);
+  });
+
+  test("should drop sends once the consumer stops", async () => {
+    const messages = channel<number>();
+    const result = iterup(messages).take(1).collect();
+    messages.send(1);
+    expect(await result).toEqual([1]);
+    expect(await messages.send(2)).toBe(false);
+  });
+
+  test("should iterate events and detach from an event target", async () => {
+    const target = new EventTarget();
+    const removed: string[] = [];
+    const removeEventListener = target.removeEventListener.bind(target);
+    target.removeEventListener = (type, listener, options) => {
+      removed.push(type);
+      removeEventListener(type, listener, options);
+    };
+    const result = iterup
+      .fromEventTarget<CustomEvent<number>>(target, "tick")
+      .map((event) => event.detail)
+      .take(2)
+      .collect();
+    for (const detail of [1, 2, 3]) {
+      target.dispatchEvent(new CustomEvent("tick", { detail }));
+    }
+    expect(await result).toEqual([1, 2]);
+    expect(removed).toEqual(["tick"]);
+  });
+
+  test("should iterate emitter values until the end event", async () => {
+    const emitter = new EventEmitter();
+    const result = iterup.fromEmitter<string>(emitter, "line", {
+      end: "close",
+    });
+    const lines = result.collect();
+    emitter.emit("line", "a");
+    emitter.emit("line", "b");
+    emitter.emit("close");
+    expect(await lines).toEqual(["a", "b"]);
+    expect(emitter.listenerCount("line")).toBe(0);
+    expect(emitter.listenerCount("close")).toBe(0);
+    expect(emitter.listenerCount("error")).toBe(0);
+  });
+
+  test("should throw the error event of an emitter", async () => {
+    const emitter = new EventEmitter();
+    const values = iterup.fromEmitter(emitter, "data").collect();
+    emitter.emit("data", 1);
+    emitter.emit("error", new Error("broken pipe"));
+    const error = await values.catch((error) => error);
+    expect(error.message).toBe("broken pipe");
+    expect(emitter.listenerCount("data")).toBe(0);
+  });
+});
+
+describe("web streams", () => {
+  function streamOf(values: number[]) {
+    const state = { cancelled: false };
+    const stream = new ReadableStream<number>({
+      start(controller) {
+        for (const value of values) controller.enqueue(value);
+        controller.close();
+      },
+      cancel() {
+        state.cancelled = true;
+      },
+    });
+    return { state, stream };
+  }
+
+  test("should read a ReadableStream", async () => {
+    const { stream } = streamOf([1, 2, 3]);
+    const result = await iterup
+      .fromReadableStream(stream)
+      .map((x) => x * 2)
+      .collect();
+    expect(result).toEqual([2, 4, 6]);
+    expect(stream.locked).toBe(false);
+  });
+
+  test("should cancel the stream and release the lock on early exit", async () => {
+    const cancelled = streamOf([1, 2, 3]);
+    expect(
+      await iterup.fromReadableStream(cancelled.stream).take(1).collect()
+    ).toEqual([1]);
+    expect(cancelled.state.cancelled).toBe(true);
+    expect(cancelled.stream.locked).toBe(false);
+
+    const kept = streamOf([1, 2, 3]);
+    expect(
+      await iterup
+        .fromReadableStream(kept.stream, { preventCancel: true })
+        .take(1)
+        .collect()
+    ).toEqual([1]);
+    expect(kept.state.cancelled).toBe(false);
+    expect(await iterup.fromReadableStream(kept.stream).collect()).toEqual([
+      2, 3,
+    ]);
+  });
+
+  test("should pull values into a ReadableStream on demand", async () => {
+    let reads = 0;
+    async function* source() {
+      for (let value = 1; value <= 10; value++) {
+        reads++;
+        yield value;
+      }
+    }
+    const stream = iterup(source()).toReadableStream();
+    const reader = stream.getReader();
+    expect(await reader.read()).toEqual({ done: false, value: 1 });
+    expect(reads).toBeLessThanOrEqual(2);
+    reader.releaseLock();
+    expect(await iterup.fromReadableStream(stream).take(2).collect()).toEqual([
+      2, 3,
+    ]);
+    expect(reads).toBeLessThan(10);
+  });
+
+  test("should close the iterator when the stream is cancelled", async () => {
+    let closed = false;
+    async function* source() {
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed = true;
+      }
+    }
+    const stream = iterup(source()).toReadableStream();
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    expect(closed).toBe(true);
+  });
+
+  test("should pipe values to a WritableStream", async () => {
+    const written: number[] = [];
+    let closed = false;
+    const writable = new WritableStream<number>(
+      {
+        write(value) {
+          written.push(value);
+        },
+        close() {
+          closed = true;
+        },
+      },
+      { highWaterMark: 1 }
+    );
+    await iterup([1, 2, 3]).pipeTo(writable);
+    expect(written).toEqual([1, 2, 3]);
+    expect(closed).toBe(true);
+    expect(writable.locked).toBe(false);
+  });
+
+  test("should abort the stream when the iterator fails", async () => {
+    async function* failing() {
+      yield 1;
+      throw new Error("boom");
+    }
+    let aborted: unknown;
+    const writable = new WritableStream<number>({
+      abort(reason) {
+        aborted = reason;
+      },
+    });
+    const error = await iterup(failing())
+      .pipeTo(writable)
+      .catch((error) => error);
+    expect(error.message).toBe("boom");
+    expect(aborted).toBe(error);
+  });
+
+  test("should close the iterator when the stream fails", async () => {
+    let closed = false;
+    async function* source() {
+      try {
+        yield* [1, 2, 3];
+      } finally {
+        closed = true;
+      }
+    }
+    const writable = new WritableStream<number>({
+      write() {
+        throw new Error("disk full");
+      },
+    });
+    const error = await iterup(source())
+      .pipeTo(writable)
+      .catch((error) => error);
+    expect(error.message).toBe("disk full");
+    expect(closed).toBe(true);
+  });
+});
+
+describe("node streams", () => {
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+  function collecting<Value>(written: Value[], delay = false) {
+    return new Writable({
+      objectMode: true,
+      highWaterMark: 1,
+      write(value, _, callback) {
+        written.push(value);
+        if (delay) setTimeout(callback, 0);
+        else callback();
+      },
+    });
+  }
+
+  function counted(values: number[]) {
+    const state = { reads: 0, closed: false };
+    async function* source() {
+      try {
+        for (const value of values) {
+          state.reads++;
+          yield value;
+        }
+      } finally {
+        state.closed = true;
+      }
+    }
+    return { state, source: source() };
+  }
+
+  test("should read a Readable and destroy it on early exit", async () => {
+    expect(
+      await fromNodeReadable<number>(Readable.from([1, 2, 3]))
+        .map((x) => x * 2)
+        .collect()
+    ).toEqual([2, 4, 6]);
+
+    const readable = Readable.from([1, 2, 3]);
+    expect(await fromNodeReadable(readable).take(1).collect()).toEqual([1]);
+    expect(readable.destroyed).toBe(true);
+  });
+
+  test("should read ahead no more than the highWaterMark", async () => {
+    const { state, source } = counted([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    const readable = toNodeReadable(iterup(source), { highWaterMark: 2 });
+    readable.pause();
+    readable.read(0);
+    await tick();
+    expect(state.reads).toBeLessThanOrEqual(3);
+    expect(await fromNodeReadable(readable).collect()).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+  });
+
+  test("should close the iterator when the Readable is destroyed", async () => {
+    const { state, source } = counted([1, 2, 3]);
+    const readable = toNodeReadable(iterup(source));
+    readable.read(0);
+    await tick();
+    readable.destroy();
+    await tick();
+    expect(state.closed).toBe(true);
+  });
+
+  test("should write to a Writable and wait for drain", async () => {
+    const written: number[] = [];
+    const writable = collecting(written, true);
+    let drains = 0;
+    writable.on("drain", () => drains++);
+    await pipeToNode(iterup([1, 2, 3, 4]), writable);
+    expect(written).toEqual([1, 2, 3, 4]);
+    expect(drains).toBeGreaterThan(0);
+    expect(writable.writableFinished).toBe(true);
+  });
+
+  test("should close the iterator when the Writable fails", async () => {
+    const { state, source } = counted([1, 2, 3, 4]);
+    const writable = new Writable({
+      objectMode: true,
+      highWaterMark: 1,
+      write(_, __, callback) {
+        setTimeout(() => callback(new Error("disk full")), 0);
+      },
+    });
+    const error = await pipeToNode(iterup(source), writable).catch(
+      (error) => error
+    );
+    expect(error.message).toBe("disk full");
+    expect(state.closed).toBe(true);
+  });
+
+  test("should work as source and transform of stream.pipeline", async () => {
+    const written: string[] = [];
+    await pipeline(
+      iterup(["a", "b"]),
+      (source: AsyncIterable<string>) =>
+        fromNodeReadable(source).map((value) => value.toUpperCase()),
+      collecting(written)
+    );
+    expect(written).toEqual(["A", "B"]);
+  });
+
+  test("should propagate pipeline errors to the iterator chain", async () => {
+    const { state, source } = counted([1, 2, 3, 4]);
+    const failing = new Writable({
+      objectMode: true,
+      write(_, __, callback) {
+        callback(new Error("rejected"));
+      },
+    });
+    const error = await pipeline(
+      iterup(source).map((x) => x * 2),
+      failing
+    ).catch((error) => error);
+    expect(error.message).toBe("rejected");
+    expect(state.closed).toBe(true);
+  });
+});
+
+describe("fold", () => {
+  test("should fold the iterator with the given value", async () => {
+    const actual = await iterup([1, 2, 3]).fold(
+      "Result: ",
+      (accumulator, value) => `${accumulator}, ${value}`
+    );
+    expect(actual).toEqual("Result: , 1, 2, 3");
+  });
+
+  test("should return initial value if iterator is empty", async () => {
+    const actual = await iterup([] as number[]).fold(
+      "Result: ",
+      (accumulator, value) => `${accumulator}, ${value}`
+    );
+    expect(actual).toEqual("Result: ");
+  });
+});
+
+describe("reduce", () => {
+  test("should reduce the iterator with the given value", async () => {
+    const actual = await iterup([1, 2, 3]).reduce(
+      (accumulator, value) => accumulator - value
+    );
+    expect(actual).toEqual(1 - 2 - 3);
+  });
+
+  test("should return None if iterator is empty", async () => {
+    const actual = await iterup([] as number[]).reduce(
+      (accumulator, value) => accumulator - value
+    );
+    expect(actual).toBeUndefined();
+  });
+});
+
+describe("comparator aggregates", () => {
+  const offers = [
+    { id: "a", price: 20 },
+    { id: "b", price: 10 },
+    { id: "c", price: 30 },
+    { id: "d", price: 10 },
+    { id: "e", price: 30 },
+  ];
+  const byPrice = (a: { price: number }, b: { price: number }) =>
+    a.price - b.price;
+
+  test("minBy and maxBy should return the winning element", async () => {
+    expect((await iterup(offers).minBy(byPrice))?.id).toBe("b");
+    expect((await iterup(offers).maxBy(byPrice))?.id).toBe("c");
+  });
+
+  test("should break ties according to the ties option", async () => {
+    expect((await iterup(offers).minBy(byPrice, { ties: "last" }))?.id).toBe(
+      "d"
+    );
+    expect((await iterup(offers).maxBy(byPrice, { ties: "last" }))?.id).toBe(
+      "e"
+    );
+  });
+
+  test("should support async comparators", async () => {
+    const result = await iterup(offers).minBy(
+      async (a, b) => b.price - a.price
+    );
+    expect(result?.id).toBe("c");
+  });
+
+  test("minByKey and maxByKey should compute each key once", async () => {
+    let keyCalls = 0;
+    const result = await iterup(offers).minByKey(async (offer) => {
+      keyCalls++;
+      return offer.price;
+    });
+    expect(result?.id).toBe("b");
+    expect(keyCalls).toBe(offers.length);
+
+    const newest = await iterup([
+      { id: 1, at: new Date(2020, 1, 1) },
+      { id: 2, at: new Date(2024, 1, 1) },
+      { id: 3, at: new Date(2022, 1, 1) },
+    ]).maxByKey((record) => record.at);
+    expect(newest?.id).toBe(2);
+  });
+
+  test("minMax should return both ends in a single pass", async () => {
+    const result = await iterup(["pear", "fig", "banana"]).minMax(
+      (a, b) => a.length - b.length
+    );
+    expect(result).toEqual({ min: "fig", max: "banana" });
+  });
+
+  test("should return undefined for empty iterators", async () => {
+    expect(await iterup([] as number[]).minBy((a, b) => a - b)).toBeUndefined();
+    expect(await iterup([] as number[]).maxByKey((a) => a)).toBeUndefined();
+    expect(
+      await iterup([] as number[]).minMax((a, b) => a - b)
+    ).toBeUndefined();
+  });
+
+  test("should run synchronously on iterupSync", () => {
+    expect(iterupSync(offers).maxByKey((offer) => offer.price)?.id).toBe("c");
+    expect(iterupSync(offers).minMax(byPrice)).toEqual({
+      min: offers[1]!,
+      max: offers[2]!,
+    });
+  });
+});
+
+describe("forEach", () => {
+  test("should iterate each element", async () => {
+    const elements: number[] = [];
+    await iterup([1, 2, 3]).forEach((value) => {
+      elements.push(value);
+    });
+    expect(elements).toEqual([1, 2, 3]);
+  });
+});
+
+describe("numeric instance", () => {
+  describe("sum", () => {
+    test("should sum a numeric iterator", async () => {
+      const actual = await iterup({ from: 1 })
+        .take(3)
+        .map(() => 10)
+        .sum();
+      expect(actual).toEqual(30);
+    });
+
+    test("should throw error for non numeric iterator", async () => {
+      const actual = (
+        iterup({ from: 1 })
+          .take(3)
+          .map(() => "Ten") as any
+      ).sum();
+      expect(actual).rejects.toThrowError(TypeError);
+    });
+  });
+
+  describe("min", () => {
+    test("should return the minimum value from an iterator", async () => {
+      const actual = await iterup([5, 4, 2, 0, -10, 890]).min();
+      expect(actual).toEqual(-10);
+    });
+
+    test("should throw error for non numeric iterator", async () => {
+      const actual = (
+        iterup({ from: 1 })
+          .take(3)
+          .map(() => "Ten") as any
+      ).min();
+      expect(actual).rejects.toThrowError(TypeError);
+    });
+  });
+
+  describe("empty and special values", () => {
+    test("should return undefined for empty iterators", async () => {
+      expect(await iterup([] as number[]).min()).toBeUndefined();
+      expect(await iterup([] as number[]).max()).toBeUndefined();
+      expect(await iterup([] as number[]).sum()).toBe(0);
+    });
+
+    test("should support the full IEEE 754 range", async () => {
+      expect(await iterup([1e300, -1e300, 5]).max()).toBe(1e300);
+      expect(await iterup([-Infinity, -1e300]).max()).toBe(-1e300);
+      expect(await iterup([-Infinity, 2]).min()).toBe(-Infinity);
+      expect(await iterup([Infinity, 1]).sum()).toBe(Infinity);
+    });
+
+    test("should propagate NaN unless skipped", async () => {
+      expect(await iterup([1, NaN, 3]).min()).toBeNaN();
+      expect(await iterup([1, NaN, 3]).max()).toBeNaN();
+      expect(await iterup([1, NaN, 3]).max({ skipNaN: true })).toBe(3);
+      expect(await iterup([NaN, 1]).min({ skipNaN: true })).toBe(1);
+      expect(await iterup([1, NaN]).sum()).toBeNaN();
+    });
+
+    test("should compensate floating point drift when requested", async () => {
+      const values = [1, 1e100, 1, -1e100];
+      expect(await iterup(values).sum()).toBe(0);
+      expect(await iterup(values).sum({ compensated: true })).toBe(2);
+
+      const tenths = Array.from({ length: 10 }, () => 0.1);
+      expect(await iterup(tenths).sum({ compensated: true })).toBe(1);
+      expect(iterupSync(tenths).sum({ compensated: true })).toBe(1);
+    });
+  });
+
+  describe("bigint", () => {
+    test("should aggregate bigint iterators", async () => {
+      const values = [5n, 2n ** 70n, -3n];
+      expect(await iterup(values).sum(0n)).toBe(2n ** 70n + 2n);
+      expect(await iterup<bigint>([]).sum(0n)).toBe(0n);
+      expect(iterupSync<bigint>([]).sum(0n)).toBe(0n);
+      expect(iterupSync(values).sum(10n)).toBe(2n ** 70n + 12n);
+      expect(await (iterup<bigint>([]) as any).sum()).toBe(0);
+      expect((iterupSync<bigint>([]) as any).sum()).toBe(0);
+      expect(await iterup(values).min()).toBe(-3n);
+      expect(await iterup(values).max()).toBe(2n ** 70n);
+      expect(iterupSync(values).max()).toBe(2n ** 70n);
+    });
+
+    test("should throw when mixing numbers and bigints", async () => {
+      const actual = (iterup([1, 2n]) as any).sum();
+      await expect(actual).rejects.toThrowError(TypeError);
+      await expect((iterup([1]) as any).sum(0n)).rejects.toThrowError(
+        TypeError
+      );
+    });
+  });
+
+  describe("max", () => {
+    test("should return the maximum value from an iterator", async () => {
+      const actual = await iterup([5, 4, 2, 890, 0, -10]).max();
+      expect(actual).toEqual(890);
+    });
+
+    test("should throw error for non numeric iterator", async () => {
+      const actual = (
+        iterup({ from: 1 })
+          .take(3)
+          .map(() => "Ten") as any
+      ).max();
+      expect(actual).rejects.toThrowError(TypeError);
+    });
+  });
+
+  describe("statistics", () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9];
+
+    test("should compute average, variance and stddev", async () => {
+      expect(await iterup(values).average()).toBe(5);
+      expect(await iterup(values).variance()).toBe(4);
+      expect(await iterup(values).stddev()).toBe(2);
+      expect(await iterup(values).variance({ sample: true })).toBeCloseTo(
+        32 / 7
+      );
+      expect(iterupSync(values).stddev()).toBe(2);
+    });
+
+    test("should return undefined when there are too few values", async () => {
+      expect(await iterup<number>([]).average()).toBeUndefined();
+      expect(await iterup<number>([]).variance()).toBeUndefined();
+      expect(await iterup([1]).variance({ sample: true })).toBeUndefined();
+      expect(await iterup<number>([]).median()).toBeUndefined();
+    });
+
+    test("should compute exact median and percentiles", async () => {
+      expect(await iterup([5, 1, 4, 2]).median()).toBe(3);
+      expect(await iterup([3, 1, 2]).median()).toBe(2);
+      expect(await iterup([1, 2, 3, 4, 5]).percentile(25)).toBe(2);
+      expect(await iterup([10, 20]).percentile(90)).toBe(19);
+      expect(await iterup([1, NaN, 3]).median()).toBeNaN();
+      expect(iterupSync([1, 2, 3, 4, 5]).percentile(100)).toBe(5);
+    });
+
+    test("should reject percentiles outside of [0, 100]", async () => {
+      await expect(iterup([1, 2]).percentile(101)).rejects.toThrowError(
+        RangeError
+      );
+      expect(() => iterupSync([1]).approxPercentile(-1)).toThrowError(
+        RangeError
+      );
+    });
+
+    test("should estimate percentiles of large streams", async () => {
+      const stream = iterup({ from: 0, to: 10_000 }).map(
+        (value) => (value * 7919) % 10_000
+      );
+      const estimate = await stream.approxPercentile(50);
+      expect(Math.abs(estimate! - 5_000)).toBeLessThan(100);
+      expect(iterupSync([3, 1, 2]).approxPercentile(50)).toBe(2);
+    });
+
+    test("should count values into histogram buckets", async () => {
+      const buckets = await iterup([5, 15, 25, 100, NaN]).histogram([10, 50]);
+      expect(buckets).toEqual([
+        { from: -Infinity, to: 10, count: 1 },
+        { from: 10, to: 50, count: 2 },
+        { from: 50, to: Infinity, count: 1 },
+      ]);
+      expect(() => iterupSync([1]).histogram([2, 1])).toThrowError(RangeError);
+    });
+  });
+});
+
+describe("string instance", () => {
+  test("should join values with a separator", async () => {
+    expect(await iterup(["a", "b", "c"]).join(", ")).toBe("a, b, c");
+    expect(await iterup(["a", "b"]).join()).toBe("a,b");
+    expect(await iterup<string>([]).join("-")).toBe("");
+    expect(await iterup(["Hel", "lo"]).concatStrings()).toBe("Hello");
+    expect(iterupSync(["x", "y"]).join("+")).toBe("x+y");
+  });
+
+  test("should split chunks into lines across boundaries", async () => {
+    const actual = await iterup(["first\nsec", "ond\r", "\nthird\n"])
+      .lines()
+      .collect();
+    expect(actual).toEqual(["first", "second", "third"]);
+    expect(iterupSync(["a\n\nb"]).lines().collect()).toEqual(["a", "", "b"]);
+  });
+
+  test("should split chunks into words across boundaries", async () => {
+    const actual = await iterup(["  hello wo", "rld", "  again "])
+      .words()
+      .collect();
+    expect(actual).toEqual(["hello", "world", "again"]);
+  });
+
+  test("should split chunks on a delimiter across boundaries", async () => {
+    const actual = await iterup(["a::b:", ":c::"]).split("::").collect();
+    expect(actual).toEqual(["a", "b", "c", ""]);
+    const spread = await iterup(["a-", "-", "-b--", "-c"])
+      .split("---")
+      .collect();
+    expect(spread).toEqual(["a", "b", "c"]);
+    expect(iterupSync(["x;y"]).split(";").join("|")).toBe("x|y");
+    expect(() => iterupSync(["x"]).split("")).toThrowError(RangeError);
+  });
+
+  test("should throw for non string values", async () => {
+    const actual = (async () => (iterup([1, 2]) as any).lines().collect())();
+    await expect(actual).rejects.toThrowError(TypeError);
+  });
+});
+
+describe("iterupSync", () => {
+  test("should collect without returning a Promise", () => {
+    const result = iterupSync([1, 2, 3, 4, 5])
+      .filterMap((value) => (value % 2 === 1 ? value : None))
+      .map((value) => value * 2)
+      .collect();
+    expect(result).toEqual([2, 6, 10]);
+  });
+
+  test("should support complex operation chains", () => {
+    const result = iterupSync({ from: 1 })
+      .flatMap((value) => [value, value])
+      .enumerate()
+      .map(([value, index]) => value * index)
+      .drop(1)
+      .take(4)
+      .collect();
+    expect(result).toEqual([1, 4, 6, 12]);
+  });
+
+  test("should maintain lazy evaluation", () => {
+    let mapCallCount = 0;
+    const result = iterupSync([1, 2, 3, 4, 5])
+      .map((value) => {
+        mapCallCount++;
+        return value;
+      })
+      .cycle()
+      .take(2)
+      .collect();
+    expect(result).toEqual([1, 2]);
+    expect(mapCallCount).toBe(2);
+  });
+
+  test("should run terminal operations synchronously", () => {
+    const collection = [5, 2, 8, 1, 9];
+    expect(iterupSync(collection).sum()).toBe(25);
+    expect(iterupSync(collection).min()).toBe(1);
+    expect(iterupSync(collection).max()).toBe(9);
+    expect(iterupSync(collection).fold(0, (acc, value) => acc + value)).toBe(
+      25
+    );
+    expect(iterupSync(collection).reduce((acc, value) => acc - value)).toBe(
+      5 - 2 - 8 - 1 - 9
+    );
+    expect(iterupSync(collection).find((value) => value > 5)).toBe(8);
+    expect(iterupSync(collection).findLast((value) => value > 5)).toBe(9);
+    expect(iterupSync(collection).findIndex((value) => value > 5)).toBe(2);
+    expect(
+      iterupSync(collection)
+        .filter((value) => value > 5)
+        .collect()
+    ).toEqual([8, 9]);
+    expect(
+      iterupSync(collection).findMap((value) => (value < 2 ? "One" : None))
+    ).toBe("One");
+    expect(iterupSync(collection).zip(["a", "b"]).collect()).toEqual([
+      [5, "a"],
+      [2, "b"],
+    ]);
+  });
+
+  test("should promote to the async pipeline for async callbacks", async () => {
+    const promoted = iterupSync([1, 2, 3]).map(async (value) => value * 2);
+    expect(isIterup(promoted)).toBeTrue();
+    expect(Symbol.asyncIterator in promoted).toBeTrue();
+    expect(await promoted.collect()).toEqual([2, 4, 6]);
+  });
+
+  test("should promote to the async pipeline for async sources", async () => {
+    const asyncGen = async function* () {
+      yield 1;
+      yield 2;
+    };
+    const result = await iterupSync([0]).zip(asyncGen()).collect();
+    expect(result).toEqual([[0, 1]]);
+  });
+
+  test("should switch to the async pipeline with toAsync", async () => {
+    const result = await iterupSync([1, 2, 3])
+      .map((value) => value + 1)
+      .toAsync()
+      .map(async (value) => value * 2)
+      .collect();
+    expect(result).toEqual([4, 6, 8]);
+  });
+
+  test("should promote when a callback returns a Promise", async () => {
+    let reads = 0;
+    const result = await iterupSync([1, 2, 3])
+      .map((value) => {
+        reads++;
+        return value;
+      })
+      .map((value) => Promise.resolve(value * 2))
+      .filter((value) => value > 2)
+      .collect();
+    expect(result).toEqual([4, 6]);
+    expect(reads).toBe(3);
+
+    expect(
+      await iterupSync([1, 2, 3]).fold(0, (acc, value) =>
+        Promise.resolve(acc + value)
+      )
+    ).toBe(6);
+    expect(
+      await iterupSync([1, 2, 3]).reduce((acc, value) =>
+        Promise.resolve(acc + value)
+      )
+    ).toBe(6);
+    expect(
+      await iterupSync(["1", "x"])
+        .tryMap((value) => Promise.resolve(JSON.parse(value) as number))
+        .map((result) => result.ok)
+        .collect()
+    ).toEqual([true, false]);
+  });
+
+  test("should promote when iterating a chain with a Promise callback", async () => {
+    const values = iterupSync([1, 2, 3]).map((value) =>
+      Promise.resolve(value * 2)
+    );
+    expect(await values.next()).toEqual({ done: false, value: 2 });
+    expect(await values.collect()).toEqual([4, 6]);
+
+    const seen: number[] = [];
+    for await (const value of iterupSync([1, 2]).map((value) =>
+      Promise.resolve(value)
+    )) {
+      seen.push(value);
+    }
+    expect(seen).toEqual([1, 2]);
+
+    expect(
+      await iterupSync([1, 2, 3])
+        .map((value) => Promise.resolve(value))
+        .buffer(2)
+        .collect()
+    ).toEqual([1, 2, 3]);
+  });
+
+  test("should throw when a callback returns a Promise after sync values", () => {
+    const collection = iterupSync([1, 2, 3]).map((value) =>
+      value === 2 ? Promise.resolve(value) : value
+    );
+    expect(() => collection.collect()).toThrowError(TypeError);
+  });
+
+  test("should not need the global Iterator", async () => {
+    const { Iterator } = globalThis;
+    Reflect.deleteProperty(globalThis, "Iterator");
+    try {
+      expect(iterupSync([1, 2]).zip(["a", "b"]).collect()).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+      expect(await iterup([1, 2]).zip(["a", "b"]).collect()).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+      expect(await iterup({ from: 1, to: 0 }).collect()).toEqual([]);
+    } finally {
+      globalThis.Iterator = Iterator;
+    }
+  });
+
+  test("should replay iterator arguments when promoting", async () => {
+    function* gen() {
+      yield 10;
+      yield 20;
+      yield 30;
+    }
+    expect(
+      await iterupSync([1, 2, 3])
+        .zipWith((a, b) => Promise.resolve(a + b), gen())
+        .collect()
+    ).toEqual([11, 22, 33]);
+  });
+
+  test("should throw when a callback returns a Promise after passing values on", () => {
+    const seen: number[] = [];
+    const collection = iterupSync([1, 2, 3])
+      .intersperseWith(() => Promise.resolve(0))
+      .map((value) => {
+        seen.push(value);
+        return value;
+      });
+    expect(() => collection.collect()).toThrowError(
+      "intersperseWith callback returned a Promise after values were passed on"
+    );
+    expect(seen).toEqual([1]);
+  });
+});
+
+describe("concurrency", () => {
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  test("should keep at most concurrency callbacks in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    await iterup({ from: 1, to: 10 })
+      .map(
+        async (value) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await delay(2);
+          inFlight--;
+          return value;
+        },
+        { concurrency: 3 }
+      )
+      .collect();
+    expect(maxInFlight).toBe(3);
+  });
+
+  test("should preserve source order in ordered mode", async () => {
+    const result = await iterup([30, 10, 20])
+      .map(
+        async (value) => {
+          await delay(value);
+          return value;
+        },
+        { concurrency: 3, ordered: true }
+      )
+      .collect();
+    expect(result).toEqual([30, 10, 20]);
+  });
+
+  test("should yield as results settle in unordered mode", async () => {
+    const result = await iterup([30, 10, 20])
+      .map(
+        async (value) => {
+          await delay(value);
+          return value;
+        },
+        { concurrency: 3, ordered: false }
+      )
+      .collect();
+    expect(result).toEqual([10, 20, 30]);
+  });
+
+  test("should filter None values with filterMap", async () => {
+    const result = await iterup([1, 2, 3, 4])
+      .filterMap(
+        async (value) => {
+          await delay(1);
+          return value % 2 === 0 ? value : None;
+        },
+        { concurrency: 2 }
+      )
+      .collect();
+    expect(result).toEqual([2, 4]);
+  });
+
+  test("should run forEach callbacks concurrently", async () => {
+    const start = Date.now();
+    const elements: number[] = [];
+    await iterup([1, 2, 3, 4]).forEach(
+      async (value) => {
+        await delay(20);
+        elements.push(value);
+      },
+      { concurrency: 4 }
+    );
+    expect(elements.sort()).toEqual([1, 2, 3, 4]);
+    expect(Date.now() - start).toBeLessThan(70);
+  });
+
+  test("should reject with the callback error", async () => {
+    const actual = (async () =>
+      iterup([1, 2, 3])
+        .map(
+          async (value) => {
+            if (value === 2) throw new Error("boom");
+            return value;
+          },
+          { concurrency: 2 }
+        )
+        .collect())();
+    await expect(actual).rejects.toThrowError("boom");
+  });
+
+  test("should close the source when stopped early", async () => {
+    let closed = false;
+    const source = function* () {
+      try {
+        yield* [1, 2, 3, 4, 5];
+      } finally {
+        closed = true;
+      }
+    };
+    const result = await iterup(source())
+      .map(async (value) => value * 2, { concurrency: 2 })
+      .take(2)
+      .collect();
+    expect(result).toEqual([2, 4]);
+    expect(closed).toBeTrue();
   });
 });
@@ -15,25 +15,153 @@
  * ```
  */
 
-export { iterup, None } from "./core";
+export { iterup, None, type IterupOptions, type Option } from "./core";
+export { iterupSync, type IterupSync } from "./sync/core";
+export * as sync from "./sync/methods";
+export * as collectors from "./collectors";
+export { BufferOverflowError, TimeoutError } from "./errors";
+export { Some, isSome, isNone, unwrapOr, mapOption, orElse } from "./option";
+export { Ok, Err, isOk, isErr, type Result } from "./result";
+export {
+  channel,
+  fromEventTarget,
+  fromEmitter,
+  fromReadableStream,
+  type Channel,
+  type ChannelOptions,
+  type Emitter,
+  type EmitterOptions,
+  type ReadableStreamOptions,
+} from "./sources";
+export {
+  systemScheduler,
+  virtualScheduler,
+  type Scheduler,
+  type SchedulerOptions,
+  type VirtualScheduler,
+} from "./scheduler";
+export type { Collector, CollectorResult } from "./collectors";
 export {
   enumerate,
   filterMap,
   findMap,
   collect,
+  groupBy,
+  partition,
+  countBy,
+  toMap,
+  toSet,
+  toObject,
   map,
   flatMap,
   take,
   drop,
+  takeWhile,
+  dropWhile,
+  mapWhile,
+  skipUntil,
+  takeUntil,
+  chunks,
+  windows,
+  chunkBy,
+  batch,
   range,
   sum,
   min,
   max,
+  minBy,
+  maxBy,
+  minByKey,
+  maxByKey,
+  minMax,
+  average,
+  variance,
+  stddev,
+  median,
+  percentile,
+  approxPercentile,
+  histogram,
+  join,
+  concatStrings,
+  lines,
+  words,
+  split,
   cycle,
   zip,
+  zipLongest,
+  zipWith,
+  unzip,
+  tee,
+  share,
+  replay,
+  chain,
+  interleave,
+  roundRobin,
+  intersperse,
+  intersperseWith,
+  merge,
+  race,
+  withSignal,
+  timeout,
+  timeoutFirst,
+  deadline,
+  throttle,
+  debounce,
+  delay,
+  sample,
+  catchError,
+  onErrorResume,
+  mapErr,
+  retry,
+  skipErrors,
+  materialize,
+  filterOk,
+  filterErr,
+  partitionResults,
+  collectResult,
+  tryMap,
+  flattenOptions,
+  first,
+  last,
+  nth,
+  buffer,
+  prefetch,
   filter,
-  RangeArgument,
+  find,
+  findLast,
+  findIndex,
+  type RangeArgument,
+  type ConcurrencyOptions,
+  type ChunksOptions,
+  type BatchOptions,
+  type IteratorValues,
+  type ZipLongestOptions,
+  type UnzipOptions,
+  type ReplayOptions,
+  type Shared,
+  type Tuple,
+  type MergeOptions,
+  type TimeoutOptions,
+  type DeadlineOptions,
+  type ThrottleOptions,
+  type RetryOptions,
+  type Materialized,
+  type SkipErrorsOptions,
+  type OverflowStrategy,
+  type BufferOptions,
+  type Comparator,
+  type ComparableKey,
+  type ExtremumOptions,
+  type SumOptions,
+  type MinMaxOptions,
+  type VarianceOptions,
+  type HistogramBucket,
+  type DuplicateKeyPolicy,
+  type ToMapOptions,
   fold,
   forEach,
+  toReadableStream,
+  pipeTo,
+  type PipeToOptions,
   reduce,
 } from "./methods";
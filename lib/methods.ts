@@ -1,5 +1,26 @@
-import { BaseAsyncIterator, BaseIterator, None, type Option } from "./core";
-import { isAsyncIterator, isIterable, isIterator, unwrapResult } from "./utils";
+import { toArray, type Collector } from "./collectors";
+import {
+  BaseAsyncIterator,
+  BaseIterator,
+  iterup,
+  None,
+  type Iterup,
+  type Option,
+} from "./core";
+import { BufferOverflowError, TimeoutError } from "./errors";
+import { isSome } from "./option";
+import { Err, Ok, type Result } from "./result";
+import {
+  systemScheduler,
+  type Scheduler,
+  type SchedulerOptions,
+} from "./scheduler";
+import {
+  isAsyncIterator,
+  isIterable,
+  iteratorFrom,
+  unwrapResult,
+} from "./utils";
 
 /**
  * Yields pairs [value, index] for each element. Index starts at 0.
@@ -60,6 +81,75 @@ export async function findMap<FilterValue, Value>(
   }
 }
 
+/**
+ * Options controlling how many callbacks may run at the same time in
+ * `map`, `filterMap` and `forEach`.
+ */
+export type ConcurrencyOptions = {
+  /** Maximum number of callbacks in flight at once (default: 1) */
+  concurrency?: number;
+  /** Whether results keep the source order (default: true) */
+  ordered?: boolean;
+};
+
+/**
+ * Runs f over the iterator with up to `concurrency` callbacks in flight.
+ * In ordered mode results are yielded in source order, buffering results that
+ * settle early. In unordered mode results are yielded as soon as they settle.
+ *
+ * @internal
+ */
+async function* concurrentMap<Value, MapValue>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => MapValue | Promise<MapValue>,
+  { concurrency = 1, ordered = true }: ConcurrencyOptions
+): BaseAsyncIterator<MapValue> {
+  if (!(concurrency >= 1)) {
+    throw new RangeError("concurrency must be a positive number");
+  }
+
+  if (isIterable(iterator)) {
+    iterator = iteratorFrom(iterator);
+  }
+  const source = iterator as BaseAsyncIterator<Value>;
+
+  const tasks: Promise<MapValue>[] = [];
+  let done = false;
+  try {
+    for (;;) {
+      while (!done && tasks.length < concurrency) {
+        const result = await source.next();
+        if (result.done) {
+          done = true;
+          break;
+        }
+
+        const task = new Promise<MapValue>((resolve) =>
+          resolve(f(result.value))
+        );
+        // Rejections are rethrown once the task is awaited below
+        task.catch(() => {});
+        tasks.push(task);
+      }
+
+      if (tasks.length === 0) break;
+
+      const index = ordered
+        ? 0
+        : await Promise.race(
+            tasks.map((task, index) => task.then(() => index))
+          );
+      const [task] = tasks.splice(index, 1);
+      yield await task!;
+    }
+  } finally {
+    if (!done) {
+      await source.return?.();
+    }
+  }
+  return;
+}
+
 /**
  * Transforms and filters values in a single operation. Values that transform
  * to None are filtered out, while others are transformed and kept.
@@ -68,6 +158,7 @@ export async function findMap<FilterValue, Value>(
  * @template Value - The type of values in the input iterator
  * @param iterator - The iterator to filter and transform
  * @param f - Function that transforms values; return None to filter out (async supported)
+ * @param options - Concurrency options for async callbacks (default: one at a time, ordered)
  * @returns Async iterator of transformed, non-None values
  *
  * @example
@@ -80,8 +171,17 @@ export async function findMap<FilterValue, Value>(
  */
 export async function* filterMap<FilterValue, Value>(
   iterator: BaseIterator<Value>,
-  f: (value: Value) => Option<FilterValue> | Promise<FilterValue>
+  f: (value: Value) => Option<FilterValue> | Promise<FilterValue>,
+  options: ConcurrencyOptions = {}
 ): BaseAsyncIterator<FilterValue> {
+  if ((options.concurrency ?? 1) !== 1) {
+    for await (const newValue of concurrentMap(iterator, f, options)) {
+      if (newValue === None) continue;
+      yield newValue;
+    }
+    return;
+  }
+
   for await (const value of iterator) {
     let newValue = f(value);
     if (newValue instanceof Promise) {
@@ -102,6 +202,7 @@ export async function* filterMap<FilterValue, Value>(
  * @template MapValue - The type of values after transformation
  * @param iterator - The iterator to transform
  * @param f - Function to transform each value (async supported)
+ * @param options - Concurrency options for async callbacks (default: one at a time, ordered)
  * @returns Async iterator of transformed values
  *
  * @example
@@ -110,12 +211,23 @@ export async function* filterMap<FilterValue, Value>(
  *   .map(x => x * 2)
  *   .collect();
  * // result: [2, 4, 6]
+ *
+ * // Fetch up to 8 urls at a time, keeping the source order
+ * const responses = await iterup(urls)
+ *   .map(url => fetch(url), { concurrency: 8, ordered: true })
+ *   .collect();
  * ```
  */
 export async function* map<Value, MapValue>(
   iterator: BaseIterator<Value>,
-  f: (value: Value) => MapValue | Promise<MapValue>
+  f: (value: Value) => MapValue | Promise<MapValue>,
+  options: ConcurrencyOptions = {}
 ): BaseAsyncIterator<MapValue> {
+  if ((options.concurrency ?? 1) !== 1) {
+    yield* concurrentMap(iterator, f, options);
+    return;
+  }
+
   for await (const value of iterator) {
     let newValue = f(value);
     if (newValue instanceof Promise) {
@@ -215,7 +327,7 @@ export async function* take<Value>(
   count: number
 ): BaseAsyncIterator<Value> {
   if (count <= 0) {
-    return Iterator.from([]);
+    return;
   }
 
   for await (const value of iterator) {
@@ -225,340 +337,4224 @@ export async function* take<Value>(
 }
 
 /**
- * Finds the first value that satisfies the predicate function.
+ * Yields values while the predicate returns true and stops at the first value
+ * for which it returns false. The upstream iterator is closed when stopping.
  * Supports async predicates.
  *
  * @template Value - The type of values in the iterator
- * @param iterator - The iterator to search through
+ * @param iterator - The iterator to take values from
  * @param f - Predicate function to test each value (async supported)
- * @returns Promise resolving to the first matching value or undefined
+ * @returns Async iterator of the leading values satisfying the predicate
  *
  * @example
  * ```ts
- * const result = await filter(
- *   iterup([1, 2, 3, 4, 5]),
- *   x => x > 3
- * );
- * // result: 4
+ * const result = await iterup([1, 2, 3, 4, 1])
+ *   .takeWhile(x => x < 3)
+ *   .collect();
+ * // result: [1, 2]
  * ```
  */
-export async function filter<Value>(
+export async function* takeWhile<Value>(
   iterator: BaseIterator<Value>,
   f: (value: Value) => boolean | Promise<boolean>
-): Promise<Value | undefined> {
+): BaseAsyncIterator<Value> {
   for await (const value of iterator) {
-    if (await f(value)) {
-      return value;
-    }
+    if (!(await f(value))) break;
+    yield value;
   }
+  return;
 }
 
 /**
- * Collects all values from the iterator into an array.
- * This consumes the entire iterator and returns all values as an array.
+ * Skips values while the predicate returns true and yields the first value for
+ * which it returns false along with all remaining values. Supports async predicates.
  *
  * @template Value - The type of values in the iterator
- * @param iterator - The iterator to collect values from
- * @returns Promise resolving to an array containing all yielded values
+ * @param iterator - The iterator to drop values from
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Async iterator without the leading values satisfying the predicate
  *
  * @example
  * ```ts
- * const result = await collect(iterup([1, 2, 3]));
- * // result: [1, 2, 3]
+ * const result = await iterup([1, 2, 3, 4, 1])
+ *   .dropWhile(x => x < 3)
+ *   .collect();
+ * // result: [3, 4, 1]
  * ```
  */
-export async function collect<Value>(
-  iterator: BaseIterator<Value>
-): Promise<Array<Value>> {
-  if (isAsyncIterator(iterator) || isIterator(iterator)) {
-    const result: Value[] = [];
-    for await (const value of iterator) {
-      result.push(value);
-    }
-    return result;
+export async function* dropWhile<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => boolean | Promise<boolean>
+): BaseAsyncIterator<Value> {
+  let dropping = true;
+  for await (const value of iterator) {
+    if (dropping && (await f(value))) continue;
+    dropping = false;
+    yield value;
   }
-  return Array.from(iterator);
+  return;
 }
 
 /**
- * Configuration object for creating numeric ranges.
- * Defines the start point and optional end point (both inclusive).
- */
-export type RangeArgument = {
-  /** Starting number of the range (inclusive, default: 0) */
-  from?: number;
-  /** Ending number of the range (inclusive, default: Number.MAX_SAFE_INTEGER) */
-  to?: number;
-};
-
-/**
- * Creates an iterator that yields a sequence of numbers within a specified range.
- * Both start and end points are inclusive.
+ * Transforms values until the provided function returns None, then stops.
+ * The upstream iterator is closed when stopping. Supports async functions.
  *
- * @param options - Range parameters
- * @param options.from - Starting number (inclusive, default: 0)
- * @param options.to - Ending number (inclusive, default: Number.MAX_SAFE_INTEGER)
- * @returns Async iterator yielding numbers in the specified range
+ * @template Value - The type of values in the input iterator
+ * @template MapValue - The type of values after transformation
+ * @param iterator - The iterator to transform
+ * @param f - Function that transforms values; return None to stop (async supported)
+ * @returns Async iterator of transformed values up to the first None
  *
  * @example
  * ```ts
- * // Basic range from 0 to 5 (inclusive)
- * const basic = await range({ from: 0, to: 5 }).collect();
- * // result: [0, 1, 2, 3, 4, 5]
- *
- * // Infinite range (use with take() to avoid infinite loops)
- * const infinite = range({ from: 10 });
- * const first5 = await infinite.take(5).collect();
- * // result: [10, 11, 12, 13, 14]
+ * const result = await iterup([1, 2, -1, 3])
+ *   .mapWhile(x => x > 0 ? x * 2 : None)
+ *   .collect();
+ * // result: [2, 4]
  * ```
  */
-export async function* range({
-  from = 0,
-  to = Number.MAX_SAFE_INTEGER,
-}: RangeArgument): BaseAsyncIterator<number> {
-  if (from > to) {
-    return Iterator.from([]);
-  }
+export async function* mapWhile<Value, MapValue>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => Option<MapValue> | Promise<Option<MapValue>>
+): BaseAsyncIterator<MapValue> {
+  for await (const value of iterator) {
+    let newValue = f(value);
+    if (newValue instanceof Promise) {
+      newValue = await newValue;
+    }
 
-  for (let count = from; count <= to; count++) {
-    yield count;
+    if (newValue === None) break;
+    yield newValue;
   }
+  return;
 }
 
 /**
- * Calculates the sum of all numeric values in the iterator.
- * This method is only available for numeric iterators.
+ * Skips values until the predicate returns true, then yields the matching value
+ * and all remaining values. Supports async predicates.
  *
- * @template Value - The numeric type of values in the iterator (must extend number)
- * @param iterator - The iterator containing numeric values to sum
- * @returns Promise resolving to the total sum
- * @throws {TypeError} If the iterator contains non-numeric values
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to skip values from
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Async iterator starting at the first value satisfying the predicate
  *
  * @example
  * ```ts
- * const total = await iterup([1, 2, 3, 4, 5]).sum();
- * // result: 15
+ * const result = await iterup(['a', 'START', 'b', 'c'])
+ *   .skipUntil(x => x === 'START')
+ *   .collect();
+ * // result: ['START', 'b', 'c']
  * ```
  */
-export async function sum<Value extends number>(
-  iterator: BaseIterator<Value>
-): Promise<number> {
-  return fold(iterator, 0, (sum, value) => {
-    if (typeof value !== "number")
-      throw new TypeError("sum is not supported for non numeric iterators");
-
-    return sum + value;
-  });
+export async function* skipUntil<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => boolean | Promise<boolean>
+): BaseAsyncIterator<Value> {
+  yield* dropWhile(iterator, async (value) => !(await f(value)));
+  return;
 }
 
 /**
- * Finds the minimum value among all numeric values in the iterator.
- * This method is only available for numeric iterators.
+ * Yields values until the predicate returns true, then stops without yielding
+ * the matching value. The upstream iterator is closed when stopping.
+ * Supports async predicates.
  *
- * @template Value - The numeric type of values in the iterator (must extend number)
- * @param iterator - The iterator containing numeric values to compare
- * @returns Promise resolving to the smallest value found
- * @throws {TypeError} If the iterator contains non-numeric values
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to take values from
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Async iterator of the values before the first value satisfying the predicate
  *
  * @example
  * ```ts
- * const minimum = await iterup([5, 2, 8, 1, 9]).min();
- * // result: 1
+ * const result = await iterup(['a', 'b', 'END', 'c'])
+ *   .takeUntil(x => x === 'END')
+ *   .collect();
+ * // result: ['a', 'b']
  * ```
  */
-export async function min<Value extends number>(
-  iterator: BaseIterator<Value>
-): Promise<number> {
-  return fold(iterator, Number.MAX_SAFE_INTEGER, (min, value) => {
-    if (typeof value !== "number")
-      throw new TypeError("min is not supported for non numeric iterators");
-
-    if (value < min) return value;
-    return min;
-  });
+export async function* takeUntil<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => boolean | Promise<boolean>
+): BaseAsyncIterator<Value> {
+  yield* takeWhile(iterator, async (value) => !(await f(value)));
+  return;
 }
 
 /**
- * Finds the maximum value among all numeric values in the iterator.
- * This method is only available for numeric iterators.
- *
- * @template Value - The numeric type of values in the iterator (must extend number)
- * @param iterator - The iterator containing numeric values to compare
- * @returns Promise resolving to the largest value found
- * @throws {TypeError} If the iterator contains non-numeric values
- *
- * @example
- * ```ts
- * const maximum = await iterup([5, 2, 8, 1, 9]).max();
- * // result: 9
- * ```
+ * Options for the `chunks` adapter.
  */
-export async function max<Value extends number>(
-  iterator: BaseIterator<Value>
-): Promise<number> {
-  return fold(iterator, Number.MIN_SAFE_INTEGER, (max, value) => {
-    if (typeof value !== "number")
-      throw new TypeError("max is not supported for non numeric iterators");
+export type ChunksOptions = {
+  /** Drop the last chunk when it holds fewer than `size` values (default: false) */
+  dropPartial?: boolean;
+};
 
-    if (value > max) return value;
-    return max;
-  });
+/**
+ * Options for the `batch` adapter. At least one limit should be set;
+ * without limits all values end up in a single batch.
+ */
+export type BatchOptions = SchedulerOptions & {
+  /** Flush once the batch holds this many values (default: Infinity) */
+  maxSize?: number;
+  /** Flush once this many milliseconds passed since the first value of the batch (default: Infinity) */
+  maxWaitMs?: number;
+};
+
+/**
+ * Validates a window or chunk size.
+ *
+ * @internal
+ */
+export function checkSize(size: number, name: string) {
+  if (!(Number.isInteger(size) && size >= 1))
+    throw new RangeError(`${name} must be a positive integer`);
 }
 
 /**
- * Repeats the values from the iterator for a specified number of cycles.
- * The input is consumed and cached during the first cycle; subsequent cycles
- * replay the cached values. Defaults to infinite cycles.
+ * Groups consecutive values into arrays of the given size. The last chunk
+ * holds the remaining values and may be smaller unless `dropPartial` is set.
  *
  * @template Value - The type of values in the iterator
- * @param iterator - The iterator whose values should be cycled
- * @param cycles - Number of times to repeat the sequence (default: Infinity)
- * @returns Async iterator that yields the original values repeatedly
+ * @param iterator - The iterator to chunk
+ * @param size - The number of values per chunk
+ * @param options - Chunk options
+ * @param options.dropPartial - Drop a smaller last chunk (default: false)
+ * @returns Async iterator of chunks
+ * @throws {RangeError} If size is not a positive integer
  *
  * @example
  * ```ts
- * // Cycle through values 3 times
- * const result = await iterup([1, 2, 3])
- *   .cycle(3)
- *   .collect();
- * // result: [1, 2, 3, 1, 2, 3, 1, 2, 3]
+ * const result = await iterup([1, 2, 3, 4, 5]).chunks(2).collect();
+ * // result: [[1, 2], [3, 4], [5]]
  * ```
  */
-export async function* cycle<Value>(
+export async function* chunks<Value>(
   iterator: BaseIterator<Value>,
-  cycles = Infinity
-): BaseAsyncIterator<Value> {
-  if (cycles <= 0) {
-    return;
-  }
-
-  const cachedValues: Value[] = [];
-  let initialCycle = true;
-  for (let cycle = 0; cycle < cycles; cycle++) {
-    initialCycle = cycle === 0;
+  size: number,
+  { dropPartial = false }: ChunksOptions = {}
+): BaseAsyncIterator<Value[]> {
+  checkSize(size, "size");
 
-    for await (const value of initialCycle ? iterator : cachedValues) {
-      yield value;
-      if (initialCycle) {
-        cachedValues.push(value);
-      }
+  let chunk: Value[] = [];
+  for await (const value of iterator) {
+    chunk.push(value);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
     }
   }
+  if (chunk.length > 0 && !dropPartial) {
+    yield chunk;
+  }
+  return;
 }
 
 /**
- * Combines two iterators element-wise, yielding pairs until one is exhausted.
- * The resulting iterator stops when the shorter of the two inputs completes.
+ * Yields sliding windows of `size` consecutive values, starting a new window
+ * every `step` values. Only full windows are yielded. A step larger than the
+ * size skips the values in between.
  *
- * @template Value - The type of values in the first iterator
- * @template AnotherValue - The type of values in the second iterator
- * @param iterator - The first iterator to zip
- * @param anotherIterator - The second iterator to zip
- * @returns Async iterator of [Value, AnotherValue]
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to slide over
+ * @param size - The number of values per window
+ * @param step - The distance between the starts of two windows (default: 1)
+ * @returns Async iterator of windows
+ * @throws {RangeError} If size or step is not a positive integer
  *
  * @example
  * ```ts
- * const result = await zip([1, 2, 3], ['a', 'b', 'c']).collect();
- * // result: [[1, 'a'], [2, 'b'], [3, 'c']]
+ * const result = await iterup([1, 2, 3, 4]).windows(2).collect();
+ * // result: [[1, 2], [2, 3], [3, 4]]
  * ```
  */
-export async function* zip<Value, AnotherValue>(
+export async function* windows<Value>(
   iterator: BaseIterator<Value>,
-  anotherIterator: BaseIterator<AnotherValue>
-): BaseAsyncIterator<[Value, AnotherValue]> {
-  if (isIterable(iterator)) {
-    iterator = Iterator.from(iterator);
-  }
-
-  if (isIterable(anotherIterator)) {
-    anotherIterator = Iterator.from(anotherIterator);
-  }
-
-  for (;;) {
-    const [oneResult, anotherResult] = await Promise.all([
-      (iterator as BaseAsyncIterator<Value>).next(),
-      (anotherIterator as BaseAsyncIterator<AnotherValue>).next(),
-    ]);
-
-    const oneValue = unwrapResult(oneResult);
-    if (oneValue === None) break;
+  size: number,
+  step: number = 1
+): BaseAsyncIterator<Value[]> {
+  checkSize(size, "size");
+  checkSize(step, "step");
 
-    const anotherValue = unwrapResult(anotherResult);
-    if (anotherValue === None) break;
-
-    yield [oneValue, anotherValue] as [Value, AnotherValue];
+  let window: Value[] = [];
+  let skip = 0;
+  for await (const value of iterator) {
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+    window.push(value);
+    if (window.length === size) {
+      yield window.slice();
+      skip = Math.max(step - size, 0);
+      window = window.slice(step);
+    }
   }
   return;
 }
 
 /**
- * Applies a function to each element and an accumulator, returning the final value.
- * This is a fundamental operation for building other aggregation functions.
+ * Groups runs of consecutive values that share the same key. A new chunk
+ * starts whenever the key differs from the previous one (compared with ===).
  *
  * @template Value - The type of values in the iterator
- * @template NewValue - The type of the accumulator and return value
- * @param iterator - The iterator to fold over
- * @param initialValue - The initial value for the accumulator
- * @param f - Function that takes (accumulator, value) and returns the new accumulator
- * @returns Promise resolving to the final accumulated value
+ * @template Key - The type of the keys
+ * @param iterator - The iterator to chunk
+ * @param f - Function returning the key of each value (async supported)
+ * @returns Async iterator of runs with equal keys
  *
  * @example
  * ```ts
- * // Sum using fold
- * const sum = await fold([1, 2, 3, 4], 0, (acc, val) => acc + val);
- * // result: 10
- *
- * // Build a string
- * const sentence = await fold(['Hello', 'world'], '', (acc, word) =>
- *   acc === '' ? word : `${acc} ${word}`
- * );
- * // result: "Hello world"
+ * const result = await iterup([1, 1, 2, 3, 3]).chunkBy(x => x).collect();
+ * // result: [[1, 1], [2], [3, 3]]
  * ```
  */
-export async function fold<Value, NewValue>(
+export async function* chunkBy<Value, Key>(
   iterator: BaseIterator<Value>,
-  initialValue: NewValue,
-  f: (accumulator: NewValue, value: Value) => NewValue | Promise<NewValue>
-): Promise<NewValue> {
-  let accumulator = initialValue;
+  f: (value: Value) => Key | Promise<Key>
+): BaseAsyncIterator<Value[]> {
+  let chunk: Value[] = [];
+  let currentKey: Key | undefined;
   for await (const value of iterator) {
-    accumulator = await f(accumulator, value);
+    let key = f(value);
+    if (key instanceof Promise) key = await key;
+    if (chunk.length > 0 && key !== currentKey) {
+      yield chunk;
+      chunk = [];
+    }
+    currentKey = key as Key;
+    chunk.push(value);
   }
-
-  return accumulator;
+  if (chunk.length > 0) {
+    yield chunk;
+  }
+  return;
 }
 
 /**
- * Reduces the iterator to a single value using the provided function.
- * Unlike fold, reduce uses the first element as the initial accumulator value.
- * Returns undefined if the iterator is empty.
+ * Groups values into batches that are flushed when either `maxSize` values
+ * were collected or `maxWaitMs` milliseconds passed since the first value of
+ * the batch, whichever comes first. The time limit only matters for async
+ * sources that are slow to produce values; the last batch is flushed when
+ * the source ends.
  *
  * @template Value - The type of values in the iterator
- * @param iterator - The iterator to reduce
- * @param f - Function that takes (accumulator, value) and returns the new accumulator
- * @returns Promise resolving to the reduced value or undefined if empty
+ * @param iterator - The iterator to batch
+ * @param options - Batch limits
+ * @param options.maxSize - Flush once the batch holds this many values (default: Infinity)
+ * @param options.maxWaitMs - Flush once this many milliseconds passed since the first value (default: Infinity)
+ * @param options.scheduler - The scheduler used to measure and wait for time (default: systemScheduler)
+ * @returns Async iterator of non-empty batches
+ * @throws {RangeError} If maxSize is below 1 or maxWaitMs is negative
  *
  * @example
  * ```ts
- * // Sum using reduce
- * const sum = await reduce([1, 2, 3, 4], (acc, val) => acc + val);
- * // result: 10
- *
- * // Find maximum
- * const max = await reduce([5, 2, 8, 1, 9], (acc, val) => acc > val ? acc : val);
- * // result: 9
+ * await iterup(events)
+ *   .batch({ maxSize: 100, maxWaitMs: 1000 })
+ *   .forEach(rows => db.insert(rows));
  * ```
  */
-export async function reduce<Value>(
+export async function* batch<Value>(
   iterator: BaseIterator<Value>,
-  f: (accumulator: Value, value: Value) => Value | Promise<Value>
-): Promise<Value | undefined> {
+  {
+    maxSize = Infinity,
+    maxWaitMs = Infinity,
+    scheduler = systemScheduler,
+  }: BatchOptions = {}
+): BaseAsyncIterator<Value[]> {
+  if (!(maxSize >= 1)) throw new RangeError("maxSize must be at least 1");
+  if (!(maxWaitMs >= 0)) throw new RangeError("maxWaitMs must not be negative");
+
   if (isIterable(iterator)) {
-    iterator = Iterator.from(iterator);
+    iterator = iteratorFrom(iterator);
   }
+  const source = iterator as BaseAsyncIterator<Value>;
 
-  const firstResult = unwrapResult(
-    await (iterator as BaseAsyncIterator<Value>).next()
+  let buffer: Value[] = [];
+  let deadline = 0;
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let done = false;
+  try {
+    for (;;) {
+      pending ??= Promise.resolve(source.next());
+
+      const result =
+        buffer.length > 0 && maxWaitMs !== Infinity
+          ? await within(pending, deadline - scheduler.now(), scheduler)
+          : await pending;
+
+      if (result === TimedOut) {
+        yield buffer;
+        buffer = [];
+        continue;
+      }
+
+      pending = undefined;
+      if (result.done) {
+        done = true;
+        break;
+      }
+
+      if (buffer.length === 0) deadline = scheduler.now() + maxWaitMs;
+      buffer.push(result.value);
+      if (buffer.length >= maxSize) {
+        yield buffer;
+        buffer = [];
+      }
+    }
+
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    if (!done) {
+      await source.return?.();
+    }
+  }
+  return;
+}
+
+/**
+ * Set once awaiting a `filter` result directly has been warned about.
+ */
+let warnedAwaitedFilter = false;
+
+/**
+ * Yields only the values that satisfy the predicate function.
+ * Supports async predicates and narrows the value type for type guards.
+ *
+ * Earlier versions resolved `filter` to the first matching value. Until the
+ * next major version, awaiting the returned iterator directly still does so
+ * and logs a deprecation warning once; use `find` for that instead.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FilterValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to filter
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Async iterator of values for which f returned true
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3, 4, 5])
+ *   .filter(x => x > 3)
+ *   .collect();
+ * // result: [4, 5]
+ * ```
+ */
+export function filter<Value, FilterValue extends Value = Value>(
+  iterator: BaseIterator<Value>,
+  f:
+    | ((value: Value) => value is FilterValue)
+    | ((value: Value) => boolean | Promise<boolean>)
+): BaseAsyncIterator<FilterValue> {
+  return Object.assign(filterValues(iterator, f), {
+    /** @deprecated Use `find` to get the first matching value */
+    then<Result, Rejected = never>(
+      onFulfilled?: (value: FilterValue | undefined) => Result,
+      onRejected?: (error: unknown) => Rejected
+    ) {
+      if (!warnedAwaitedFilter) {
+        warnedAwaitedFilter = true;
+        console.warn(
+          "iterup: awaiting filter() directly is deprecated and resolves to the first match; use find() instead, or collect() for all matches"
+        );
+      }
+      return find(iterator, f).then(onFulfilled, onRejected);
+    },
+  });
+}
+
+/**
+ * Yields the values that satisfy the predicate, for `filter`.
+ *
+ * @internal
+ */
+async function* filterValues<Value, FilterValue extends Value>(
+  iterator: BaseIterator<Value>,
+  f:
+    | ((value: Value) => value is FilterValue)
+    | ((value: Value) => boolean | Promise<boolean>)
+): BaseAsyncIterator<FilterValue> {
+  for await (const value of iterator) {
+    if (await f(value)) {
+      yield value as FilterValue;
+    }
+  }
+  return;
+}
+
+/**
+ * Finds the first value that satisfies the predicate function.
+ * Supports async predicates.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FindValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Promise resolving to the first matching value or undefined
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3, 4, 5]).find(x => x > 3);
+ * // result: 4
+ * ```
+ */
+export async function find<Value, FindValue extends Value = Value>(
+  iterator: BaseIterator<Value>,
+  f:
+    | ((value: Value) => value is FindValue)
+    | ((value: Value) => boolean | Promise<boolean>)
+): Promise<FindValue | undefined> {
+  for await (const value of iterator) {
+    if (await f(value)) {
+      return value as FindValue;
+    }
+  }
+}
+
+/**
+ * Finds the last value that satisfies the predicate function.
+ * Consumes the entire iterator. Supports async predicates.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FindValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Promise resolving to the last matching value or undefined
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3, 4, 5]).findLast(x => x < 3);
+ * // result: 2
+ * ```
+ */
+export async function findLast<Value, FindValue extends Value = Value>(
+  iterator: BaseIterator<Value>,
+  f:
+    | ((value: Value) => value is FindValue)
+    | ((value: Value) => boolean | Promise<boolean>)
+): Promise<FindValue | undefined> {
+  let last: FindValue | undefined;
+  for await (const value of iterator) {
+    if (await f(value)) {
+      last = value as FindValue;
+    }
+  }
+  return last;
+}
+
+/**
+ * Finds the index of the first value that satisfies the predicate function.
+ * Supports async predicates.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Promise resolving to the index of the first match or -1 if none match
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3, 4, 5]).findIndex(x => x > 3);
+ * // result: 3
+ * ```
+ */
+export async function findIndex<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => boolean | Promise<boolean>
+): Promise<number> {
+  let index = 0;
+  for await (const value of iterator) {
+    if (await f(value)) {
+      return index;
+    }
+    index++;
+  }
+  return -1;
+}
+
+/**
+ * Collects all values from the iterator using a collector. Without a
+ * collector the values are collected into an array.
+ * This consumes the entire iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Acc - The accumulator type of the collector
+ * @template Result - The result type of the collector
+ * @param iterator - The iterator to collect values from
+ * @param collector - The collector building the result (default: array)
+ * @returns Promise resolving to the collector's result
+ *
+ * @example
+ * ```ts
+ * const result = await collect(iterup([1, 2, 3]));
+ * // result: [1, 2, 3]
+ *
+ * const distinct = await collect(iterup([1, 1, 2]), collectors.toSet());
+ * // result: Set { 1, 2 }
+ * ```
+ */
+export async function collect<Value>(
+  iterator: BaseIterator<Value>
+): Promise<Array<Value>>;
+export async function collect<Value, Acc, Result>(
+  iterator: BaseIterator<Value>,
+  collector: Collector<Value, Acc, Result>
+): Promise<Result>;
+export async function collect<Value>(
+  iterator: BaseIterator<Value>,
+  collector: Collector<Value, unknown, unknown> = toArray()
+): Promise<unknown> {
+  let acc = collector.init();
+  for await (const value of iterator) {
+    let next = collector.accumulate(acc, value);
+    if (next instanceof Promise) next = await next;
+    acc = next;
+  }
+  return collector.finish(acc);
+}
+
+/**
+ * How `toMap` resolves values that map to a key that was already seen.
+ * - `"first"` keeps the first value
+ * - `"last"` keeps the latest value
+ * - `"throw"` throws an Error
+ * - `"merge"` combines both values using the `merge` option
+ */
+export type DuplicateKeyPolicy = "first" | "last" | "throw" | "merge";
+
+/**
+ * Options for the `toMap` terminal.
+ *
+ * @template Key - The type of the map keys
+ * @template MapValue - The type of the map values
+ */
+export type ToMapOptions<Key, MapValue> = {
+  /**
+   * Policy applied to duplicate keys (default: "merge" when `merge` is given,
+   * "last" otherwise)
+   */
+  duplicates?: DuplicateKeyPolicy;
+  /** Combines the existing and incoming value of a duplicate key (async supported) */
+  merge?: (
+    existing: MapValue,
+    incoming: MapValue,
+    key: Key
+  ) => MapValue | Promise<MapValue>;
+};
+
+/**
+ * Groups values into arrays by the key returned from the key function.
+ * Groups and the values within them keep their encounter order.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the group keys
+ * @param iterator - The iterator to group
+ * @param f - Function returning the group key of each value (async supported)
+ * @returns Promise resolving to a Map from key to the values in that group
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3, 4]).groupBy(x => x % 2 === 0 ? "even" : "odd");
+ * // result: Map { "odd" => [1, 3], "even" => [2, 4] }
+ * ```
+ */
+export async function groupBy<Value, Key>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => Key | Promise<Key>
+): Promise<Map<Key, Value[]>> {
+  const result = new Map<Key, Value[]>();
+  for await (const value of iterator) {
+    let key = f(value);
+    if (key instanceof Promise) key = await key;
+    const group = result.get(key as Key);
+    if (group) group.push(value);
+    else result.set(key as Key, [value]);
+  }
+  return result;
+}
+
+/**
+ * Splits values into those that satisfy the predicate and those that don't.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to partition
+ * @param f - Predicate function to test each value (async supported)
+ * @returns Promise resolving to a tuple of passing and failing values
+ *
+ * @example
+ * ```ts
+ * const [even, odd] = await iterup([1, 2, 3, 4]).partition(x => x % 2 === 0);
+ * // even: [2, 4], odd: [1, 3]
+ * ```
+ */
+export async function partition<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => boolean | Promise<boolean>
+): Promise<[Value[], Value[]]> {
+  const pass: Value[] = [];
+  const fail: Value[] = [];
+  for await (const value of iterator) {
+    if (await f(value)) pass.push(value);
+    else fail.push(value);
+  }
+  return [pass, fail];
+}
+
+/**
+ * Counts values by the key returned from the key function.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the count keys
+ * @param iterator - The iterator to count
+ * @param f - Function returning the key of each value (async supported)
+ * @returns Promise resolving to a Map from key to the number of values with that key
+ *
+ * @example
+ * ```ts
+ * const result = await iterup(["a", "bb", "cc"]).countBy(x => x.length);
+ * // result: Map { 1 => 1, 2 => 2 }
+ * ```
+ */
+export async function countBy<Value, Key>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => Key | Promise<Key>
+): Promise<Map<Key, number>> {
+  const result = new Map<Key, number>();
+  for await (const value of iterator) {
+    let key = f(value);
+    if (key instanceof Promise) key = await key;
+    result.set(key as Key, (result.get(key as Key) ?? 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Resolves the duplicate key policy of `toMap` options.
+ *
+ * @internal
+ */
+export function duplicateKeyPolicy<Key, MapValue>({
+  duplicates,
+  merge,
+}: ToMapOptions<Key, MapValue>): DuplicateKeyPolicy {
+  const policy = duplicates ?? (merge ? "merge" : "last");
+  if (policy === "merge" && !merge)
+    throw new TypeError('toMap requires a merge function for "merge"');
+  return policy;
+}
+
+/**
+ * Collects values into a Map keyed by the key function. Values are the
+ * elements themselves unless a value function is given.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the map keys
+ * @template MapValue - The type of the map values
+ * @param iterator - The iterator to collect
+ * @param keyFn - Function returning the key of each value (async supported)
+ * @param valueFn - Function returning the map value of each value (async supported)
+ * @param options - Duplicate key handling
+ * @returns Promise resolving to the collected Map
+ * @throws {Error} If a key repeats and the duplicate policy is "throw"
+ * @throws {TypeError} If the policy is "merge" but no merge function is given
+ *
+ * @example
+ * ```ts
+ * const byId = await iterup(users).toMap(user => user.id);
+ *
+ * const totals = await iterup(orders).toMap(
+ *   order => order.customer,
+ *   order => order.amount,
+ *   { merge: (a, b) => a + b }
+ * );
+ * ```
+ */
+export async function toMap<Value, Key, MapValue = Value>(
+  iterator: BaseIterator<Value>,
+  keyFn: (value: Value) => Key | Promise<Key>,
+  valueFn?: (value: Value) => MapValue | Promise<MapValue>,
+  options: ToMapOptions<Key, MapValue> = {}
+): Promise<Map<Key, MapValue>> {
+  const policy = duplicateKeyPolicy(options);
+  const result = new Map<Key, MapValue>();
+  for await (const value of iterator) {
+    let key = keyFn(value);
+    if (key instanceof Promise) key = await key;
+    let mapValue = valueFn ? valueFn(value) : (value as unknown as MapValue);
+    if (mapValue instanceof Promise) mapValue = await mapValue;
+
+    if (!result.has(key as Key) || policy === "last") {
+      result.set(key as Key, mapValue as MapValue);
+    } else if (policy === "throw") {
+      throw new Error(`toMap encountered duplicate key: ${String(key)}`);
+    } else if (policy === "merge") {
+      let merged = options.merge!(
+        result.get(key as Key)!,
+        mapValue as MapValue,
+        key as Key
+      );
+      if (merged instanceof Promise) merged = await merged;
+      result.set(key as Key, merged as MapValue);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collects all distinct values into a Set.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to collect
+ * @returns Promise resolving to a Set of the values in encounter order
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 2, 3]).toSet();
+ * // result: Set { 1, 2, 3 }
+ * ```
+ */
+export async function toSet<Value>(
+  iterator: BaseIterator<Value>
+): Promise<Set<Value>> {
+  const result = new Set<Value>();
+  for await (const value of iterator) {
+    result.add(value);
+  }
+  return result;
+}
+
+/**
+ * Validates a `[key, value]` entry for `toObject`.
+ *
+ * @internal
+ */
+export function checkEntry(value: unknown): [PropertyKey, unknown] {
+  if (!Array.isArray(value))
+    throw new TypeError("toObject is only supported for [key, value] entries");
+  return value as [PropertyKey, unknown];
+}
+
+/**
+ * Collects `[key, value]` entries into a plain object, like
+ * `Object.fromEntries`. Later entries overwrite earlier ones.
+ *
+ * @param iterator - The iterator of entries to collect
+ * @returns Promise resolving to the collected object
+ * @throws {TypeError} If the iterator contains values that are not entries
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([["a", 1], ["b", 2]] as const).toObject();
+ * // result: { a: 1, b: 2 }
+ * ```
+ */
+export async function toObject(
+  iterator: BaseIterator<readonly [PropertyKey, unknown]>
+): Promise<Record<PropertyKey, unknown>> {
+  const result: Record<PropertyKey, unknown> = {};
+  for await (const value of iterator) {
+    const [key, entryValue] = checkEntry(value);
+    Object.defineProperty(result, key, {
+      value: entryValue,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return result;
+}
+
+/**
+ * Configuration object for creating numeric ranges.
+ * Defines the start point and optional end point (both inclusive).
+ */
+export type RangeArgument = {
+  /** Starting number of the range (inclusive, default: 0) */
+  from?: number;
+  /** Ending number of the range (inclusive, default: Number.MAX_SAFE_INTEGER) */
+  to?: number;
+};
+
+/**
+ * Creates an iterator that yields a sequence of numbers within a specified range.
+ * Both start and end points are inclusive.
+ *
+ * @param options - Range parameters
+ * @param options.from - Starting number (inclusive, default: 0)
+ * @param options.to - Ending number (inclusive, default: Number.MAX_SAFE_INTEGER)
+ * @returns Async iterator yielding numbers in the specified range
+ *
+ * @example
+ * ```ts
+ * // Basic range from 0 to 5 (inclusive)
+ * const basic = await range({ from: 0, to: 5 }).collect();
+ * // result: [0, 1, 2, 3, 4, 5]
+ *
+ * // Infinite range (use with take() to avoid infinite loops)
+ * const infinite = range({ from: 10 });
+ * const first5 = await infinite.take(5).collect();
+ * // result: [10, 11, 12, 13, 14]
+ * ```
+ */
+export async function* range({
+  from = 0,
+  to = Number.MAX_SAFE_INTEGER,
+}: RangeArgument): BaseAsyncIterator<number> {
+  if (from > to) {
+    return;
+  }
+
+  for (let count = from; count <= to; count++) {
+    yield count;
+  }
+}
+
+/**
+ * Options for the `sum` terminal.
+ */
+export type SumOptions = {
+  /**
+   * Use Neumaier compensated summation to avoid drift on long streams of
+   * floating point numbers (default: false). Has no effect on bigints.
+   */
+  compensated?: boolean;
+};
+
+/**
+ * Options for the `min` and `max` terminals.
+ */
+export type MinMaxOptions = {
+  /**
+   * Ignore NaN values instead of returning NaN when one is encountered
+   * (default: false).
+   */
+  skipNaN?: boolean;
+};
+
+/**
+ * Validates that a value is a number or a bigint and that it matches the kind
+ * of the values seen before it.
+ *
+ * @internal
+ */
+function checkNumeric(
+  value: unknown,
+  kind: "number" | "bigint" | undefined,
+  method: string
+): "number" | "bigint" {
+  if (typeof value !== "number" && typeof value !== "bigint")
+    throw new TypeError(`${method} is not supported for non numeric iterators`);
+
+  if (kind !== undefined && typeof value !== kind)
+    throw new TypeError(`${method} cannot mix number and bigint values`);
+
+  return typeof value === "bigint" ? "bigint" : "number";
+}
+
+/**
+ * Running state of the `sum` terminal, shared with the synchronous pipeline.
+ * Bigint sums start from the given initial value. Without one, the kind of
+ * the sum follows the first value, so an empty iterator sums to the number 0.
+ *
+ * @internal
+ */
+export function sumAccumulator(options: SumOptions | bigint) {
+  const { compensated = false } = typeof options === "bigint" ? {} : options;
+  let kind: "number" | "bigint" | undefined =
+    typeof options === "bigint" ? "bigint" : undefined;
+  let total: number | bigint | undefined =
+    typeof options === "bigint" ? options : undefined;
+  let compensation = 0;
+
+  return {
+    add(value: number | bigint) {
+      kind = checkNumeric(value, kind, "sum");
+      if (typeof value === "bigint") {
+        total = ((total as bigint | undefined) ?? 0n) + value;
+        return;
+      }
+
+      const current = (total as number | undefined) ?? 0;
+      const next = current + value;
+      if (compensated && Number.isFinite(next)) {
+        compensation +=
+          Math.abs(current) >= Math.abs(value)
+            ? current - next + value
+            : value - next + current;
+      }
+      total = next;
+    },
+    result(): number | bigint {
+      if (total === undefined) return 0;
+      if (typeof total === "bigint") return total;
+      return compensated && Number.isFinite(total)
+        ? total + compensation
+        : total;
+    },
+  };
+}
+
+/**
+ * Running state of the `min` and `max` terminals, shared with the synchronous
+ * pipeline. NaN is sticky unless skipNaN is set.
+ *
+ * @internal
+ */
+export function extremumAccumulator(
+  method: "min" | "max",
+  { skipNaN = false }: MinMaxOptions
+) {
+  let kind: "number" | "bigint" | undefined;
+  let result: number | bigint | undefined;
+
+  return {
+    add(value: number | bigint) {
+      kind = checkNumeric(value, kind, method);
+      if (Number.isNaN(value)) {
+        if (!skipNaN) result = NaN;
+        return;
+      }
+      if (Number.isNaN(result)) return;
+
+      if (
+        result === undefined ||
+        (method === "min" ? value < result : value > result)
+      ) {
+        result = value;
+      }
+    },
+    result(): number | bigint | undefined {
+      return result;
+    },
+  };
+}
+
+/**
+ * Calculates the sum of all numeric values in the iterator.
+ * This method is only available for numeric and bigint iterators.
+ * The full IEEE 754 range is supported and NaN propagates to the result.
+ * An empty iterator cannot tell whether it holds bigints, so it sums to the
+ * number 0 unless a bigint initial value such as `0n` is passed.
+ *
+ * @param iterator - The iterator containing numeric values to sum
+ * @param options - Summation options, or the initial value of a bigint sum
+ * @param options.compensated - Use Neumaier compensated summation (default: false)
+ * @returns Promise resolving to the total sum (0, or the initial value of a bigint sum, for empty iterators)
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const total = await iterup([1, 2, 3, 4, 5]).sum();
+ * // result: 15
+ *
+ * const precise = await iterup([0.1, 0.2, 0.3]).sum({ compensated: true });
+ * // result: 0.6
+ *
+ * const big = await iterup([1n, 2n, 3n]).sum(0n);
+ * // result: 6n
+ * ```
+ */
+export async function sum(
+  iterator: BaseIterator<bigint>,
+  initial: bigint
+): Promise<bigint>;
+export async function sum(
+  iterator: BaseIterator<number>,
+  options?: SumOptions
+): Promise<number>;
+export async function sum(
+  iterator: BaseIterator<number | bigint>,
+  options: SumOptions | bigint = {}
+): Promise<number | bigint> {
+  const accumulator = sumAccumulator(options);
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Finds the minimum value among all numeric values in the iterator.
+ * This method is only available for numeric and bigint iterators.
+ * The full IEEE 754 range is supported, including infinities.
+ *
+ * @param iterator - The iterator containing numeric values to compare
+ * @param options - Comparison options
+ * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+ * @returns Promise resolving to the smallest value found or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const minimum = await iterup([5, 2, 8, 1, 9]).min();
+ * // result: 1
+ *
+ * const empty = await iterup([] as number[]).min();
+ * // result: undefined
+ * ```
+ */
+export async function min(
+  iterator: BaseIterator<bigint>
+): Promise<bigint | undefined>;
+export async function min(
+  iterator: BaseIterator<number>,
+  options?: MinMaxOptions
+): Promise<number | undefined>;
+export async function min(
+  iterator: BaseIterator<number | bigint>,
+  options: MinMaxOptions = {}
+): Promise<number | bigint | undefined> {
+  const accumulator = extremumAccumulator("min", options);
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Finds the maximum value among all numeric values in the iterator.
+ * This method is only available for numeric and bigint iterators.
+ * The full IEEE 754 range is supported, including infinities.
+ *
+ * @param iterator - The iterator containing numeric values to compare
+ * @param options - Comparison options
+ * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+ * @returns Promise resolving to the largest value found or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const maximum = await iterup([5, 2, 8, 1, 9]).max();
+ * // result: 9
+ *
+ * const empty = await iterup([] as number[]).max();
+ * // result: undefined
+ * ```
+ */
+export async function max(
+  iterator: BaseIterator<bigint>
+): Promise<bigint | undefined>;
+export async function max(
+  iterator: BaseIterator<number>,
+  options?: MinMaxOptions
+): Promise<number | undefined>;
+export async function max(
+  iterator: BaseIterator<number | bigint>,
+  options: MinMaxOptions = {}
+): Promise<number | bigint | undefined> {
+  const accumulator = extremumAccumulator("max", options);
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Options for the `variance` and `stddev` terminals.
+ */
+export type VarianceOptions = {
+  /**
+   * Compute the sample variance (dividing by n - 1) instead of the
+   * population variance (dividing by n) (default: false)
+   */
+  sample?: boolean;
+};
+
+/**
+ * A single bucket of a histogram. Values v with `from <= v < to` are counted
+ * in the bucket.
+ */
+export type HistogramBucket = {
+  /** Inclusive lower bound of the bucket */
+  from: number;
+  /** Exclusive upper bound of the bucket */
+  to: number;
+  /** Number of values that fell into the bucket */
+  count: number;
+};
+
+/**
+ * Validates that a value is a number for the statistical terminals.
+ *
+ * @internal
+ */
+function checkNumber(value: unknown, method: string): number {
+  if (typeof value !== "number")
+    throw new TypeError(`${method} is not supported for non numeric iterators`);
+  return value;
+}
+
+/**
+ * Validates a percentile argument.
+ *
+ * @internal
+ */
+function checkPercentile(p: number) {
+  if (!(p >= 0 && p <= 100))
+    throw new RangeError("percentile must be between 0 and 100");
+}
+
+/**
+ * Running mean and variance using Welford's online algorithm, shared with the
+ * synchronous pipeline.
+ *
+ * @internal
+ */
+export function welfordAccumulator(method: string) {
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+
+  return {
+    add(value: number) {
+      checkNumber(value, method);
+      count++;
+      const delta = value - mean;
+      mean += delta / count;
+      m2 += delta * (value - mean);
+    },
+    variance({ sample = false }: VarianceOptions): number | undefined {
+      const divisor = sample ? count - 1 : count;
+      if (divisor <= 0) return undefined;
+      return m2 / divisor;
+    },
+  };
+}
+
+/**
+ * Running mean using compensated summation, shared with the synchronous
+ * pipeline.
+ *
+ * @internal
+ */
+export function averageAccumulator() {
+  const total = sumAccumulator({ compensated: true });
+  let count = 0;
+
+  return {
+    add(value: number) {
+      total.add(checkNumber(value, "average"));
+      count++;
+    },
+    result(): number | undefined {
+      if (count === 0) return undefined;
+      return (total.result() as number) / count;
+    },
+  };
+}
+
+/**
+ * Computes the p-th percentile of an ascending sorted array using linear
+ * interpolation between the closest ranks.
+ *
+ * @internal
+ */
+export function percentileOfSorted(
+  sorted: number[],
+  p: number
+): number | undefined {
+  if (sorted.length === 0) return undefined;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower]!;
+  if (lower === upper) return lowerValue;
+  return lowerValue + (sorted[upper]! - lowerValue) * (rank - lower);
+}
+
+/**
+ * Buffers values for the exact `median` and `percentile` terminals. NaN makes
+ * the result NaN.
+ *
+ * @internal
+ */
+export function percentileAccumulator(method: string) {
+  const values: number[] = [];
+  let hasNaN = false;
+
+  return {
+    add(value: number) {
+      checkNumber(value, method);
+      if (Number.isNaN(value)) hasNaN = true;
+      else values.push(value);
+    },
+    result(p: number): number | undefined {
+      if (hasNaN) return NaN;
+      return percentileOfSorted(
+        values.sort((a, b) => a - b),
+        p
+      );
+    },
+  };
+}
+
+/**
+ * Streaming quantile estimator using the P² algorithm by Jain and Chlamtac.
+ * Keeps five markers regardless of the number of values, so memory use is
+ * constant. The first five values are exact. NaN values are ignored.
+ *
+ * @internal
+ */
+export function p2Accumulator(p: number, method: string) {
+  checkPercentile(p);
+  const q = p / 100;
+  const heights: number[] = [];
+  const positions = [0, 1, 2, 3, 4];
+  const desired = [0, 2 * q, 4 * q, 2 + 2 * q, 4];
+  const increments = [0, q / 2, q, (1 + q) / 2, 1];
+
+  const parabolic = (i: number, d: number) =>
+    heights[i]! +
+    (d / (positions[i + 1]! - positions[i - 1]!)) *
+      (((positions[i]! - positions[i - 1]! + d) *
+        (heights[i + 1]! - heights[i]!)) /
+        (positions[i + 1]! - positions[i]!) +
+        ((positions[i + 1]! - positions[i]! - d) *
+          (heights[i]! - heights[i - 1]!)) /
+          (positions[i]! - positions[i - 1]!));
+
+  const linear = (i: number, d: number) =>
+    heights[i]! +
+    (d * (heights[i + d]! - heights[i]!)) / (positions[i + d]! - positions[i]!);
+
+  return {
+    add(value: number) {
+      checkNumber(value, method);
+      if (Number.isNaN(value)) return;
+
+      if (heights.length < 5) {
+        heights.push(value);
+        heights.sort((a, b) => a - b);
+        return;
+      }
+
+      let k: number;
+      if (value < heights[0]!) {
+        heights[0] = value;
+        k = 0;
+      } else if (value >= heights[4]!) {
+        heights[4] = value;
+        k = 3;
+      } else {
+        k = 0;
+        while (value >= heights[k + 1]!) k++;
+      }
+
+      for (let i = k + 1; i < 5; i++) positions[i]!++;
+      for (let i = 0; i < 5; i++) desired[i]! += increments[i]!;
+
+      for (let i = 1; i < 4; i++) {
+        const offset = desired[i]! - positions[i]!;
+        if (
+          (offset >= 1 && positions[i + 1]! - positions[i]! > 1) ||
+          (offset <= -1 && positions[i - 1]! - positions[i]! < -1)
+        ) {
+          const d = Math.sign(offset);
+          const candidate = parabolic(i, d);
+          heights[i] =
+            heights[i - 1]! < candidate && candidate < heights[i + 1]!
+              ? candidate
+              : linear(i, d);
+          positions[i]! += d;
+        }
+      }
+    },
+    result(): number | undefined {
+      if (heights.length < 5) return percentileOfSorted(heights, p);
+      if (p === 0) return heights[0];
+      if (p === 100) return heights[4];
+      return heights[2];
+    },
+  };
+}
+
+/**
+ * Calculates the arithmetic mean of all numeric values in a single pass.
+ * Uses compensated summation to limit floating point drift.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @returns Promise resolving to the mean or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const mean = await iterup([1, 2, 3, 4]).average();
+ * // result: 2.5
+ * ```
+ */
+export async function average(
+  iterator: BaseIterator<number>
+): Promise<number | undefined> {
+  const accumulator = averageAccumulator();
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Calculates the variance of all numeric values in a single pass using
+ * Welford's algorithm.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param options - Variance options
+ * @param options.sample - Compute the sample variance instead of the population variance (default: false)
+ * @returns Promise resolving to the variance or undefined if there are too few values
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const variance = await iterup([2, 4, 4, 4, 5, 5, 7, 9]).variance();
+ * // result: 4
+ * ```
+ */
+export async function variance(
+  iterator: BaseIterator<number>,
+  options: VarianceOptions = {}
+): Promise<number | undefined> {
+  const accumulator = welfordAccumulator("variance");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.variance(options);
+}
+
+/**
+ * Calculates the standard deviation of all numeric values in a single pass
+ * using Welford's algorithm.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param options - Variance options
+ * @param options.sample - Compute the sample standard deviation instead of the population one (default: false)
+ * @returns Promise resolving to the standard deviation or undefined if there are too few values
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const stddev = await iterup([2, 4, 4, 4, 5, 5, 7, 9]).stddev();
+ * // result: 2
+ * ```
+ */
+export async function stddev(
+  iterator: BaseIterator<number>,
+  options: VarianceOptions = {}
+): Promise<number | undefined> {
+  const accumulator = welfordAccumulator("stddev");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  const result = accumulator.variance(options);
+  return result === undefined ? undefined : Math.sqrt(result);
+}
+
+/**
+ * Calculates the exact p-th percentile of all numeric values, interpolating
+ * linearly between the closest ranks. Buffers all values; use
+ * `approxPercentile` for unbounded streams.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param p - The percentile to compute, between 0 and 100
+ * @returns Promise resolving to the percentile, undefined if empty or NaN if any value is NaN
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If p is outside [0, 100]
+ *
+ * @example
+ * ```ts
+ * const p90 = await iterup(latencies).percentile(90);
+ * ```
+ */
+export async function percentile(
+  iterator: BaseIterator<number>,
+  p: number
+): Promise<number | undefined> {
+  checkPercentile(p);
+  const accumulator = percentileAccumulator("percentile");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result(p);
+}
+
+/**
+ * Calculates the exact median of all numeric values. Buffers all values.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @returns Promise resolving to the median, undefined if empty or NaN if any value is NaN
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const median = await iterup([5, 1, 4, 2]).median();
+ * // result: 3
+ * ```
+ */
+export async function median(
+  iterator: BaseIterator<number>
+): Promise<number | undefined> {
+  const accumulator = percentileAccumulator("median");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result(50);
+}
+
+/**
+ * Estimates the p-th percentile of all numeric values in constant memory
+ * using the P² algorithm. Suited for unbounded streams where buffering every
+ * value is not an option. NaN values are ignored.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param p - The percentile to estimate, between 0 and 100
+ * @returns Promise resolving to the estimated percentile or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If p is outside [0, 100]
+ *
+ * @example
+ * ```ts
+ * const p99 = await iterup(latencyStream).approxPercentile(99);
+ * ```
+ */
+export async function approxPercentile(
+  iterator: BaseIterator<number>,
+  p: number
+): Promise<number | undefined> {
+  const accumulator = p2Accumulator(p, "approxPercentile");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Builds the empty buckets for the given ascending boundaries.
+ *
+ * @internal
+ */
+export function histogramAccumulator(boundaries: number[]) {
+  for (let i = 1; i < boundaries.length; i++) {
+    if (!(boundaries[i - 1]! < boundaries[i]!))
+      throw new RangeError("histogram boundaries must be strictly ascending");
+  }
+
+  const edges = [-Infinity, ...boundaries, Infinity];
+  const buckets: HistogramBucket[] = edges
+    .slice(0, -1)
+    .map((from, index) => ({ from, to: edges[index + 1]!, count: 0 }));
+
+  return {
+    add(value: number) {
+      checkNumber(value, "histogram");
+      if (Number.isNaN(value)) return;
+
+      let low = 0;
+      let high = boundaries.length;
+      while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (value < boundaries[middle]!) high = middle;
+        else low = middle + 1;
+      }
+      buckets[low]!.count++;
+    },
+    result(): HistogramBucket[] {
+      return buckets;
+    },
+  };
+}
+
+/**
+ * Counts the numeric values falling into each bucket delimited by the given
+ * boundaries. The first bucket starts at -Infinity and the last one ends at
+ * Infinity, so every value is counted. NaN values are ignored.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param boundaries - Strictly ascending bucket boundaries
+ * @returns Promise resolving to boundaries.length + 1 buckets
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If the boundaries are not strictly ascending
+ *
+ * @example
+ * ```ts
+ * const buckets = await iterup([5, 15, 25, 100]).histogram([10, 50]);
+ * // result: [
+ * //   { from: -Infinity, to: 10, count: 1 },
+ * //   { from: 10, to: 50, count: 2 },
+ * //   { from: 50, to: Infinity, count: 1 },
+ * // ]
+ * ```
+ */
+export async function histogram(
+  iterator: BaseIterator<number>,
+  boundaries: number[]
+): Promise<HistogramBucket[]> {
+  const accumulator = histogramAccumulator(boundaries);
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Validates that a value is a string for the string extensions.
+ *
+ * @internal
+ */
+function checkString(value: unknown, method: string): string {
+  if (typeof value !== "string")
+    throw new TypeError(`${method} is not supported for non string iterators`);
+  return value;
+}
+
+/**
+ * Joins string values with a separator, shared with the synchronous
+ * pipeline.
+ *
+ * @internal
+ */
+export function joinAccumulator(separator: string, method: string) {
+  let result = "";
+  let first = true;
+
+  return {
+    add(value: string) {
+      checkString(value, method);
+      if (!first) result += separator;
+      result += value;
+      first = false;
+    },
+    result(): string {
+      return result;
+    },
+  };
+}
+
+/**
+ * Stateful splitter that turns string chunks into tokens. Text after the last
+ * separator of a chunk is kept until the next chunk arrives, so tokens split
+ * across chunk boundaries are reassembled. Each chunk is scanned once, along
+ * with the few characters before it that may start a separator. Shared with
+ * the synchronous pipeline.
+ *
+ * @internal
+ */
+export function tokenSplitter(
+  kind: "lines" | "words" | "split",
+  delimiter: string = ""
+) {
+  if (kind === "split" && delimiter.length === 0)
+    throw new RangeError("delimiter must not be empty");
+
+  const separator = kind === "lines" ? "\n" : delimiter;
+  const whitespace = /\s/g;
+  const width = kind === "words" ? 1 : separator.length;
+  // Runs of whitespace yield empty words, which `output` filters out
+  const find = (text: string, from: number) => {
+    if (kind !== "words") return text.indexOf(separator, from);
+    whitespace.lastIndex = from;
+    return whitespace.exec(text)?.index ?? -1;
+  };
+  // The unfinished token, and its last characters that may start a separator
+  let parts: string[] = [];
+  let tail = "";
+  let seen = false;
+
+  const output = (tokens: string[]) => {
+    if (kind === "lines")
+      return tokens.map((token) =>
+        token.endsWith("\r") ? token.slice(0, -1) : token
+      );
+    if (kind === "words") return tokens.filter((token) => token.length > 0);
+    return tokens;
+  };
+
+  return {
+    push(chunk: string): string[] {
+      checkString(chunk, kind);
+      seen = true;
+      const text = tail + chunk;
+      const tokens: string[] = [];
+      let start = 0;
+      for (let at = find(text, 0); at !== -1; at = find(text, start)) {
+        tokens.push(text.slice(start, at));
+        start = at + width;
+      }
+      if (tokens.length > 0) {
+        const pending = parts.join("");
+        tokens[0] = pending.slice(0, pending.length - tail.length) + tokens[0];
+        parts = [text.slice(start)];
+      } else {
+        parts.push(chunk);
+      }
+      tail = width > 1 ? text.slice(start).slice(1 - width) : "";
+      return output(tokens);
+    },
+    flush(): string[] {
+      const buffer = parts.join("");
+      if (kind === "split") return seen ? [buffer] : [];
+      return output(buffer.length > 0 ? [buffer] : []);
+    },
+  };
+}
+
+/**
+ * Joins all string values of the iterator into a single string.
+ *
+ * @param iterator - The iterator containing string values
+ * @param separator - String placed between values (default: ",")
+ * @returns Promise resolving to the joined string ("" for empty iterators)
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const csv = await iterup(["a", "b", "c"]).join(", ");
+ * // result: "a, b, c"
+ * ```
+ */
+export async function join(
+  iterator: BaseIterator<string>,
+  separator: string = ","
+): Promise<string> {
+  const accumulator = joinAccumulator(separator, "join");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Concatenates all string values of the iterator without a separator.
+ *
+ * @param iterator - The iterator containing string values
+ * @returns Promise resolving to the concatenated string
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const text = await iterup(["Hel", "lo"]).concatStrings();
+ * // result: "Hello"
+ * ```
+ */
+export async function concatStrings(
+  iterator: BaseIterator<string>
+): Promise<string> {
+  const accumulator = joinAccumulator("", "concatStrings");
+  for await (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Runs string chunks through a token splitter.
+ *
+ * @internal
+ */
+async function* splitChunks(
+  iterator: BaseIterator<string>,
+  splitter: ReturnType<typeof tokenSplitter>
+): BaseAsyncIterator<string> {
+  for await (const chunk of iterator) {
+    yield* splitter.push(chunk);
+  }
+  yield* splitter.flush();
+  return;
+}
+
+/**
+ * Splits a stream of string chunks into lines. Both "\n" and "\r\n" line
+ * endings are recognized, even when they are split across chunks. A trailing
+ * line ending does not produce an empty final line.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @returns An async iterator yielding lines without their line endings
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const lines = await iterup(["first\nsec", "ond\r\nthird"]).lines().collect();
+ * // result: ["first", "second", "third"]
+ * ```
+ */
+export function lines(
+  iterator: BaseIterator<string>
+): BaseAsyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("lines"));
+}
+
+/**
+ * Splits a stream of string chunks into whitespace separated words. Empty
+ * words are never yielded.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @returns An async iterator yielding words
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const words = await iterup(["hello wo", "rld  again"]).words().collect();
+ * // result: ["hello", "world", "again"]
+ * ```
+ */
+export function words(
+  iterator: BaseIterator<string>
+): BaseAsyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("words"));
+}
+
+/**
+ * Splits a stream of string chunks on a delimiter, like
+ * `String.prototype.split` over the concatenated chunks. Delimiters split
+ * across chunks are recognized.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @param delimiter - The non-empty delimiter to split on
+ * @returns An async iterator yielding the tokens between delimiters
+ * @throws {TypeError} If the iterator contains non-string values
+ * @throws {RangeError} If the delimiter is empty
+ *
+ * @example
+ * ```ts
+ * const fields = await iterup(["a,b", ",c"]).split(",").collect();
+ * // result: ["a", "b", "c"]
+ * ```
+ */
+export function split(
+  iterator: BaseIterator<string>,
+  delimiter: string
+): BaseAsyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("split", delimiter));
+}
+
+/**
+ * Comparison function used by `minBy`, `maxBy` and `minMax`. Returns a negative
+ * number if a sorts before b, a positive number if a sorts after b and 0 if they
+ * are equal, just like the comparator of `Array.prototype.sort`.
+ */
+export type Comparator<Value> = (
+  a: Value,
+  b: Value
+) => number | Promise<number>;
+
+/**
+ * Key types that can be compared with the relational operators.
+ */
+export type ComparableKey = number | bigint | string | Date;
+
+/**
+ * Options for comparator-aware aggregates.
+ */
+export type ExtremumOptions = {
+  /** Which element wins when several compare equal (default: "first") */
+  ties?: "first" | "last";
+};
+
+/**
+ * Compares two keys with the relational operators.
+ *
+ * @internal
+ */
+function compareKeys(a: ComparableKey, b: ComparableKey): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * Finds the element that sorts first (direction -1) or last (direction 1)
+ * according to the comparator.
+ *
+ * @internal
+ */
+async function extremumBy<Value>(
+  iterator: BaseIterator<Value>,
+  compare: Comparator<Value>,
+  direction: 1 | -1,
+  { ties = "first" }: ExtremumOptions
+): Promise<Value | undefined> {
+  let found = false;
+  let best: Value | undefined;
+  for await (const value of iterator) {
+    if (!found) {
+      found = true;
+      best = value;
+      continue;
+    }
+
+    const order = (await compare(value, best as Value)) * direction;
+    if (order > 0 || (order === 0 && ties === "last")) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the element with the smallest (direction -1) or largest (direction 1)
+ * key. Each key is computed once.
+ *
+ * @internal
+ */
+async function extremumByKey<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => ComparableKey | Promise<ComparableKey>,
+  direction: 1 | -1,
+  { ties = "first" }: ExtremumOptions
+): Promise<Value | undefined> {
+  let found = false;
+  let best: Value | undefined;
+  let bestKey: ComparableKey | undefined;
+  for await (const value of iterator) {
+    const key = await f(value);
+    if (!found) {
+      found = true;
+      best = value;
+      bestKey = key;
+      continue;
+    }
+
+    const order = compareKeys(key, bestKey as ComparableKey) * direction;
+    if (order > 0 || (order === 0 && ties === "last")) {
+      best = value;
+      bestKey = key;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the smallest element according to the comparator.
+ * Supports async comparators.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a negative number if a is smaller than b (async supported)
+ * @param options - Tie-breaking options (default: the first smallest element wins)
+ * @returns Promise resolving to the smallest element or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const cheapest = await iterup(offers)
+ *   .minBy((a, b) => a.price - b.price);
+ * ```
+ */
+export async function minBy<Value>(
+  iterator: BaseIterator<Value>,
+  compare: Comparator<Value>,
+  options: ExtremumOptions = {}
+): Promise<Value | undefined> {
+  return extremumBy(iterator, compare, -1, options);
+}
+
+/**
+ * Finds the largest element according to the comparator.
+ * Supports async comparators.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a positive number if a is larger than b (async supported)
+ * @param options - Tie-breaking options (default: the first largest element wins)
+ * @returns Promise resolving to the largest element or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const newest = await iterup(records)
+ *   .maxBy((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+ * ```
+ */
+export async function maxBy<Value>(
+  iterator: BaseIterator<Value>,
+  compare: Comparator<Value>,
+  options: ExtremumOptions = {}
+): Promise<Value | undefined> {
+  return extremumBy(iterator, compare, 1, options);
+}
+
+/**
+ * Finds the element with the smallest key. The key selector is called once
+ * per element. Supports async key selectors.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Function returning the key to compare (async supported)
+ * @param options - Tie-breaking options (default: the first smallest element wins)
+ * @returns Promise resolving to the element with the smallest key or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const cheapest = await iterup(offers).minByKey(offer => offer.price);
+ * ```
+ */
+export async function minByKey<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => ComparableKey | Promise<ComparableKey>,
+  options: ExtremumOptions = {}
+): Promise<Value | undefined> {
+  return extremumByKey(iterator, f, -1, options);
+}
+
+/**
+ * Finds the element with the largest key. The key selector is called once
+ * per element. Supports async key selectors.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Function returning the key to compare (async supported)
+ * @param options - Tie-breaking options (default: the first largest element wins)
+ * @returns Promise resolving to the element with the largest key or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const newest = await iterup(records).maxByKey(record => record.createdAt);
+ * ```
+ */
+export async function maxByKey<Value>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => ComparableKey | Promise<ComparableKey>,
+  options: ExtremumOptions = {}
+): Promise<Value | undefined> {
+  return extremumByKey(iterator, f, 1, options);
+}
+
+/**
+ * Finds both the smallest and the largest element according to the comparator
+ * in a single pass. Supports async comparators.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a negative number if a is smaller than b (async supported)
+ * @param options - Tie-breaking options applied to both ends (default: first wins)
+ * @returns Promise resolving to `{ min, max }` or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const bounds = await iterup(['pear', 'fig', 'banana'])
+ *   .minMax((a, b) => a.length - b.length);
+ * // result: { min: 'fig', max: 'banana' }
+ * ```
+ */
+export async function minMax<Value>(
+  iterator: BaseIterator<Value>,
+  compare: Comparator<Value>,
+  { ties = "first" }: ExtremumOptions = {}
+): Promise<{ min: Value; max: Value } | undefined> {
+  let result: { min: Value; max: Value } | undefined;
+  for await (const value of iterator) {
+    if (result === undefined) {
+      result = { min: value, max: value };
+      continue;
+    }
+
+    const minOrder = await compare(value, result.min);
+    if (minOrder < 0 || (minOrder === 0 && ties === "last")) {
+      result.min = value;
+    }
+
+    const maxOrder = await compare(value, result.max);
+    if (maxOrder > 0 || (maxOrder === 0 && ties === "last")) {
+      result.max = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Repeats the values from the iterator for a specified number of cycles.
+ * The input is consumed and cached during the first cycle; subsequent cycles
+ * replay the cached values. Defaults to infinite cycles.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator whose values should be cycled
+ * @param cycles - Number of times to repeat the sequence (default: Infinity)
+ * @returns Async iterator that yields the original values repeatedly
+ *
+ * @example
+ * ```ts
+ * // Cycle through values 3 times
+ * const result = await iterup([1, 2, 3])
+ *   .cycle(3)
+ *   .collect();
+ * // result: [1, 2, 3, 1, 2, 3, 1, 2, 3]
+ * ```
+ */
+export async function* cycle<Value>(
+  iterator: BaseIterator<Value>,
+  cycles = Infinity
+): BaseAsyncIterator<Value> {
+  if (cycles <= 0) {
+    return;
+  }
+
+  const cachedValues: Value[] = [];
+  let initialCycle = true;
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    initialCycle = cycle === 0;
+
+    for await (const value of initialCycle ? iterator : cachedValues) {
+      yield value;
+      if (initialCycle) {
+        cachedValues.push(value);
+      }
+    }
+  }
+}
+
+/**
+ * Tuple of the value types yielded by a tuple of iterators.
+ *
+ * @template Iterators - The tuple of iterators
+ */
+export type IteratorValues<Iterators extends readonly unknown[]> = {
+  [K in keyof Iterators]: Iterators[K] extends BaseIterator<infer Value>
+    ? Value
+    : never;
+};
+
+/**
+ * Tuple of the value types yielded by `zipLongest`, where exhausted
+ * iterators are padded with `Fill`.
+ *
+ * @template Iterators - The tuple of iterators
+ * @template Fill - The type of the padding value
+ */
+export type ZipLongestValues<Iterators extends readonly unknown[], Fill> = {
+  [K in keyof Iterators]: Iterators[K] extends BaseIterator<infer Value>
+    ? Value | Fill
+    : never;
+};
+
+/**
+ * Options for the `zipLongest` adapter.
+ *
+ * @template Fill - The type of the padding value
+ */
+export type ZipLongestOptions<Fill> = {
+  /** Value used in place of exhausted iterators */
+  fill: Fill;
+};
+
+/**
+ * Options for the `unzip` method.
+ */
+export type UnzipOptions = {
+  /**
+   * Maximum number of values buffered for the side that lags behind. The
+   * side that runs ahead waits until the other catches up (default: Infinity)
+   */
+  bufferSize?: number;
+};
+
+/**
+ * Turns any supported iterator into one that can be advanced with `next()`.
+ *
+ * @internal
+ */
+function iteratorOf<Value>(
+  iterator: BaseIterator<Value>
+): BaseAsyncIterator<Value> {
+  if (isIterable(iterator)) {
+    return iteratorFrom(iterator) as unknown as BaseAsyncIterator<Value>;
+  }
+  return iterator as BaseAsyncIterator<Value>;
+}
+
+/**
+ * Closes every iterator that has not finished yet.
+ *
+ * @internal
+ */
+async function closeIterators(
+  iterators: BaseAsyncIterator<unknown>[],
+  done: boolean[]
+) {
+  await Promise.all(
+    iterators.map((iterator, index) =>
+      done[index] ? undefined : iterator.return?.()
+    )
+  );
+}
+
+/**
+ * Combines iterators element-wise, yielding tuples until one is exhausted.
+ * The remaining iterators are closed with `return()` once one of them ends or
+ * the consumer stops early.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator to zip
+ * @param others - The other iterators to zip
+ * @returns Async iterator of tuples with one value from each iterator
+ *
+ * @example
+ * ```ts
+ * const result = await zip([1, 2, 3], ['a', 'b', 'c'], [true, false]).collect();
+ * // result: [[1, 'a', true], [2, 'b', false]]
+ * ```
+ */
+export async function* zip<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<[Value, ...IteratorValues<Others>]> {
+  const sources = [iterator, ...others].map((source) => iteratorOf(source));
+  const done = sources.map(() => false);
+
+  try {
+    for (;;) {
+      const results = await Promise.all(sources.map((source) => source.next()));
+      results.forEach((result, index) => {
+        if (result.done) done[index] = true;
+      });
+      if (done.includes(true)) break;
+
+      yield results.map((result) => result.value) as [
+        Value,
+        ...IteratorValues<Others>
+      ];
+    }
+  } finally {
+    await closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Checks whether the last argument of `zipLongest` is its options object.
+ *
+ * @internal
+ */
+function isZipLongestOptions(value: unknown): value is ZipLongestOptions<any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "fill" in value &&
+    !isIterable(value) &&
+    !isAsyncIterator(value) &&
+    !("next" in value)
+  );
+}
+
+/**
+ * Combines iterators element-wise until all of them are exhausted. Values of
+ * iterators that ended early are padded with `None`, or with the `fill`
+ * value when an options object is passed last.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @template Fill - The type of the padding value
+ * @param iterator - The first iterator to zip
+ * @param args - The other iterators, optionally followed by `{ fill }`
+ * @returns Async iterator of tuples with one value or padding per iterator
+ *
+ * @example
+ * ```ts
+ * const result = await zipLongest([1, 2, 3], ['a'], { fill: '-' }).collect();
+ * // result: [[1, 'a'], [2, '-'], [3, '-']]
+ * ```
+ */
+export function zipLongest<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<[Option<Value>, ...ZipLongestValues<Others, None>]>;
+export function zipLongest<Value, Others extends BaseIterator<unknown>[], Fill>(
+  iterator: BaseIterator<Value>,
+  ...args: [...others: Others, options: ZipLongestOptions<Fill>]
+): BaseAsyncIterator<[Value | Fill, ...ZipLongestValues<Others, Fill>]>;
+export async function* zipLongest(
+  iterator: BaseIterator<unknown>,
+  ...args: unknown[]
+): BaseAsyncIterator<unknown[]> {
+  const options = isZipLongestOptions(args.at(-1))
+    ? (args.pop() as ZipLongestOptions<unknown>)
+    : undefined;
+  const fill = options ? options.fill : None;
+  const sources = [iterator, ...(args as BaseIterator<unknown>[])].map(
+    (source) => iteratorOf(source)
+  );
+  const done = sources.map(() => false);
+
+  try {
+    for (;;) {
+      const results = await Promise.all(
+        sources.map((source, index) =>
+          done[index] ? undefined : source.next()
+        )
+      );
+      results.forEach((result, index) => {
+        if (result?.done) done[index] = true;
+      });
+      if (!done.includes(false)) break;
+
+      yield results.map((result) =>
+        result === undefined || result.done ? fill : result.value
+      );
+    }
+  } finally {
+    await closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Combines iterators element-wise with a function, yielding its results until
+ * one of the iterators is exhausted. Supports async functions.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @template Result - The type returned by the function
+ * @param iterator - The first iterator to zip
+ * @param f - Function receiving one value from each iterator (async supported)
+ * @param others - The other iterators to zip
+ * @returns Async iterator of the function results
+ *
+ * @example
+ * ```ts
+ * const result = await zipWith([1, 2], (a, b) => a * b, [10, 20]).collect();
+ * // result: [10, 40]
+ * ```
+ */
+export async function* zipWith<
+  Value,
+  Others extends BaseIterator<unknown>[],
+  Result
+>(
+  iterator: BaseIterator<Value>,
+  f: (
+    value: Value,
+    ...others: IteratorValues<Others>
+  ) => Result | Promise<Result>,
+  ...others: Others
+): BaseAsyncIterator<Result> {
+  for await (const values of zip(iterator, ...others)) {
+    let result = f(...values);
+    if (result instanceof Promise) result = await result;
+    yield result as Result;
+  }
+  return;
+}
+
+/**
+ * Splits an iterator of pairs into two iterators that can be consumed
+ * independently. Values are buffered for the side that lags behind; with a
+ * bounded `bufferSize` the side that runs ahead waits for the other one,
+ * so consuming the sides one after another requires the unbounded default.
+ * The source is closed once both sides are closed.
+ *
+ * @template First - The type of the first values of the pairs
+ * @template Second - The type of the second values of the pairs
+ * @param iterator - The iterator of pairs to split
+ * @param options - Buffering options
+ * @param options.bufferSize - Maximum number of values buffered per side (default: Infinity)
+ * @returns A tuple of two Iterup instances
+ * @throws {RangeError} If bufferSize is below 1
+ *
+ * @example
+ * ```ts
+ * const [numbers, letters] = unzip([[1, 'a'], [2, 'b']]);
+ * await numbers.collect(); // [1, 2]
+ * await letters.collect(); // ['a', 'b']
+ * ```
+ */
+export function unzip<First, Second>(
+  iterator: BaseIterator<readonly [First, Second]>,
+  { bufferSize = Infinity }: UnzipOptions = {}
+): [Iterup<First>, Iterup<Second>] {
+  if (!(bufferSize >= 1)) {
+    throw new RangeError("bufferSize must be at least 1");
+  }
+
+  const source = iteratorOf(iterator);
+  const buffers: [unknown[], unknown[]] = [[], []];
+  const active = [true, true];
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  let pulling: Promise<void> | undefined;
+  let waiting: (() => void)[] = [];
+
+  const notify = () => {
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  const pull = () =>
+    (pulling ??= (async () => {
+      try {
+        const result = await source.next();
+        if (result.done) {
+          done = true;
+          return;
+        }
+        result.value.forEach((value, index) => {
+          if (active[index]) buffers[index]!.push(value);
+        });
+      } catch (error) {
+        failure = { error };
+      } finally {
+        pulling = undefined;
+        notify();
+      }
+    })());
+
+  async function* side<Side>(index: 0 | 1): BaseAsyncIterator<Side> {
+    const other = 1 - index;
+    try {
+      for (;;) {
+        if (buffers[index].length > 0) {
+          const value = buffers[index].shift() as Side;
+          notify();
+          yield value;
+          continue;
+        }
+        if (failure) throw failure.error;
+        if (done) return;
+
+        if (active[other] && buffers[other]!.length >= bufferSize) {
+          await new Promise<void>((resolve) => waiting.push(resolve));
+          continue;
+        }
+        await pull();
+      }
+    } finally {
+      active[index] = false;
+      buffers[index] = [];
+      notify();
+      if (!active[other] && !done && !failure) {
+        done = true;
+        await source.return?.();
+      }
+    }
+  }
+
+  return [iterup(side<First>(0)), iterup(side<Second>(1))];
+}
+
+/**
+ * Tuple of `Length` items, or an array when the length is not a literal.
+ *
+ * @template Item - The type of the items
+ * @template Length - The number of items
+ */
+export type Tuple<
+  Item,
+  Length extends number,
+  Items extends Item[] = []
+> = number extends Length
+  ? Item[]
+  : Items["length"] extends Length
+  ? Items
+  : Tuple<Item, Length, [...Items, Item]>;
+
+/**
+ * Options for the `replay` method.
+ */
+export type ReplayOptions = {
+  /** Number of most recent values replayed to late subscribers (default: Infinity) */
+  bufferSize?: number;
+};
+
+/**
+ * A source shared between several consumers, created by `share` and
+ * `replay`.
+ *
+ * @template Value - The type of values in the source
+ */
+export type Shared<Value> = {
+  /**
+   * Creates a consumer that receives the values read from the source from
+   * now on, preceded by the replayed values
+   */
+  subscribe(): Iterup<Value>;
+};
+
+/**
+ * Reads a source once on behalf of several consumers. Every consumer has a
+ * cursor into a shared buffer, which holds the values not yet read by the
+ * slowest consumer plus the last `replay` values. The source is read at the
+ * pace of the fastest consumer and closed once every consumer has closed.
+ *
+ * @internal
+ */
+function multicast<Value>(iterator: BaseIterator<Value>, replay: number) {
+  const source = iteratorOf(iterator);
+  const buffer: Value[] = [];
+  const cursors = new Set<{ index: number }>();
+  let base = 0;
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  let pulling: Promise<void> | undefined;
+
+  const trim = () => {
+    const head = base + buffer.length;
+    let from = head - replay;
+    for (const cursor of cursors) from = Math.min(from, cursor.index);
+    if (from > base) {
+      buffer.splice(0, from - base);
+      base = from;
+    }
+  };
+
+  const pull = () =>
+    (pulling ??= (async () => {
+      try {
+        const result = await source.next();
+        if (result.done) {
+          done = true;
+          return;
+        }
+        buffer.push(result.value);
+      } catch (error) {
+        failure = { error };
+        done = true;
+      } finally {
+        pulling = undefined;
+      }
+    })());
+
+  async function* consume(cursor: { index: number }): BaseAsyncIterator<Value> {
+    try {
+      for (;;) {
+        if (cursor.index < base + buffer.length) {
+          const value = buffer[cursor.index - base] as Value;
+          cursor.index++;
+          trim();
+          yield value;
+          continue;
+        }
+        if (failure) throw failure.error;
+        if (done) return;
+        await pull();
+      }
+    } finally {
+      await release(cursor);
+    }
+  }
+
+  const release = async (cursor: { index: number }) => {
+    if (!cursors.delete(cursor)) return;
+    trim();
+    if (cursors.size === 0 && !done) {
+      done = true;
+      await closeStalled(source, pulling);
+    }
+  };
+
+  return {
+    subscribe(start: "first" | "replay"): Iterup<Value> {
+      const head = base + buffer.length;
+      const cursor = {
+        index: start === "first" ? 0 : Math.max(base, head - replay),
+      };
+      cursors.add(cursor);
+      const branch = consume(cursor) as AsyncGenerator<Value>;
+      // A generator closed before its first `next()` skips its `finally`
+      // block, so `return()` and `throw()` release the cursor themselves.
+      const released: BaseAsyncIterator<Value> = Object.assign(
+        Object.create(branch),
+        {
+          next: (...args: [] | [unknown]) => branch.next(...args),
+          async return(value?: unknown) {
+            await release(cursor);
+            return branch.return(value);
+          },
+          async throw(error?: unknown) {
+            await release(cursor);
+            return branch.throw(error);
+          },
+        }
+      );
+      return iterup(released);
+    },
+  };
+}
+
+/**
+ * Splits an iterator into `n` iterators that each yield all of its values
+ * and can be consumed independently. The source is read only once; values
+ * are buffered until the slowest iterator has read them, and the source is
+ * closed once all iterators are closed.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Count - The number of iterators
+ * @param iterator - The iterator to split
+ * @param n - The number of iterators to create (default: 2)
+ * @returns A tuple of `n` Iterup instances
+ * @throws {RangeError} If n is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const [forSum, forMax] = iterup(readings()).tee();
+ * const [sum, max] = await Promise.all([forSum.sum(), forMax.max()]);
+ * ```
+ */
+export function tee<Value, Count extends number = 2>(
+  iterator: BaseIterator<Value>,
+  n: Count = 2 as Count
+): Tuple<Iterup<Value>, Count> {
+  checkSize(n, "n");
+  const shared = multicast(iterator, 0);
+  return Array.from({ length: n }, () => shared.subscribe("first")) as Tuple<
+    Iterup<Value>,
+    Count
+  >;
+}
+
+/**
+ * Shares one reading of the iterator between any number of subscribers.
+ * Each subscriber receives the values read after it subscribed. The source
+ * is read at the pace of the fastest subscriber and closed once all
+ * subscribers have closed.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to share
+ * @returns A shared source to subscribe to
+ *
+ * @example
+ * ```ts
+ * const prices = iterup(priceFeed).share();
+ * const alerts = prices.subscribe().filter(isSpike).forEach(alert);
+ * const log = prices.subscribe().forEach(record);
+ * ```
+ */
+export function share<Value>(iterator: BaseIterator<Value>): Shared<Value> {
+  const shared = multicast(iterator, 0);
+  return { subscribe: () => shared.subscribe("replay") };
+}
+
+/**
+ * Like `share`, but late subscribers first receive up to `bufferSize` of the
+ * most recent values read before they subscribed.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to share
+ * @param options - How many values to replay
+ * @returns A shared source to subscribe to
+ * @throws {RangeError} If bufferSize is negative
+ *
+ * @example
+ * ```ts
+ * const history = iterup(events).replay({ bufferSize: 10 });
+ * await history.subscribe().take(20).forEach(handle);
+ * const lastTen = await history.subscribe().take(10).collect();
+ * ```
+ */
+export function replay<Value>(
+  iterator: BaseIterator<Value>,
+  { bufferSize = Infinity }: ReplayOptions = {}
+): Shared<Value> {
+  if (!(bufferSize >= 0)) {
+    throw new RangeError("bufferSize must not be negative");
+  }
+  const shared = multicast(iterator, bufferSize);
+  return { subscribe: () => shared.subscribe("replay") };
+}
+
+/**
+ * Yields all values of the iterator followed by the values of each of the
+ * other iterators in turn. The other iterators are only started once the
+ * previous ones are exhausted.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator
+ * @param others - The iterators to append
+ * @returns Async iterator of all values in order
+ *
+ * @example
+ * ```ts
+ * const result = await chain([1, 2], [3], new Set([4])).collect();
+ * // result: [1, 2, 3, 4]
+ * ```
+ */
+export async function* chain<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]> {
+  for (const source of [iterator, ...others]) {
+    yield* source as AsyncIterable<Value>;
+  }
+  return;
+}
+
+/**
+ * Takes one value from each iterator in turn, skipping iterators that are
+ * exhausted, until all of them are exhausted.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator
+ * @param others - The other iterators
+ * @returns Async iterator of the interleaved values
+ *
+ * @example
+ * ```ts
+ * const result = await roundRobin([1, 2, 3], ['a']).collect();
+ * // result: [1, 'a', 2, 3]
+ * ```
+ */
+export async function* roundRobin<
+  Value,
+  Others extends BaseIterator<unknown>[]
+>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]> {
+  const sources = [iterator, ...others].map((source) => iteratorOf(source));
+  const done = sources.map(() => false);
+
+  try {
+    while (done.includes(false)) {
+      for (const [index, source] of sources.entries()) {
+        if (done[index]) continue;
+        const result = await source.next();
+        if (result.done) {
+          done[index] = true;
+          continue;
+        }
+        yield result.value as Value;
+      }
+    }
+  } finally {
+    await closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Alias of `roundRobin`.
+ */
+export const interleave = roundRobin;
+
+/**
+ * Yields the separator between every two consecutive values.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Separator - The type of the separator
+ * @param iterator - The iterator to intersperse
+ * @param separator - The value placed between values
+ * @returns Async iterator of values and separators
+ *
+ * @example
+ * ```ts
+ * const result = await intersperse([1, 2, 3], 0).collect();
+ * // result: [1, 0, 2, 0, 3]
+ * ```
+ */
+export async function* intersperse<Value, Separator>(
+  iterator: BaseIterator<Value>,
+  separator: Separator
+): BaseAsyncIterator<Value | Separator> {
+  yield* intersperseWith(iterator, () => separator);
+  return;
+}
+
+/**
+ * Yields the result of the separator function between every two consecutive
+ * values. The function is called once per separator and may be async.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Separator - The type returned by the separator function
+ * @param iterator - The iterator to intersperse
+ * @param f - Function producing each separator (async supported)
+ * @returns Async iterator of values and separators
+ *
+ * @example
+ * ```ts
+ * let id = 0;
+ * const result = await intersperseWith(['a', 'b', 'c'], () => id++).collect();
+ * // result: ['a', 0, 'b', 1, 'c']
+ * ```
+ */
+export async function* intersperseWith<Value, Separator>(
+  iterator: BaseIterator<Value>,
+  f: () => Separator | Promise<Separator>
+): BaseAsyncIterator<Value | Separator> {
+  let first = true;
+  for await (const value of iterator) {
+    if (!first) {
+      let separator = f();
+      if (separator instanceof Promise) separator = await separator;
+      yield separator as Separator;
+    }
+    first = false;
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Options for the `merge` adapter.
+ */
+export type MergeOptions = {
+  /** Yield `[value, sourceIndex]` pairs instead of plain values (default: false) */
+  tagged?: boolean;
+};
+
+/**
+ * A pending `next()` call of one of the sources of `merge` or `race`,
+ * resolving with the index of the source and its result.
+ *
+ * @internal
+ */
+type PendingPull = Promise<readonly [number, IteratorResult<unknown>]>;
+
+function isMergeOptions(value: unknown): value is MergeOptions {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !isIterable(value) &&
+    !isAsyncIterator(value) &&
+    !("next" in value)
+  );
+}
+
+/**
+ * Requests the next value of a source and records the pending call.
+ *
+ * @internal
+ */
+function pull(
+  sources: BaseAsyncIterator<unknown>[],
+  pending: Map<number, PendingPull>,
+  index: number
+) {
+  pending.set(
+    index,
+    Promise.resolve()
+      .then(() => sources[index]!.next())
+      .then((result) => [index, result] as const)
+  );
+}
+
+/**
+ * Closes every source that has not finished yet. Sources that are still
+ * producing a value would only run their cleanup once that value arrives, so
+ * they are asked to close without waiting for them.
+ *
+ * @internal
+ */
+async function closeRacing(
+  sources: BaseAsyncIterator<unknown>[],
+  done: boolean[],
+  pending: Map<number, PendingPull>
+) {
+  const closing: unknown[] = [];
+  for (const [index, source] of sources.entries()) {
+    if (done[index]) continue;
+    done[index] = true;
+    const result = Promise.resolve(source.return?.());
+    const request = pending.get(index);
+    if (request) {
+      request.catch(() => {});
+      result.catch(() => {});
+    } else {
+      closing.push(result);
+    }
+  }
+  pending.clear();
+  await Promise.all(closing);
+}
+
+/**
+ * Consumes all iterators concurrently and yields their values in the order
+ * they arrive. Each source is asked for its next value only after its
+ * previous value was consumed. When the consumer stops early, or a source
+ * throws, all remaining sources are closed with `return()`.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator to merge
+ * @param args - The other iterators, optionally followed by `{ tagged }`
+ * @returns Async iterator of values, or `[value, sourceIndex]` pairs when tagged
+ *
+ * @example
+ * ```ts
+ * const events = iterup(merge(clicks, keys, { tagged: true }));
+ * for await (const [event, source] of events) {
+ *   // source: 0 for clicks, 1 for keys
+ * }
+ * ```
+ */
+export function merge<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]>;
+export function merge<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...args: [...others: Others, options: MergeOptions & { tagged: true }]
+): BaseAsyncIterator<[Value | IteratorValues<Others>[number], number]>;
+export function merge<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...args: [...others: Others, options: MergeOptions]
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]>;
+export async function* merge(
+  iterator: BaseIterator<unknown>,
+  ...args: unknown[]
+): BaseAsyncIterator<unknown> {
+  const { tagged = false } = isMergeOptions(args.at(-1))
+    ? (args.pop() as MergeOptions)
+    : {};
+  const sources = [iterator, ...(args as BaseIterator<unknown>[])].map(
+    (source) => iteratorOf(source)
+  );
+  const done = sources.map(() => false);
+  const pending = new Map<number, PendingPull>();
+
+  try {
+    for (const index of sources.keys()) pull(sources, pending, index);
+    while (pending.size > 0) {
+      const [index, result] = await Promise.race(pending.values());
+      pending.delete(index);
+      if (result.done) {
+        done[index] = true;
+        continue;
+      }
+      yield tagged ? [result.value, index] : result.value;
+      pull(sources, pending, index);
+    }
+  } finally {
+    await closeRacing(sources, done, pending);
+  }
+  return;
+}
+
+/**
+ * Mirrors the first iterator to produce a value and closes all the others.
+ * Iterators that finish without producing a value drop out of the race.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first competing iterator
+ * @param others - The other competing iterators
+ * @returns Async iterator of the values of the winning iterator
+ *
+ * @example
+ * ```ts
+ * const response = await iterup(race(primary, fallback)).collect();
+ * ```
+ */
+export async function* race<Value, Others extends BaseIterator<unknown>[]>(
+  iterator: BaseIterator<Value>,
+  ...others: Others
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]> {
+  const sources = [iterator, ...others].map((source) =>
+    iteratorOf(source as BaseIterator<unknown>)
+  );
+  const done = sources.map(() => false);
+  const pending = new Map<number, PendingPull>();
+  let winner: BaseAsyncIterator<unknown> | undefined;
+  let first: unknown;
+
+  try {
+    for (const index of sources.keys()) pull(sources, pending, index);
+    while (pending.size > 0 && !winner) {
+      const [index, result] = await Promise.race(pending.values());
+      pending.delete(index);
+      done[index] = true;
+      if (!result.done) {
+        winner = sources[index];
+        first = result.value;
+      }
+    }
+  } finally {
+    await closeRacing(sources, done, pending);
+  }
+  if (!winner) return;
+
+  let finished = false;
+  try {
+    yield first as Value;
+    for (;;) {
+      const result = await winner.next();
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value as Value;
+    }
+  } finally {
+    await closeIterators([winner], [finished]);
+  }
+}
+
+/**
+ * How long `withSignal` lets a source that never waits run on microtasks
+ * before giving timers a turn, in milliseconds.
+ */
+const ABORT_POLL_INTERVAL = 10;
+
+/**
+ * Stops the iterator when the signal aborts. A pending `next()` rejects with
+ * the abort reason right away and the upstream iterator is closed with
+ * `return()`, so generators like `range()` or `cycle()` run their cleanup.
+ * A source that never waits yields to the event loop every few milliseconds,
+ * so an abort from a timer or I/O callback still gets to run.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to make abortable
+ * @param signal - The signal that cancels the iteration
+ * @returns Async iterator that rejects with `signal.reason` once aborted
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 1000);
+ * await iterup({ from: 0 })
+ *   .withSignal(controller.signal)
+ *   .forEach(tick); // rejects with the abort reason after a second
+ * ```
+ */
+export async function* withSignal<Value>(
+  iterator: BaseIterator<Value>,
+  signal: AbortSignal
+): BaseAsyncIterator<Value> {
+  const source = iteratorOf(iterator);
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+  });
+  aborted.catch(() => {});
+  signal.addEventListener("abort", onAbort, { once: true });
+  let pulling = false;
+  let done = false;
+  let polled = systemScheduler.now();
+
+  try {
+    for (;;) {
+      signal.throwIfAborted();
+      if (systemScheduler.now() - polled >= ABORT_POLL_INTERVAL) {
+        await sleep(0, systemScheduler);
+        polled = systemScheduler.now();
+        signal.throwIfAborted();
+      }
+      pulling = true;
+      const result = await Promise.race([source.next(), aborted]);
+      pulling = false;
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+    if (!done) {
+      // A source still producing a value only closes once that value
+      // arrives, so it is not waited for.
+      const closing = Promise.resolve(source.return?.());
+      if (pulling) closing.catch(() => {});
+      else await closing;
+    }
+  }
+}
+
+/**
+ * Options for the `timeout` and `timeoutFirst` adapters.
+ *
+ * @template Fallback - The type of the fallback value
+ */
+export type TimeoutOptions<Fallback> = SchedulerOptions & {
+  /** Value yielded instead of throwing when the source is too slow */
+  fallback: Fallback;
+};
+
+/**
+ * Options for the `deadline` adapter.
+ */
+export type DeadlineOptions = SchedulerOptions & {
+  /**
+   * What happens once the budget is used up: `"end"` finishes the stream,
+   * `"throw"` rejects with a `TimeoutError` (default: "end")
+   */
+  onTimeout?: "end" | "throw";
+};
+
+const TimedOut = Symbol("TimedOut");
+
+function checkDuration(ms: number, method: string) {
+  if (!(ms >= 0))
+    throw new RangeError(`${method} requires a non-negative duration`);
+}
+
+/**
+ * Waits for the promise for at most `ms` milliseconds.
+ *
+ * @internal
+ */
+async function within<Result>(
+  promise: Promise<Result>,
+  ms: number,
+  scheduler: Scheduler = systemScheduler
+): Promise<Result | typeof TimedOut> {
+  let cancel = () => {};
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<typeof TimedOut>((resolve) => {
+        cancel = scheduler.schedule(() => resolve(TimedOut), Math.max(ms, 0));
+      }),
+    ]);
+  } finally {
+    cancel();
+  }
+}
+
+/**
+ * Resolves once `ms` milliseconds have passed on the scheduler.
+ *
+ * @internal
+ */
+function sleep(ms: number, scheduler: Scheduler) {
+  return new Promise<void>((resolve) => {
+    scheduler.schedule(resolve, Math.max(ms, 0));
+  });
+}
+
+/**
+ * Closes a source that may still be producing a value. Waiting for such a
+ * source would block until its value arrives, so only idle sources are
+ * waited for.
+ *
+ * @internal
+ */
+async function closeStalled(
+  source: BaseAsyncIterator<unknown>,
+  pending: Promise<unknown> | undefined
+) {
+  const closing = Promise.resolve(source.return?.());
+  if (pending) {
+    pending.catch(() => {});
+    closing.catch(() => {});
+  } else {
+    await closing;
+  }
+}
+
+/**
+ * Shared implementation of `timeout` and `timeoutFirst`.
+ *
+ * @internal
+ */
+async function* timeoutValues<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options: SchedulerOptions | TimeoutOptions<Fallback>,
+  method: "timeout" | "timeoutFirst"
+): BaseAsyncIterator<Value | Fallback> {
+  checkDuration(ms, method);
+  const { scheduler = systemScheduler } = options;
+  const source = iteratorOf(iterator);
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let timed = true;
+  let done = false;
+
+  try {
+    for (;;) {
+      pending ??= Promise.resolve(source.next());
+      const result = timed
+        ? await within(pending, ms, scheduler)
+        : await pending;
+
+      if (result === TimedOut) {
+        if (!("fallback" in options)) {
+          throw new TimeoutError(
+            `${method} exceeded ${ms}ms waiting for a value`,
+            ms
+          );
+        }
+        if (method === "timeoutFirst") timed = false;
+        yield options.fallback;
+        continue;
+      }
+
+      pending = undefined;
+      if (result.done) {
+        done = true;
+        return;
+      }
+      if (method === "timeoutFirst") timed = false;
+      yield result.value;
+    }
+  } finally {
+    if (!done) await closeStalled(source, pending);
+  }
+}
+
+/**
+ * Limits how long the source may take to produce each value. When a value
+ * takes longer than `ms` milliseconds a `TimeoutError` is thrown and the
+ * source is closed, or the `fallback` is yielded while waiting continues.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Fallback - The type of the fallback value
+ * @param iterator - The iterator to limit
+ * @param ms - Maximum time to wait for each value
+ * @param options - Optional `{ fallback }` yielded instead of throwing, and the scheduler
+ * @returns Async iterator of values and fallbacks
+ *
+ * @example
+ * ```ts
+ * const readings = iterup(sensor).timeout(1000, { fallback: None });
+ * // yields None for every second without a reading
+ * ```
+ */
+export function timeout<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options: TimeoutOptions<Fallback>
+): BaseAsyncIterator<Value | Fallback>;
+export function timeout<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options?: SchedulerOptions
+): BaseAsyncIterator<Value>;
+export function timeout<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options: SchedulerOptions | TimeoutOptions<Fallback> = {}
+): BaseAsyncIterator<Value | Fallback> {
+  return timeoutValues(iterator, ms, options, "timeout");
+}
+
+/**
+ * Limits how long the source may take to produce its first value. Later
+ * values may take as long as they need. When the first value is late a
+ * `TimeoutError` is thrown, or the `fallback` is yielded once before waiting
+ * for the source without a limit.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Fallback - The type of the fallback value
+ * @param iterator - The iterator to limit
+ * @param ms - Maximum time to wait for the first value
+ * @param options - Optional `{ fallback }` yielded instead of throwing, and the scheduler
+ * @returns Async iterator of values, preceded by the fallback when late
+ *
+ * @example
+ * ```ts
+ * const messages = iterup(socket).timeoutFirst(5000);
+ * // throws a TimeoutError when the socket stays silent for 5 seconds
+ * ```
+ */
+export function timeoutFirst<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options: TimeoutOptions<Fallback>
+): BaseAsyncIterator<Value | Fallback>;
+export function timeoutFirst<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options?: SchedulerOptions
+): BaseAsyncIterator<Value>;
+export function timeoutFirst<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  options: SchedulerOptions | TimeoutOptions<Fallback> = {}
+): BaseAsyncIterator<Value | Fallback> {
+  return timeoutValues(iterator, ms, options, "timeoutFirst");
+}
+
+/**
+ * Gives the whole iteration a time budget of `ms` milliseconds, counted from
+ * the first request for a value. Once it is used up the source is closed and
+ * the stream ends, or a `TimeoutError` is thrown with `onTimeout: "throw"`.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to limit
+ * @param ms - The time budget for the whole iteration
+ * @param options - Whether to end or throw once the budget is used up, and the scheduler
+ * @returns Async iterator of the values produced within the budget
+ *
+ * @example
+ * ```ts
+ * const firstSecond = await iterup(events).deadline(1000).collect();
+ * ```
+ */
+export async function* deadline<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  { onTimeout = "end", scheduler = systemScheduler }: DeadlineOptions = {}
+): BaseAsyncIterator<Value> {
+  checkDuration(ms, "deadline");
+  const source = iteratorOf(iterator);
+  const end = scheduler.now() + ms;
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let done = false;
+
+  try {
+    for (;;) {
+      let result: IteratorResult<Value> | typeof TimedOut = TimedOut;
+      if (scheduler.now() < end) {
+        pending = Promise.resolve(source.next());
+        result = await within(pending, end - scheduler.now(), scheduler);
+      }
+
+      if (result === TimedOut) {
+        if (onTimeout === "throw") {
+          throw new TimeoutError(`deadline of ${ms}ms exceeded`, ms);
+        }
+        return;
+      }
+
+      pending = undefined;
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) await closeStalled(source, pending);
+  }
+}
+
+/**
+ * Options for the `throttle` adapter.
+ */
+export type ThrottleOptions = SchedulerOptions & {
+  /** Number of values let through per second on average */
+  perSecond: number;
+  /** Number of values that may pass at once after a quiet period (default: 1) */
+  burst?: number;
+};
+
+/**
+ * Limits the rate of values with a token bucket. The bucket holds up to
+ * `burst` tokens and refills with `perSecond` tokens per second; every value
+ * takes a token and waits when none is left. No values are dropped.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to throttle
+ * @param options - The rate, burst size and scheduler
+ * @returns Async iterator of the same values, paced to the rate
+ *
+ * @example
+ * ```ts
+ * await iterup(requests)
+ *   .throttle({ perSecond: 10, burst: 5 })
+ *   .forEach(send);
+ * ```
+ */
+export async function* throttle<Value>(
+  iterator: BaseIterator<Value>,
+  { perSecond, burst = 1, scheduler = systemScheduler }: ThrottleOptions
+): BaseAsyncIterator<Value> {
+  if (!(perSecond > 0)) throw new RangeError("perSecond must be positive");
+  checkSize(burst, "burst");
+
+  let tokens = burst;
+  let refilled = scheduler.now();
+  for await (const value of iterator) {
+    for (;;) {
+      const now = scheduler.now();
+      tokens = Math.min(burst, tokens + ((now - refilled) * perSecond) / 1000);
+      refilled = now;
+      if (tokens >= 1) break;
+      await sleep(((1 - tokens) * 1000) / perSecond, scheduler);
+    }
+    tokens -= 1;
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Yields a value only once `ms` milliseconds have passed without a newer
+ * one, dropping the values in between. The last value is yielded right away
+ * when the source finishes.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to debounce
+ * @param ms - The quiet period a value has to survive
+ * @param options - The scheduler to wait with
+ * @returns Async iterator of the values followed by a quiet period
+ *
+ * @example
+ * ```ts
+ * await iterup(keystrokes).debounce(300).forEach(search);
+ * ```
+ */
+export async function* debounce<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  { scheduler = systemScheduler }: SchedulerOptions = {}
+): BaseAsyncIterator<Value> {
+  checkDuration(ms, "debounce");
+  const source = iteratorOf(iterator);
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let latest: Option<Value> = None;
+  let done = false;
+
+  try {
+    for (;;) {
+      pending ??= Promise.resolve(source.next());
+      const result: IteratorResult<Value> | typeof TimedOut =
+        latest === None ? await pending : await within(pending, ms, scheduler);
+
+      if (result === TimedOut) {
+        const value = latest as Value;
+        latest = None;
+        yield value;
+        continue;
+      }
+
+      pending = undefined;
+      if (result.done) {
+        done = true;
+        if (latest !== None) yield latest as Value;
+        return;
+      }
+      latest = result.value;
+    }
+  } finally {
+    if (!done) await closeStalled(source, pending);
+  }
+}
+
+/**
+ * Waits `ms` milliseconds before yielding each value.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to delay
+ * @param ms - The time to wait before each value
+ * @param options - The scheduler to wait with
+ * @returns Async iterator of the same values, each one delayed
+ *
+ * @example
+ * ```ts
+ * await iterup(frames).delay(16).forEach(draw);
+ * ```
+ */
+export async function* delay<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  { scheduler = systemScheduler }: SchedulerOptions = {}
+): BaseAsyncIterator<Value> {
+  checkDuration(ms, "delay");
+  for await (const value of iterator) {
+    await sleep(ms, scheduler);
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Yields the most recent value once every `ms` milliseconds, skipping
+ * periods in which the source produced nothing new. Values arriving after
+ * the last period are dropped when the source finishes.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to sample
+ * @param ms - The sampling period
+ * @param options - The scheduler to wait with
+ * @returns Async iterator of at most one value per period
+ *
+ * @example
+ * ```ts
+ * await iterup(mouseMoves).sample(100).forEach(render);
+ * ```
+ */
+export async function* sample<Value>(
+  iterator: BaseIterator<Value>,
+  ms: number,
+  { scheduler = systemScheduler }: SchedulerOptions = {}
+): BaseAsyncIterator<Value> {
+  if (!(ms > 0)) throw new RangeError("sample requires a positive period");
+  const source = iteratorOf(iterator);
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let latest: Option<Value> = None;
+  let tick = scheduler.now() + ms;
+  let done = false;
+
+  try {
+    for (;;) {
+      pending ??= Promise.resolve(source.next());
+      const result = await within(pending, tick - scheduler.now(), scheduler);
+
+      if (result === TimedOut) {
+        // Skip the periods missed while the consumer was busy
+        while (tick <= scheduler.now()) tick += ms;
+        if (latest === None) continue;
+        const value = latest as Value;
+        latest = None;
+        yield value;
+        continue;
+      }
+
+      pending = undefined;
+      if (result.done) {
+        done = true;
+        return;
+      }
+      latest = result.value;
+    }
+  } finally {
+    if (!done) await closeStalled(source, pending);
+  }
+}
+
+/**
+ * Outcome of requesting a value from an iterator, as yielded by
+ * `materialize`.
+ *
+ * @template Value - The type of successfully produced values
+ */
+export type Materialized<Value> = Result<Value, unknown>;
+
+/**
+ * Options for the `retry` adapter.
+ */
+export type RetryOptions = SchedulerOptions & {
+  /** Total number of calls per value, including the first (default: 3) */
+  attempts?: number;
+  /**
+   * Milliseconds to wait before the next call, or a function receiving the
+   * number of the failed attempt and its error (default: 0)
+   */
+  backoff?: number | ((attempt: number, error: unknown) => number);
+};
+
+/**
+ * Number of consecutive rejected `next()` calls after which `settle` gives
+ * up on an iterator and rethrows, so a broken source cannot spin forever.
+ */
+const MAX_CONSECUTIVE_ERRORS = 100;
+
+/**
+ * Requests values from a source while recording errors instead of throwing.
+ * Generators finish once they throw, while other iterators may keep
+ * producing values after a rejected `next()`. After
+ * `MAX_CONSECUTIVE_ERRORS` rejections in a row the last error is thrown.
+ *
+ * @internal
+ */
+async function* settle<Value>(
+  iterator: BaseIterator<Value>
+): BaseAsyncIterator<Materialized<Value>> {
+  const source = iteratorOf(iterator);
+  let done = false;
+  let failures = 0;
+
+  try {
+    for (;;) {
+      let result: IteratorResult<Value>;
+      try {
+        result = await source.next();
+      } catch (error) {
+        if (++failures >= MAX_CONSECUTIVE_ERRORS) throw error;
+        yield Err(error);
+        continue;
+      }
+      failures = 0;
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield Ok(result.value);
+    }
+  } finally {
+    await closeIterators([source], [done]);
+  }
+}
+
+/**
+ * Outcomes of a `skipErrors` or `materialize` stage: the mapped values when
+ * a function is given, otherwise the values and errors of the source.
+ *
+ * @internal
+ */
+function outcomes<Value, MapValue>(
+  iterator: BaseIterator<Value>,
+  f: ((value: Value) => MapValue | Promise<MapValue>) | undefined
+): BaseAsyncIterator<Result<Value | MapValue, unknown>> {
+  return f ? tryMap(iterator, f) : settle(iterator);
+}
+
+/**
+ * Replaces the rest of the iterator when it throws. The handler receives the
+ * error and returns the iterator to continue with, or throws to propagate an
+ * error.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Fallback - The type of values in the fallback iterator
+ * @param iterator - The iterator to guard
+ * @param handler - Function returning the fallback iterator (async supported)
+ * @returns Async iterator of the values followed by the fallback values
+ *
+ * @example
+ * ```ts
+ * const prices = await iterup(fetchPrices())
+ *   .catchError(() => cachedPrices)
+ *   .collect();
+ * ```
+ */
+export async function* catchError<Value, Fallback>(
+  iterator: BaseIterator<Value>,
+  handler: (
+    error: unknown
+  ) => BaseIterator<Fallback> | Promise<BaseIterator<Fallback>>
+): BaseAsyncIterator<Value | Fallback> {
+  let fallback: BaseIterator<Fallback>;
+  try {
+    for await (const value of iterator) {
+      yield value;
+    }
+    return;
+  } catch (error) {
+    fallback = await handler(error);
+  }
+  yield* fallback;
+  return;
+}
+
+/**
+ * Continues with the next fallback iterator whenever the current one throws.
+ * An error of the last fallback is propagated.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Others - The tuple of fallback iterators
+ * @param iterator - The iterator to guard
+ * @param fallbacks - The iterators to continue with, in order
+ * @returns Async iterator of the values up to the first error of each source
+ *
+ * @example
+ * ```ts
+ * const quotes = iterup(primaryFeed).onErrorResume(backupFeed);
+ * ```
+ */
+export async function* onErrorResume<
+  Value,
+  Others extends BaseIterator<unknown>[]
+>(
+  iterator: BaseIterator<Value>,
+  ...fallbacks: Others
+): BaseAsyncIterator<Value | IteratorValues<Others>[number]> {
+  const sources = [iterator, ...fallbacks] as BaseIterator<Value>[];
+  for (const [index, source] of sources.entries()) {
+    try {
+      for await (const value of source) {
+        yield value;
+      }
+      return;
+    } catch (error) {
+      if (index === sources.length - 1) throw error;
+    }
+  }
+}
+
+/**
+ * Transforms errors thrown by the iterator before they propagate, e.g. to
+ * add context or wrap them in a domain error.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator whose errors to transform
+ * @param f - Function returning the error to throw instead (async supported)
+ * @returns Async iterator of the same values
+ *
+ * @example
+ * ```ts
+ * await iterup(rows)
+ *   .mapErr((error) => new ImportError("reading rows failed", { cause: error }))
+ *   .forEach(save);
+ * ```
+ */
+export async function* mapErr<Value>(
+  iterator: BaseIterator<Value>,
+  f: (error: unknown) => unknown
+): BaseAsyncIterator<Value> {
+  try {
+    for await (const value of iterator) {
+      yield value;
+    }
+  } catch (error) {
+    throw await f(error);
+  }
+  return;
+}
+
+/**
+ * Maps each value with an async function and retries failed calls for that
+ * value, waiting `backoff` milliseconds in between. The last error is thrown
+ * once all attempts have failed.
+ *
+ * @template Value - The type of values in the iterator
+ * @template MapValue - The type returned by the function
+ * @param iterator - The iterator to map
+ * @param f - Function to apply to each value (async supported)
+ * @param options - Number of attempts, backoff and scheduler
+ * @returns Async iterator of the mapped values
+ *
+ * @example
+ * ```ts
+ * const users = await iterup(ids)
+ *   .retry((id) => fetchUser(id), {
+ *     attempts: 5,
+ *     backoff: (attempt) => 100 * 2 ** attempt,
+ *   })
+ *   .collect();
+ * ```
+ */
+export async function* retry<Value, MapValue>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => MapValue | Promise<MapValue>,
+  { attempts = 3, backoff = 0, scheduler = systemScheduler }: RetryOptions = {}
+): BaseAsyncIterator<MapValue> {
+  checkSize(attempts, "attempts");
+  for await (const value of iterator) {
+    let mapped: MapValue;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        mapped = await f(value);
+        break;
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+        const ms =
+          typeof backoff === "function" ? backoff(attempt, error) : backoff;
+        if (ms > 0) await sleep(ms, scheduler);
+      }
+    }
+    yield mapped;
+  }
+  return;
+}
+
+/**
+ * Options for the `skipErrors` adapter.
+ */
+export type SkipErrorsOptions = {
+  /** Function receiving each skipped error (async supported) */
+  onError?: (error: unknown) => void | Promise<void>;
+};
+
+/**
+ * Maps each value and drops the ones whose function throws or rejects,
+ * optionally reporting the errors first. Because errors are caught per
+ * value, the values after a failed one still come through.
+ *
+ * Without a function, errors raised while requesting values from the
+ * source are skipped instead. Generators finish once they throw, so the
+ * stream ends there; other iterators like queues keep being read.
+ *
+ * @template Value - The type of values in the iterator
+ * @template MapValue - The type returned by the function
+ * @param iterator - The iterator whose errors to skip
+ * @param f - Optional function to apply to each value (async supported)
+ * @param options - Optional function receiving each error
+ * @returns Async iterator of the values that were produced successfully
+ *
+ * @example
+ * ```ts
+ * const numbers = await iterup(["1", "bad", "3"])
+ *   .skipErrors(parse, { onError: (error) => log.warn(error) })
+ *   .collect();
+ * // numbers: [1, 3]
+ * ```
+ */
+export async function* skipErrors<Value, MapValue = Value>(
+  iterator: BaseIterator<Value>,
+  f?: (value: Value) => MapValue | Promise<MapValue>,
+  { onError }: SkipErrorsOptions = {}
+): BaseAsyncIterator<MapValue> {
+  for await (const result of outcomes(iterator, f)) {
+    if (result.ok) {
+      yield result.value as MapValue;
+    } else {
+      await onError?.(result.error);
+    }
+  }
+  return;
+}
+
+/**
+ * Maps each value and turns the outcomes into `{ ok: true, value }` and
+ * `{ ok: false, error }` records, so failed values can be routed instead of
+ * ending the pipeline. Errors are caught per value, like `tryMap`.
+ *
+ * Without a function, the values and errors of the source are recorded
+ * instead. Generators finish once they throw, so the error record is their
+ * last one; other iterators like queues keep being read.
+ *
+ * @template Value - The type of values in the iterator
+ * @template MapValue - The type returned by the function
+ * @param iterator - The iterator to materialize
+ * @param f - Optional function to apply to each value (async supported)
+ * @returns Async iterator of outcome records
+ *
+ * @example
+ * ```ts
+ * const [ok, failed] = await iterup(rows)
+ *   .materialize(parse)
+ *   .partition((result) => result.ok);
+ * ```
+ */
+export function materialize<Value, MapValue = Value>(
+  iterator: BaseIterator<Value>,
+  f?: (value: Value) => MapValue | Promise<MapValue>
+): BaseAsyncIterator<Materialized<MapValue>> {
+  return outcomes(iterator, f) as BaseAsyncIterator<Materialized<MapValue>>;
+}
+
+/**
+ * Validates a value for the Result methods.
+ *
+ * @internal
+ */
+export function checkResult(
+  value: unknown,
+  method: string
+): Result<unknown, unknown> {
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    typeof (value as { ok?: unknown }).ok !== "boolean"
+  )
+    throw new TypeError(`${method} is only supported for Result values`);
+  return value as Result<unknown, unknown>;
+}
+
+/**
+ * Yields the values of the successful Results and drops the failed ones.
+ *
+ * @template Value - The type of the successful values
+ * @param iterator - The iterator of Results
+ * @returns Async iterator of the successful values
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const numbers = await iterup(rows).tryMap(parse).filterOk().collect();
+ * ```
+ */
+export async function* filterOk<Value>(
+  iterator: BaseIterator<Result<Value, unknown>>
+): BaseAsyncIterator<Value> {
+  for await (const value of iterator) {
+    const result = checkResult(value, "filterOk");
+    if (result.ok) yield result.value as Value;
+  }
+  return;
+}
+
+/**
+ * Yields the errors of the failed Results and drops the successful ones.
+ *
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns Async iterator of the errors
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const problems = await iterup(rows).tryMap(parse).filterErr().collect();
+ * ```
+ */
+export async function* filterErr<ErrorValue>(
+  iterator: BaseIterator<Result<unknown, ErrorValue>>
+): BaseAsyncIterator<ErrorValue> {
+  for await (const value of iterator) {
+    const result = checkResult(value, "filterErr");
+    if (!result.ok) yield result.error as ErrorValue;
+  }
+  return;
+}
+
+/**
+ * Splits Results into the values of the successful ones and the errors of
+ * the failed ones, reading the whole iterator.
+ *
+ * @template Value - The type of the successful values
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns Promise resolving to `[values, errors]`
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const [valid, invalid] = await iterup(rows).tryMap(parse).partitionResults();
+ * ```
+ */
+export async function partitionResults<Value, ErrorValue>(
+  iterator: BaseIterator<Result<Value, ErrorValue>>
+): Promise<[Value[], ErrorValue[]]> {
+  const values: Value[] = [];
+  const errors: ErrorValue[] = [];
+  for await (const value of iterator) {
+    const result = checkResult(value, "partitionResults");
+    if (result.ok) values.push(result.value as Value);
+    else errors.push(result.error as ErrorValue);
+  }
+  return [values, errors];
+}
+
+/**
+ * Collects the values of Results into an array, or returns the first failed
+ * Result. Reading stops at the first failure.
+ *
+ * @template Value - The type of the successful values
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns Promise resolving to `Ok(values)` or the first `Err`
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const result = await iterup(rows).tryMap(parse).collectResult();
+ * if (!result.ok) console.error(result.error);
+ * ```
+ */
+export async function collectResult<Value, ErrorValue>(
+  iterator: BaseIterator<Result<Value, ErrorValue>>
+): Promise<Result<Value[], ErrorValue>> {
+  const values: Value[] = [];
+  for await (const value of iterator) {
+    const result = checkResult(value, "collectResult");
+    if (!result.ok) return result as Err<ErrorValue>;
+    values.push(result.value as Value);
+  }
+  return Ok(values);
+}
+
+/**
+ * Maps each value with a function and captures thrown errors and rejections
+ * as failed Results, so one bad value does not end the pipeline.
+ *
+ * @template Value - The type of values in the iterator
+ * @template MapValue - The type returned by the function
+ * @param iterator - The iterator to map
+ * @param f - Function to apply to each value (async supported)
+ * @returns Async iterator of `Ok(mapped)` or `Err(error)` per value
+ *
+ * @example
+ * ```ts
+ * const results = await iterup(['1', 'x'])
+ *   .tryMap((row) => JSON.parse(row) as number)
+ *   .collect();
+ * // results: [{ ok: true, value: 1 }, { ok: false, error: SyntaxError }]
+ * ```
+ */
+export async function* tryMap<Value, MapValue>(
+  iterator: BaseIterator<Value>,
+  f: (value: Value) => MapValue | Promise<MapValue>
+): BaseAsyncIterator<Result<MapValue, unknown>> {
+  for await (const value of iterator) {
+    let result: Result<MapValue, unknown>;
+    try {
+      result = Ok(await f(value));
+    } catch (error) {
+      result = Err(error);
+    }
+    yield result;
+  }
+  return;
+}
+
+/**
+ * Yields the values that are not None, narrowing the value type.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator of Options
+ * @returns Async iterator of the present values
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, None, 2]).flattenOptions().collect();
+ * // result: [1, 2]
+ * ```
+ */
+export async function* flattenOptions<Value>(
+  iterator: BaseIterator<Value>
+): BaseAsyncIterator<Exclude<Value, None>> {
+  for await (const value of iterator) {
+    if (isSome(value)) yield value;
+  }
+  return;
+}
+
+/**
+ * Returns the first value, or None for an empty iterator. Unlike `find`,
+ * this tells an empty iterator apart from a first value that is `undefined`.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @returns Promise resolving to the first value or None
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([undefined, 1]).first();
+ * // result: undefined (not None)
+ * ```
+ */
+export async function first<Value>(
+  iterator: BaseIterator<Value>
+): Promise<Option<Value>> {
+  for await (const value of iterator) {
+    return value;
+  }
+  return None;
+}
+
+/**
+ * Returns the last value, or None for an empty iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read completely
+ * @returns Promise resolving to the last value or None
+ *
+ * @example
+ * ```ts
+ * const result = await iterup([1, 2, 3]).last();
+ * // result: 3
+ * ```
+ */
+export async function last<Value>(
+  iterator: BaseIterator<Value>
+): Promise<Option<Value>> {
+  let result: Option<Value> = None;
+  for await (const value of iterator) {
+    result = value;
+  }
+  return result;
+}
+
+/**
+ * Returns the value at the given zero-based position, or None when the
+ * iterator is shorter. Reading stops at that position.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @param n - The zero-based position of the value
+ * @returns Promise resolving to the value or None
+ * @throws {RangeError} If n is not a non-negative integer
+ *
+ * @example
+ * ```ts
+ * const result = await iterup(['a', 'b', 'c']).nth(1);
+ * // result: 'b'
+ * ```
+ */
+export async function nth<Value>(
+  iterator: BaseIterator<Value>,
+  n: number
+): Promise<Option<Value>> {
+  if (!(Number.isInteger(n) && n >= 0))
+    throw new RangeError("nth requires a non-negative integer index");
+  let index = 0;
+  for await (const value of iterator) {
+    if (index++ === n) return value;
+  }
+  return None;
+}
+
+/**
+ * What `buffer` does when a value arrives while the buffer is full:
+ * - `"block"` stops reading until the consumer catches up
+ * - `"drop-oldest"` discards the oldest buffered value
+ * - `"drop-newest"` discards the arriving value
+ * - `"error"` fails with a `BufferOverflowError`
+ */
+export type OverflowStrategy =
+  | "block"
+  | "drop-oldest"
+  | "drop-newest"
+  | "error";
+
+/**
+ * Options for the `buffer` adapter.
+ */
+export type BufferOptions = SchedulerOptions & {
+  /** What to do when the buffer is full (default: "block") */
+  overflow?: OverflowStrategy;
+};
+
+/**
+ * Reads values from the source in the background and keeps up to `size` of
+ * them ready, so a slow source and a slow consumer can work at the same
+ * time. Reading starts with the first request for a value. The `overflow`
+ * strategy decides what happens when the buffer is full; the dropping and
+ * error strategies keep reading, which suits push-style sources that
+ * produce values whether or not anyone reads them. While the buffer is full
+ * they wait for the scheduler before each read, so a source that never
+ * waits on its own cannot starve timers and I/O.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read ahead from
+ * @param size - The maximum number of buffered values
+ * @param options - The overflow strategy and the scheduler to wait on
+ * @returns Async iterator of the buffered values
+ * @throws {RangeError} If size is not a positive integer
+ *
+ * @example
+ * ```ts
+ * await iterup(ticker)
+ *   .buffer(100, { overflow: "drop-oldest" })
+ *   .forEach(render);
+ * ```
+ */
+export async function* buffer<Value>(
+  iterator: BaseIterator<Value>,
+  size: number,
+  { overflow = "block", scheduler = systemScheduler }: BufferOptions = {}
+): BaseAsyncIterator<Value> {
+  checkSize(size, "size");
+  const source = iteratorOf(iterator);
+  const queue: Value[] = [];
+  let done = false;
+  let stopped = false;
+  let failure: { error: unknown } | undefined;
+  let pending: Promise<IteratorResult<Value>> | undefined;
+  let wakeReader = () => {};
+  let wakeConsumer = () => {};
+
+  const read = async () => {
+    try {
+      while (!stopped) {
+        if (queue.length >= size) {
+          if (overflow === "block") {
+            await new Promise<void>((resolve) => (wakeReader = resolve));
+            continue;
+          }
+          await sleep(0, scheduler);
+          if (stopped) return;
+        }
+        pending = Promise.resolve(source.next());
+        const result = await pending.catch((error) => {
+          done = true;
+          throw error;
+        });
+        pending = undefined;
+        if (result.done) {
+          done = true;
+          return;
+        }
+        if (queue.length >= size) {
+          if (overflow === "drop-newest") continue;
+          if (overflow === "error") {
+            queue.length = 0;
+            throw new BufferOverflowError(
+              `buffer of ${size} values overflowed`,
+              size
+            );
+          }
+          queue.shift();
+        }
+        queue.push(result.value);
+        wakeConsumer();
+      }
+    } catch (error) {
+      failure = { error };
+    } finally {
+      wakeConsumer();
+    }
+  };
+
+  let reading: Promise<void> | undefined;
+  try {
+    for (;;) {
+      reading ??= read();
+      if (queue.length > 0) {
+        const value = queue.shift() as Value;
+        wakeReader();
+        yield value;
+        continue;
+      }
+      if (failure) throw failure.error;
+      if (done) return;
+      await new Promise<void>((resolve) => (wakeConsumer = resolve));
+    }
+  } finally {
+    stopped = true;
+    wakeReader();
+    if (!done) await closeStalled(source, pending);
+  }
+}
+
+/**
+ * Reads up to `size` values ahead of the consumer, waiting whenever that
+ * many values are ready. Equivalent to `buffer(size)` with the `"block"`
+ * strategy.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read ahead from
+ * @param size - The maximum number of values read ahead
+ * @returns Async iterator of the same values
+ * @throws {RangeError} If size is not a positive integer
+ *
+ * @example
+ * ```ts
+ * // Download the next pages while the current one is processed
+ * await iterup(pageUrls).map(download).prefetch(3).forEach(process);
+ * ```
+ */
+export function prefetch<Value>(
+  iterator: BaseIterator<Value>,
+  size: number
+): BaseAsyncIterator<Value> {
+  return buffer(iterator, size);
+}
+
+/**
+ * Applies a function to each element and an accumulator, returning the final value.
+ * This is a fundamental operation for building other aggregation functions.
+ *
+ * @template Value - The type of values in the iterator
+ * @template NewValue - The type of the accumulator and return value
+ * @param iterator - The iterator to fold over
+ * @param initialValue - The initial value for the accumulator
+ * @param f - Function that takes (accumulator, value) and returns the new accumulator
+ * @returns Promise resolving to the final accumulated value
+ *
+ * @example
+ * ```ts
+ * // Sum using fold
+ * const sum = await fold([1, 2, 3, 4], 0, (acc, val) => acc + val);
+ * // result: 10
+ *
+ * // Build a string
+ * const sentence = await fold(['Hello', 'world'], '', (acc, word) =>
+ *   acc === '' ? word : `${acc} ${word}`
+ * );
+ * // result: "Hello world"
+ * ```
+ */
+export async function fold<Value, NewValue>(
+  iterator: BaseIterator<Value>,
+  initialValue: NewValue,
+  f: (accumulator: NewValue, value: Value) => NewValue | Promise<NewValue>
+): Promise<NewValue> {
+  let accumulator = initialValue;
+  for await (const value of iterator) {
+    accumulator = await f(accumulator, value);
+  }
+
+  return accumulator;
+}
+
+/**
+ * Reduces the iterator to a single value using the provided function.
+ * Unlike fold, reduce uses the first element as the initial accumulator value.
+ * Returns undefined if the iterator is empty.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to reduce
+ * @param f - Function that takes (accumulator, value) and returns the new accumulator
+ * @returns Promise resolving to the reduced value or undefined if empty
+ *
+ * @example
+ * ```ts
+ * // Sum using reduce
+ * const sum = await reduce([1, 2, 3, 4], (acc, val) => acc + val);
+ * // result: 10
+ *
+ * // Find maximum
+ * const max = await reduce([5, 2, 8, 1, 9], (acc, val) => acc > val ? acc : val);
+ * // result: 9
+ * ```
+ */
+export async function reduce<Value>(
+  iterator: BaseIterator<Value>,
+  f: (accumulator: Value, value: Value) => Value | Promise<Value>
+): Promise<Value | undefined> {
+  if (isIterable(iterator)) {
+    iterator = iteratorFrom(iterator);
+  }
+
+  const firstResult = unwrapResult(
+    await (iterator as BaseAsyncIterator<Value>).next()
   );
   if (firstResult === None) {
     return undefined;
@@ -573,7 +4569,9 @@ export async function reduce<Value>(
  *
  * @template Value - The type of values in the iterator
  * @param iterator - The iterator to iterate over
- * @param f - Function to execute for each value (can be async; not awaited)
+ * @param f - Function to execute for each value (async supported)
+ * @param options - Concurrency options for async callbacks (default: one at a time)
+ * @param options.concurrency - Maximum number of callbacks in flight at once
  * @returns Promise that resolves when all elements have been iterated
  *
  * @example
@@ -587,10 +4585,103 @@ export async function reduce<Value>(
  */
 export async function forEach<Value>(
   iterator: BaseIterator<Value>,
-  f: (value: Value) => void | Promise<void>
+  f: (value: Value) => void | Promise<void>,
+  { concurrency = 1 }: Omit<ConcurrencyOptions, "ordered"> = {}
 ): Promise<void> {
+  if (concurrency !== 1) {
+    const results = concurrentMap(iterator, f, { concurrency, ordered: false });
+    for await (const _ of results) {
+      // f is only run for its side effects
+    }
+    return;
+  }
+
   await fold(iterator, undefined, async (_, value) => {
     await f(value);
     return undefined;
   });
 }
+
+/**
+ * Creates a `ReadableStream` that pulls its values from the iterator. Values
+ * are only read when the stream wants more, so the stream's backpressure
+ * reaches the source. Cancelling the stream closes the iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @param strategy - Queuing strategy of the stream (default: one value ahead)
+ * @returns A readable stream of the values
+ *
+ * @example
+ * ```ts
+ * const body = toReadableStream(lines).pipeThrough(new TextEncoderStream());
+ * await fetch(url, { method: "POST", body, duplex: "half" });
+ * ```
+ */
+export function toReadableStream<Value>(
+  iterator: BaseIterator<Value>,
+  strategy?: QueuingStrategy<Value>
+): ReadableStream<Value> {
+  const source = iteratorOf(iterator);
+  return new ReadableStream<Value>(
+    {
+      async pull(controller) {
+        const result = await source.next();
+        if (result.done) controller.close();
+        else controller.enqueue(result.value);
+      },
+      async cancel(reason) {
+        await source.return?.(reason);
+      },
+    },
+    strategy
+  );
+}
+
+/**
+ * Options for `pipeTo`.
+ */
+export type PipeToOptions = {
+  /** Leaves the stream open when the iterator finishes */
+  preventClose?: boolean;
+  /** Leaves the stream usable when the iterator or the pipe fails */
+  preventAbort?: boolean;
+};
+
+/**
+ * Writes every value to a `WritableStream`, waiting whenever the stream
+ * signals backpressure. The stream is closed once the iterator finishes and
+ * aborted when it fails; if the stream fails, the iterator is closed.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to write
+ * @param writable - The stream to write to
+ * @param options - Whether to leave the stream open or usable afterwards
+ * @returns Promise that resolves once every value is written
+ *
+ * @example
+ * ```ts
+ * await iterup(chunks).pipeTo(fileHandle.createWritable());
+ * ```
+ */
+export async function pipeTo<Value>(
+  iterator: BaseIterator<Value>,
+  writable: WritableStream<Value>,
+  { preventClose = false, preventAbort = false }: PipeToOptions = {}
+): Promise<void> {
+  const writer = writable.getWriter();
+  try {
+    for await (const value of iterator) {
+      await writer.ready;
+      // Failed writes also reject `ready` and `close`
+      writer.write(value).catch(() => {});
+    }
+    if (preventClose) await writer.ready;
+    else await writer.close();
+  } catch (error) {
+    if (!preventAbort) await writer.abort(error).catch(() => {});
+    throw error;
+  } finally {
+    writer.releaseLock();
+  }
+}
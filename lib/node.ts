@@ -0,0 +1,140 @@
+/**
+ * Interop with Node.js streams, published as `@jhel/iterup/node` so the main
+ * entry point stays free of Node built-ins.
+ *
+ * Iterup instances are async iterables, so they can be passed to
+ * `stream.pipeline` as a source or returned from a transform step. Errors
+ * and early exits travel both ways: a failing stream closes the iterator
+ * chain, and a failing iterator destroys the stream.
+ *
+ * @example
+ * ```ts
+ * import { pipeline } from "node:stream/promises";
+ * import { fromNodeReadable } from "@jhel/iterup/node";
+ *
+ * await pipeline(
+ *   createReadStream("data.csv"),
+ *   csvParser(),
+ *   (rows) => fromNodeReadable<Row>(rows).filter(isValid).map(toLine),
+ *   createWriteStream("clean.csv")
+ * );
+ * ```
+ */
+
+import { Readable, type Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+import {
+  iterup,
+  type BaseAsyncIterator,
+  type BaseIterator,
+  type Iterup,
+} from "./core";
+
+/**
+ * Options for `toNodeReadable`.
+ */
+export type NodeReadableOptions = {
+  /** The number of values the stream reads ahead (default: 16) */
+  highWaterMark?: number;
+};
+
+/**
+ * Options for `pipeToNode`.
+ */
+export type PipeToNodeOptions = {
+  /** Ends the stream once the iterator finishes (default: true) */
+  end?: boolean;
+};
+
+/**
+ * Creates an Iterup instance from a Node `Readable`, or any async iterable
+ * handed to a `stream.pipeline` step. Stopping early destroys the stream and
+ * stream errors are thrown by the iterator.
+ *
+ * @template Value - The type of chunks in the stream
+ * @param readable - The stream to read
+ * @returns An Iterup instance yielding the chunks
+ *
+ * @example
+ * ```ts
+ * const header = await fromNodeReadable<string>(lines).first();
+ * ```
+ */
+export function fromNodeReadable<Value = unknown>(
+  readable: Readable | AsyncIterable<Value>
+): Iterup<Value> {
+  const iterator = (readable as AsyncIterable<Value>)[Symbol.asyncIterator]();
+  return iterup(iterator as BaseAsyncIterator<Value>);
+}
+
+/**
+ * Creates an object-mode `Readable` that pulls values from the iterator. The
+ * stream only reads ahead up to `highWaterMark` values, and destroying it
+ * closes the iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @param options - How many values to read ahead
+ * @returns An object-mode readable stream of the values
+ *
+ * @example
+ * ```ts
+ * toNodeReadable(iterup(rows).map(toJsonLine)).pipe(process.stdout);
+ * ```
+ */
+export function toNodeReadable<Value>(
+  iterator: BaseIterator<Value>,
+  { highWaterMark = 16 }: NodeReadableOptions = {}
+): Readable {
+  return Readable.from(iterator, { objectMode: true, highWaterMark });
+}
+
+/**
+ * Writes every value to a Node `Writable`, waiting for `drain` whenever
+ * `write` reports a full buffer. The stream is ended once the iterator
+ * finishes and destroyed when it fails; if the stream fails or closes early,
+ * the iterator is closed.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to write
+ * @param writable - The stream to write to
+ * @param options - Whether to end the stream afterwards
+ * @returns Promise that resolves once every value is written
+ *
+ * @example
+ * ```ts
+ * await pipeToNode(iterup(rows).map(toLine), createWriteStream("out.txt"));
+ * ```
+ */
+export async function pipeToNode<Value>(
+  iterator: BaseIterator<Value>,
+  writable: Writable,
+  { end = true }: PipeToNodeOptions = {}
+): Promise<void> {
+  const closed = finished(writable);
+  closed.catch(() => {});
+  const ended = closed.then(() => {
+    throw new Error("Writable closed before all values were written");
+  });
+  ended.catch(() => {});
+
+  let onDrain = () => {};
+  try {
+    for await (const value of iterator) {
+      if (!writable.write(value)) {
+        const drained = new Promise<void>((resolve) => (onDrain = resolve));
+        writable.once("drain", onDrain);
+        await Promise.race([drained, ended]);
+      }
+    }
+  } catch (error) {
+    writable.destroy(error as Error);
+    throw error;
+  } finally {
+    writable.off("drain", onDrain);
+  }
+  if (end) {
+    writable.end();
+    await closed;
+  }
+}
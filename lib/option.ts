@@ -0,0 +1,116 @@
+/**
+ * Helpers for working with `Option` values.
+ *
+ * An `Option<T>` is either a value of type `T` or the `None` sentinel, so
+ * unlike `undefined` it can tell "no value" apart from a value that happens
+ * to be `undefined`. These helpers narrow, transform and unwrap Options
+ * without comparing against `None` by hand.
+ */
+
+import { None, type Option } from "./core";
+
+/**
+ * Marks a value as present. Options are not boxed, so this returns the value
+ * itself typed as an Option.
+ *
+ * @template Value - The type of the value
+ * @param value - The present value
+ * @returns The value as an Option
+ */
+export function Some<Value>(value: Value): Option<Value> {
+  return value;
+}
+
+/**
+ * Type guard checking whether an Option holds a value.
+ *
+ * @template Value - The type of the value
+ * @param option - The Option to check
+ * @returns True if the Option is not None
+ *
+ * @example
+ * ```ts
+ * const values = options.filter(isSome);
+ * ```
+ */
+export function isSome<Value>(
+  option: Option<Value>
+): option is Exclude<Value, None> {
+  return option !== None;
+}
+
+/**
+ * Type guard checking whether an Option is None.
+ *
+ * @template Value - The type of the value
+ * @param option - The Option to check
+ * @returns True if the Option is None
+ */
+export function isNone<Value>(option: Option<Value>): option is None {
+  return option === None;
+}
+
+/**
+ * Returns the value of an Option, or the fallback when it is None.
+ *
+ * @template Value - The type of the value
+ * @template Fallback - The type of the fallback
+ * @param option - The Option to unwrap
+ * @param fallback - The value returned for None
+ * @returns The value or the fallback
+ *
+ * @example
+ * ```ts
+ * const name = unwrapOr(await iterup(users).map(u => u.name).first(), "nobody");
+ * ```
+ */
+export function unwrapOr<Value, Fallback>(
+  option: Option<Value>,
+  fallback: Fallback
+): Exclude<Value, None> | Fallback {
+  return isSome(option) ? option : fallback;
+}
+
+/**
+ * Transforms the value of an Option and keeps None as it is.
+ *
+ * @template Value - The type of the value
+ * @template MapValue - The type of the transformed value
+ * @param option - The Option to transform
+ * @param f - Function applied to the value
+ * @returns The transformed Option
+ *
+ * @example
+ * ```ts
+ * mapOption(2, x => x * 2); // 4
+ * mapOption(None, x => x * 2); // None
+ * ```
+ */
+export function mapOption<Value, MapValue>(
+  option: Option<Value>,
+  f: (value: Exclude<Value, None>) => Option<MapValue>
+): Option<MapValue> {
+  return isSome(option) ? f(option) : None;
+}
+
+/**
+ * Returns the Option itself when it holds a value, otherwise the Option
+ * produced by the function.
+ *
+ * @template Value - The type of the value
+ * @template Other - The type of the alternative value
+ * @param option - The Option to check
+ * @param f - Function producing the alternative Option
+ * @returns The first Option holding a value, or None
+ *
+ * @example
+ * ```ts
+ * const config = orElse(fromEnv(), () => fromFile());
+ * ```
+ */
+export function orElse<Value, Other>(
+  option: Option<Value>,
+  f: () => Option<Other>
+): Option<Value | Other> {
+  return isSome(option) ? option : f();
+}
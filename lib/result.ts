@@ -0,0 +1,85 @@
+/**
+ * The Result type, the counterpart of `Option` for operations that can fail.
+ *
+ * A Result is a plain record that is either `{ ok: true, value }` or
+ * `{ ok: false, error }`, so it survives `JSON.stringify`, structured clone
+ * and `toEqual` comparisons. Iterup methods like `tryMap`, `filterOk` and
+ * `collectResult` produce and consume Results.
+ */
+
+/**
+ * Successful outcome holding a value.
+ *
+ * @template Value - The type of the value
+ */
+export type Ok<Value> = { ok: true; value: Value };
+
+/**
+ * Failed outcome holding an error.
+ *
+ * @template ErrorValue - The type of the error
+ */
+export type Err<ErrorValue> = { ok: false; error: ErrorValue };
+
+/**
+ * Outcome of an operation that either produced a value or failed with an
+ * error.
+ *
+ * @template Value - The type of the value on success
+ * @template ErrorValue - The type of the error on failure
+ *
+ * @example
+ * ```ts
+ * function parse(row: string): Result<number, string> {
+ *   const value = Number(row);
+ *   return Number.isNaN(value) ? Err(`not a number: ${row}`) : Ok(value);
+ * }
+ * ```
+ */
+export type Result<Value, ErrorValue = unknown> = Ok<Value> | Err<ErrorValue>;
+
+/**
+ * Creates a successful Result.
+ *
+ * @template Value - The type of the value
+ * @param value - The value to wrap
+ * @returns `{ ok: true, value }`
+ */
+export function Ok<Value>(value: Value): Ok<Value> {
+  return { ok: true, value };
+}
+
+/**
+ * Creates a failed Result.
+ *
+ * @template ErrorValue - The type of the error
+ * @param error - The error to wrap
+ * @returns `{ ok: false, error }`
+ */
+export function Err<ErrorValue>(error: ErrorValue): Err<ErrorValue> {
+  return { ok: false, error };
+}
+
+/**
+ * Type guard checking whether a Result is successful.
+ *
+ * @param result - The Result to check
+ * @returns True if the Result holds a value
+ */
+export function isOk<Value, ErrorValue>(
+  result: Result<Value, ErrorValue>
+): result is Ok<Value> {
+  return result.ok;
+}
+
+/**
+ * Type guard checking whether a Result failed.
+ *
+ * @param result - The Result to check
+ * @returns True if the Result holds an error
+ */
+export function isErr<Value, ErrorValue>(
+  result: Result<Value, ErrorValue>
+): result is Err<ErrorValue> {
+  return !result.ok;
+}
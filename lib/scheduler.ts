@@ -0,0 +1,105 @@
+/**
+ * Schedulers decide how time passes for the time-based adapters like
+ * `throttle`, `debounce`, `delay` and `sample`.
+ *
+ * The adapters use `systemScheduler` by default, which is backed by
+ * `Date.now()` and `setTimeout`. Tests can pass a `virtualScheduler()`
+ * instead and move its clock forward explicitly, so they run without
+ * waiting for real timers.
+ */
+
+/**
+ * Source of time used by the time-based adapters.
+ */
+export type Scheduler = {
+  /** Returns the current time in milliseconds */
+  now(): number;
+  /**
+   * Runs the callback once `ms` milliseconds have passed and returns a
+   * function that cancels it
+   */
+  schedule(callback: () => void, ms: number): () => void;
+};
+
+/**
+ * Options accepted by the time-based adapters.
+ */
+export type SchedulerOptions = {
+  /** The scheduler used to measure and wait for time (default: systemScheduler) */
+  scheduler?: Scheduler;
+};
+
+/**
+ * A scheduler whose clock only moves when `advance` is called.
+ */
+export type VirtualScheduler = Scheduler & {
+  /**
+   * Moves the clock forward, running every callback that becomes due in
+   * order and letting pending promises settle in between
+   */
+  advance(ms: number): Promise<void>;
+};
+
+/**
+ * Scheduler backed by `Date.now()` and `setTimeout`.
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  schedule(callback, ms) {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  },
+};
+
+/**
+ * Lets pending promise callbacks run before time moves on.
+ */
+function settle() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Creates a scheduler with a virtual clock for tests.
+ *
+ * @param start - The initial time in milliseconds (default: 0)
+ * @returns A scheduler that only moves forward when `advance` is called
+ *
+ * @example
+ * ```ts
+ * const scheduler = virtualScheduler();
+ * const result = iterup([1, 2]).delay(1000, { scheduler }).collect();
+ * await scheduler.advance(2000);
+ * await result; // [1, 2] without waiting two seconds
+ * ```
+ */
+export function virtualScheduler(start = 0): VirtualScheduler {
+  let now = start;
+  let order = 0;
+  let timers: { at: number; order: number; callback: () => void }[] = [];
+
+  return {
+    now: () => now,
+    schedule(callback, ms) {
+      const timer = { at: now + Math.max(ms, 0), order: order++, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter((other) => other !== timer);
+      };
+    },
+    async advance(ms) {
+      const target = now + ms;
+      for (;;) {
+        await settle();
+        const [next] = timers
+          .filter((timer) => timer.at <= target)
+          .sort((a, b) => a.at - b.at || a.order - b.order);
+        if (!next) break;
+        timers = timers.filter((timer) => timer !== next);
+        now = next.at;
+        next.callback();
+      }
+      now = target;
+      await settle();
+    },
+  };
+}
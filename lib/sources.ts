@@ -0,0 +1,291 @@
+/**
+ * Adapters turning push-based sources and streams into async iterators.
+ *
+ * Event targets, event emitters and channels produce values whether or not
+ * anyone is reading, so each adapter queues values until the consumer asks
+ * for them. Listeners are attached on the first read and removed as soon as
+ * the consumer stops, whether it finishes, breaks out early or fails.
+ * Readable streams are pulled instead and their reader lock is released the
+ * same way.
+ */
+
+import type { BaseAsyncIterator } from "./core";
+import { BufferOverflowError } from "./errors";
+import { checkSize, type OverflowStrategy } from "./methods";
+
+/**
+ * Options for the queue of a push-based source.
+ */
+export type ChannelOptions = {
+  /** The maximum number of queued values (default: 16) */
+  bufferSize?: number;
+  /**
+   * What to do when a value arrives while the queue is full (default:
+   * "block", which keeps the value until there is room and delays the
+   * promise returned by `send`)
+   */
+  overflow?: OverflowStrategy;
+};
+
+/**
+ * An async iterator that values are pushed into by hand.
+ *
+ * @template Value - The type of values sent through the channel
+ */
+export type Channel<Value> = BaseAsyncIterator<Value> & {
+  /**
+   * Queues a value for the consumer. Resolves with true once the value is
+   * queued, or with false if it was dropped or the channel is finished.
+   */
+  send(value: Value): Promise<boolean>;
+  /** Ends the iterator once the queued values are read */
+  close(): void;
+  /** Fails the iterator with the error once the queued values are read */
+  error(error: unknown): void;
+};
+
+/**
+ * Minimal interface of a Node-style event emitter.
+ */
+export type Emitter = {
+  on(event: string | symbol, listener: (...args: any[]) => void): unknown;
+  off(event: string | symbol, listener: (...args: any[]) => void): unknown;
+};
+
+/**
+ * Options for `fromEmitter`.
+ */
+export type EmitterOptions = ChannelOptions & {
+  /** Events that end the iterator */
+  end?: string | symbol | (string | symbol)[];
+  /** Event whose first argument is thrown by the iterator (default: "error") */
+  error?: string | symbol;
+};
+
+/**
+ * Creates a channel, an async iterator fed with `send` and finished with
+ * `close` or `error`. Sent values wait in a bounded queue until they are
+ * read; the `overflow` strategy decides what happens when it is full.
+ *
+ * @template Value - The type of values sent through the channel
+ * @param options - The queue size and overflow strategy
+ * @returns A channel to send values into and iterate over
+ * @throws {RangeError} If bufferSize is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const messages = channel<string>();
+ * socket.onmessage = (event) => messages.send(event.data);
+ * socket.onclose = () => messages.close();
+ *
+ * await iterup(messages).forEach(handle);
+ * ```
+ */
+export function channel<Value>({
+  bufferSize = 16,
+  overflow = "block",
+}: ChannelOptions = {}): Channel<Value> {
+  checkSize(bufferSize, "bufferSize");
+  const queue: Value[] = [];
+  const blocked: { value: Value; resolve: (sent: boolean) => void }[] = [];
+  let closed = false;
+  let stopped = false;
+  let failure: { error: unknown } | undefined;
+  let wake = () => {};
+
+  const admit = () => {
+    while (blocked.length > 0 && queue.length < bufferSize) {
+      const { value, resolve } = blocked.shift()!;
+      queue.push(value);
+      resolve(true);
+    }
+  };
+
+  const fail = (error: unknown) => {
+    if (closed || stopped) return;
+    closed = true;
+    failure = { error };
+    wake();
+  };
+
+  async function* receive(): BaseAsyncIterator<Value> {
+    try {
+      for (;;) {
+        if (queue.length > 0) {
+          const value = queue.shift() as Value;
+          admit();
+          yield value;
+          continue;
+        }
+        if (failure) throw failure.error;
+        if (closed) return;
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+    } finally {
+      stopped = true;
+      queue.length = 0;
+      for (const { resolve } of blocked.splice(0)) resolve(false);
+    }
+  }
+
+  return Object.assign(receive(), {
+    send(value: Value) {
+      if (closed || stopped) return Promise.resolve(false);
+      if (queue.length < bufferSize) {
+        queue.push(value);
+        wake();
+        return Promise.resolve(true);
+      }
+      switch (overflow) {
+        case "block":
+          return new Promise<boolean>((resolve) =>
+            blocked.push({ value, resolve })
+          );
+        case "drop-oldest":
+          queue.shift();
+          queue.push(value);
+          return Promise.resolve(true);
+        case "drop-newest":
+          return Promise.resolve(false);
+        case "error":
+          queue.length = 0;
+          fail(
+            new BufferOverflowError(
+              `channel of ${bufferSize} values overflowed`,
+              bufferSize
+            )
+          );
+          return Promise.resolve(false);
+      }
+    },
+    close() {
+      closed = true;
+      wake();
+    },
+    error: fail,
+  });
+}
+
+/**
+ * Yields the events of the given type dispatched on an `EventTarget`, such
+ * as DOM elements, `WebSocket` or `AbortSignal`. The iterator never ends on
+ * its own; use `take`, `takeUntil` or a signal to stop it.
+ *
+ * @template EventValue - The type of the dispatched events
+ * @param target - The target to listen on
+ * @param type - The event type to listen for
+ * @param options - The queue size and overflow strategy
+ * @returns Async iterator of the dispatched events
+ *
+ * @example
+ * ```ts
+ * for await (const click of fromEventTarget(button, "click")) {
+ *   console.log(click.clientX);
+ * }
+ * ```
+ */
+export async function* fromEventTarget<EventValue extends Event = Event>(
+  target: EventTarget,
+  type: string,
+  options?: ChannelOptions
+): BaseAsyncIterator<EventValue> {
+  const events = channel<EventValue>(options);
+  const listener = (event: Event) => void events.send(event as EventValue);
+  target.addEventListener(type, listener);
+  try {
+    yield* events;
+  } finally {
+    target.removeEventListener(type, listener);
+  }
+  return;
+}
+
+/**
+ * Yields the first argument of every `event` emitted by a Node-style event
+ * emitter. The iterator ends when one of the `end` events is emitted and
+ * throws the first argument of the `error` event.
+ *
+ * @template Value - The type of the emitted values
+ * @param emitter - The emitter to listen on
+ * @param event - The event carrying the values
+ * @param options - End and error events, queue size and overflow strategy
+ * @returns Async iterator of the emitted values
+ *
+ * @example
+ * ```ts
+ * const lines = fromEmitter<string>(reader, "line", { end: "close" });
+ * ```
+ */
+export async function* fromEmitter<Value = unknown>(
+  emitter: Emitter,
+  event: string | symbol,
+  { end = [], error = "error", ...options }: EmitterOptions = {}
+): BaseAsyncIterator<Value> {
+  const values = channel<Value>(options);
+  const ends = Array.isArray(end) ? end : [end];
+  const onValue = (value: Value) => void values.send(value);
+  const onEnd = () => values.close();
+  const onError = (reason: unknown) => values.error(reason);
+  emitter.on(event, onValue);
+  for (const name of ends) emitter.on(name, onEnd);
+  emitter.on(error, onError);
+  try {
+    yield* values;
+  } finally {
+    emitter.off(event, onValue);
+    for (const name of ends) emitter.off(name, onEnd);
+    emitter.off(error, onError);
+  }
+  return;
+}
+
+/**
+ * Options for `fromReadableStream`.
+ */
+export type ReadableStreamOptions = {
+  /** Leaves the stream readable when the consumer stops early */
+  preventCancel?: boolean;
+};
+
+/**
+ * Yields the chunks of a `ReadableStream`, such as a fetch body or the
+ * output of a `CompressionStream`. The stream is locked while it is read;
+ * when the consumer stops early the stream is cancelled, unless
+ * `preventCancel` is set, and the lock is released either way.
+ *
+ * @template Value - The type of chunks in the stream
+ * @param stream - The stream to read
+ * @param options - Whether to leave the stream readable on early exit
+ * @returns Async iterator of the chunks
+ *
+ * @example
+ * ```ts
+ * const response = await fetch(url);
+ * for await (const chunk of fromReadableStream(response.body!)) {
+ *   console.log(chunk.byteLength);
+ * }
+ * ```
+ */
+export async function* fromReadableStream<Value>(
+  stream: ReadableStream<Value>,
+  { preventCancel = false }: ReadableStreamOptions = {}
+): BaseAsyncIterator<Value> {
+  const reader = stream.getReader();
+  let done = false;
+  try {
+    for (;;) {
+      const result = await reader.read().catch((error) => {
+        done = true;
+        throw error;
+      });
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done && !preventCancel) await reader.cancel();
+    reader.releaseLock();
+  }
+}
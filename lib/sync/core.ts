@@ -0,0 +1,557 @@
+import {
+  iterup,
+  IterupID,
+  type BaseAsyncIterator,
+  type BaseSyncIterator,
+  type Iterup,
+} from "../core";
+import {
+  BigIntExtensions,
+  Extensions,
+  NumericExtensions,
+  StringExtensions,
+} from "../extensions";
+import type { RangeArgument } from "../methods";
+import { OverrideFunctions, type Overrides } from "../overrides";
+import {
+  isAsyncFunction,
+  isAsyncIterator,
+  isIterable,
+  iteratorFrom,
+} from "../utils";
+import {
+  SyncBigIntExtensions,
+  SyncExtensions,
+  SyncNumericExtensions,
+  SyncStringExtensions,
+  SyncStringTerminals,
+  SyncTerminals,
+} from "./extensions";
+import { range } from "./methods";
+
+/**
+ * Names of the methods implemented synchronously. Any other extension method
+ * is still reachable on an IterupSync instance but promotes the chain to the
+ * async pipeline.
+ */
+type SyncFunctions<Value> =
+  | keyof SyncExtensions<Value>
+  | keyof SyncTerminals<Value>;
+
+type IterupSyncBase<Value> = Omit<
+  BaseSyncIterator<Value>,
+  SyncFunctions<Value> | keyof Extensions<Value>
+> &
+  Overrides<Value> &
+  Omit<Extensions<Value>, SyncFunctions<Value>> &
+  SyncExtensions<Value> &
+  SyncTerminals<Value> & {
+    [IterupID]: {};
+  };
+
+type IterupSyncNumeric<Value extends number> = IterupSyncBase<Value> &
+  Omit<NumericExtensions<Value>, keyof SyncNumericExtensions<Value>> &
+  SyncNumericExtensions<Value>;
+
+type IterupSyncBigInt<Value extends bigint> = IterupSyncBase<Value> &
+  Omit<BigIntExtensions<Value>, keyof SyncBigIntExtensions<Value>> &
+  SyncBigIntExtensions<Value>;
+
+type IterupSyncString<Value extends string> = IterupSyncBase<Value> &
+  SyncStringExtensions<Value> &
+  SyncStringTerminals<Value>;
+
+/**
+ * The synchronous flavour of Iterup. Operations run without creating any
+ * Promises and terminal operations like `collect()` return their result
+ * directly. Passing an async callback or an async iterator to any method
+ * promotes the chain to the async `Iterup` pipeline. So does a callback
+ * that returns a Promise on its first call, in which case the operation
+ * running the chain returns a Promise instead. Like `Iterup`, the value
+ * type is wrapped in a tuple so unions are not split into several types.
+ *
+ * @template Value - The type of values yielded by the iterator
+ */
+export type IterupSync<Value> = [Value] extends [number]
+  ? IterupSyncNumeric<Value>
+  : [Value] extends [bigint]
+  ? IterupSyncBigInt<Value>
+  : [Value] extends [string]
+  ? IterupSyncString<Value>
+  : IterupSyncBase<Value>;
+
+/**
+ * Checks whether the given method arguments can only be handled by the
+ * async pipeline.
+ */
+function requiresAsync(args: any[]) {
+  return args.some((arg) => isAsyncFunction(arg) || isAsyncIterator(arg));
+}
+
+/**
+ * How an IterupSync instance was built: the method called on the instance
+ * before it and its arguments. Used to rebuild the chain on the async
+ * pipeline when a callback turns out to return a Promise.
+ */
+type Stage = {
+  parent?: Stage;
+  /** The iterator the method reads from */
+  source?: BaseSyncIterator<unknown>;
+  prop?: string | symbol;
+  args: unknown[];
+  watch?: Watch;
+};
+
+/**
+ * Tracks the callbacks of a stage until each of them has been called once.
+ * Until then the values read by the stage, from its source and from its
+ * iterator arguments, and the callback results are kept, so the stage can be
+ * replayed asynchronously without calling any callback twice.
+ */
+type Watch = {
+  recording: boolean;
+  /** Values the stage read from its source while recording */
+  recorded: unknown[];
+  /** Values read from each iterator argument while recording, by index */
+  read: unknown[][];
+  /** Results of each callback while recording, by argument index */
+  results: unknown[][];
+  /** Number of callbacks that have not been called yet */
+  pending: number;
+  /** Set once the stage passed a value on while recording */
+  emitted: boolean;
+  /** Set while the stage unwinds to promote, so its iterators stay open */
+  promoting: boolean;
+};
+
+/**
+ * Thrown through the sync pipeline when the first call of a callback
+ * returns a Promise. The method that started the iteration catches it and
+ * continues on the async pipeline; anywhere else it surfaces as the
+ * TypeError it extends.
+ *
+ * @internal
+ */
+export class Promotion extends TypeError {
+  constructor(readonly stage: Stage, method: string) {
+    super(
+      `${method} callback returned a Promise; await a terminal operation or call toAsync() to continue asynchronously`
+    );
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+/**
+ * Checks whether an argument is an iterator that can only be read once, as
+ * opposed to an iterable like an array that can be read again.
+ */
+function isOneShot(value: unknown): value is BaseSyncIterator<unknown> {
+  return (
+    isIterable(value) &&
+    typeof (value as Partial<BaseSyncIterator<unknown>>).next === "function"
+  );
+}
+
+/**
+ * Wraps an iterator read by a watched stage, keeping the values read while
+ * the stage records and leaving the iterator open while it promotes.
+ */
+function recorder(
+  source: BaseSyncIterator<unknown>,
+  watch: Watch,
+  values: unknown[]
+): BaseSyncIterator<unknown> {
+  return {
+    next() {
+      const result = source.next();
+      if (watch.recording && !result.done) values.push(result.value);
+      return result;
+    },
+    return(value?: unknown) {
+      if (watch.promoting) return { done: true, value };
+      return source.return?.(value) ?? { done: true, value };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  } as BaseSyncIterator<unknown>;
+}
+
+/**
+ * Creates the stage for calling `prop` on an instance. When the arguments
+ * contain callbacks, the stage reads its source and iterator arguments
+ * through recorders and gets watched callbacks that throw a Promotion when
+ * their first call returns a Promise. `output` wraps the iterator returned
+ * by the method, noting whether it passed a value on while recording.
+ */
+function stageOf(
+  parent: Stage,
+  source: BaseSyncIterator<unknown>,
+  prop: string | symbol,
+  args: unknown[]
+): {
+  stage: Stage;
+  input: BaseSyncIterator<unknown>;
+  args: unknown[];
+  output: (iterator: BaseSyncIterator<unknown>) => BaseSyncIterator<unknown>;
+} {
+  const stage: Stage = { parent, source, prop, args };
+  const pending = args.filter((arg) => typeof arg === "function").length;
+  if (pending === 0)
+    return { stage, input: source, args, output: (iterator) => iterator };
+
+  const watch: Watch = {
+    recording: true,
+    recorded: [],
+    read: [],
+    results: [],
+    pending,
+    emitted: false,
+    promoting: false,
+  };
+  stage.watch = watch;
+
+  const stop = () => {
+    watch.recording = false;
+    for (const values of [watch.recorded, ...watch.read, ...watch.results]) {
+      if (values) values.length = 0;
+    }
+  };
+
+  const watched = args.map((arg, index) => {
+    if (isOneShot(arg)) {
+      watch.read[index] = [];
+      return recorder(arg, watch, watch.read[index]!);
+    }
+    if (typeof arg !== "function") return arg;
+    const results: unknown[] = [];
+    watch.results[index] = results;
+    let called = false;
+    return function (this: unknown) {
+      if (!watch.recording) return arg.apply(this, arguments);
+      const result = arg.apply(this, arguments);
+      results.push(result);
+      if (isThenable(result)) {
+        // Values passed on would reach the callbacks further down again
+        if (watch.emitted) {
+          throw new TypeError(
+            `${String(
+              prop
+            )} callback returned a Promise after values were passed on; use an async function or call toAsync() before ${String(
+              prop
+            )}`
+          );
+        }
+        watch.promoting = true;
+        throw new Promotion(stage, String(prop));
+      }
+      if (!called) {
+        called = true;
+        if (--watch.pending === 0) stop();
+      }
+      return result;
+    };
+  });
+
+  return {
+    stage,
+    input: recorder(source, watch, watch.recorded),
+    args: watched,
+    output: (iterator) =>
+      ({
+        next(...values: [] | [unknown]) {
+          const result = iterator.next(...values);
+          if (watch.recording && !result.done) watch.emitted = true;
+          return result;
+        },
+        return(value?: unknown) {
+          return iterator.return?.(value) ?? { done: true, value };
+        },
+        [Symbol.iterator]() {
+          return this;
+        },
+      } as BaseSyncIterator<unknown>),
+  };
+}
+
+/**
+ * Iterates the values read before promoting, then the rest of the iterator.
+ */
+function* resume(
+  values: unknown[],
+  iterator: BaseSyncIterator<unknown>
+): Generator<unknown, void, undefined> {
+  yield* values;
+  yield* { [Symbol.iterator]: () => iterator };
+}
+
+/**
+ * Builds the async equivalent of the chain from the stage that promoted up
+ * to `last`. The promoting stage reads the values it had already read
+ * followed by the rest of its source, and its callbacks first return the
+ * results recorded so far. Returns undefined if `last` was not built on
+ * top of that stage.
+ */
+function rebuild(promoted: Stage, last: Stage): any {
+  const stages: Stage[] = [];
+  for (let stage: Stage | undefined = last; stage !== promoted; ) {
+    if (!stage?.parent) return undefined;
+    stages.unshift(stage);
+    stage = stage.parent;
+  }
+
+  const { recorded, read, results } = promoted.watch!;
+  const args = promoted.args.map((arg, index) => {
+    if (isOneShot(arg)) return resume([...read[index]!], arg);
+    if (typeof arg !== "function") return arg;
+    const replay = [...results[index]!];
+    return (...params: unknown[]) =>
+      replay.length > 0 ? replay.shift() : arg(...params);
+  });
+
+  let chain = (iterup(resume([...recorded], promoted.source!)) as any)[
+    promoted.prop!
+  ](...args);
+  for (const stage of stages) chain = chain[stage.prop!](...stage.args);
+  return chain;
+}
+
+/**
+ * Calls `f` and continues on the async pipeline if a callback of the chain
+ * up to `last` promotes while it runs.
+ */
+function promoting(
+  last: Stage,
+  f: () => unknown,
+  promote: (chain: any) => any
+) {
+  try {
+    return f();
+  } catch (error) {
+    const chain = error instanceof Promotion && rebuild(error.stage, last);
+    if (!chain) throw error;
+    return promote(chain);
+  }
+}
+
+/**
+ * Async view of a sync chain, continuing on the async pipeline if a
+ * callback promotes while it is read.
+ */
+async function* asyncView(
+  target: BaseSyncIterator<unknown>,
+  stage: Stage
+): BaseAsyncIterator<unknown> {
+  let done = false;
+  try {
+    for (;;) {
+      let promoted: BaseAsyncIterator<unknown> | undefined;
+      const result = promoting(
+        stage,
+        () => target.next(),
+        (chain) => (promoted = chain)
+      ) as IteratorResult<unknown>;
+      if (promoted) {
+        done = true;
+        yield* promoted;
+        return;
+      }
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) target.return?.();
+  }
+}
+
+/**
+ * Continues the chain on the async pipeline by calling the method of the
+ * same name on an async Iterup wrapping the current iterator.
+ */
+function promote(
+  target: BaseSyncIterator<unknown>,
+  stage: Stage,
+  prop: string | symbol,
+  args: any[]
+) {
+  return (iterup(asyncView(target, stage)) as any)[prop](...args);
+}
+
+/**
+ * Creates an IterupSync instance from a sync iterator by wrapping it with
+ * extension methods and overrides using a Proxy.
+ *
+ * @template Value - The type of values yielded by the iterator
+ * @param iterator - The sync iterator to wrap
+ * @param stage - How the iterator was built
+ * @returns An enhanced IterupSync instance with additional methods
+ *
+ * @internal This function is used internally by the iterupSync function
+ */
+export function fromSyncIterator<Value>(
+  iterator: BaseSyncIterator<Value>,
+  stage: Stage = { args: [] }
+): IterupSync<Value> {
+  // Set once a direct next() call promotes; every access goes there after
+  let promoted: any;
+
+  const proxy = new Proxy(iterator, {
+    get(target, prop, receiver) {
+      if (promoted) {
+        const value = promoted[prop];
+        return value instanceof Function ? value.bind(promoted) : value;
+      }
+
+      if (
+        Object.hasOwn(SyncExtensions, prop) ||
+        Object.hasOwn(SyncStringExtensions, prop)
+      ) {
+        const extension =
+          SyncExtensions[prop as keyof typeof SyncExtensions] ??
+          SyncStringExtensions[prop as keyof typeof SyncStringExtensions];
+        return function (...args: any[]) {
+          if (requiresAsync(args)) return promote(target, stage, prop, args);
+          const next = stageOf(stage, target, prop, args);
+          return fromSyncIterator(
+            next.output(extension.apply(null, [next.input, ...next.args])),
+            next.stage
+          );
+        };
+      }
+
+      if (
+        Object.hasOwn(SyncTerminals, prop) ||
+        Object.hasOwn(SyncStringTerminals, prop) ||
+        Object.hasOwn(SyncNumericExtensions, prop) ||
+        Object.hasOwn(SyncBigIntExtensions, prop)
+      ) {
+        const terminal =
+          SyncTerminals[prop as keyof typeof SyncTerminals] ??
+          SyncStringTerminals[prop as keyof typeof SyncStringTerminals] ??
+          SyncNumericExtensions[prop as keyof typeof SyncNumericExtensions] ??
+          SyncBigIntExtensions[prop as keyof typeof SyncBigIntExtensions];
+        return function (...args: any[]) {
+          if (prop === "toAsync") return iterup(asyncView(target, stage));
+          if (requiresAsync(args)) return promote(target, stage, prop, args);
+          const next = stageOf(stage, target, prop, args);
+          return promoting(
+            next.stage,
+            () => terminal.apply(null, [next.input, ...next.args]),
+            (chain) => chain
+          );
+        };
+      }
+
+      if (
+        Object.hasOwn(Extensions, prop) ||
+        Object.hasOwn(NumericExtensions, prop) ||
+        Object.hasOwn(BigIntExtensions, prop) ||
+        Object.hasOwn(StringExtensions, prop)
+      ) {
+        return function (...args: any[]) {
+          return promote(target, stage, prop, args);
+        };
+      }
+
+      // Lets `for await` continue asynchronously when a callback promotes
+      if (prop === Symbol.asyncIterator) {
+        return () => asyncView(target, stage);
+      }
+
+      if (prop === "next") {
+        return function (...args: any[]) {
+          return promoting(
+            stage,
+            () => target.next(...(args as [])),
+            (chain) => (promoted = chain).next()
+          );
+        };
+      }
+
+      const value = target[prop as keyof typeof target];
+      if (value instanceof Function) {
+        return function (this: any, ...args: any[]) {
+          const func = (value as any).apply(
+            this === receiver ? target : this,
+            args
+          );
+          if (OverrideFunctions.has(prop as OverrideFunctions<Value>)) {
+            return iterupSync(func);
+          }
+          return func;
+        };
+      }
+      return value;
+    },
+  });
+  Object.defineProperty(proxy, IterupID, {});
+
+  return proxy as unknown as IterupSync<Value>;
+}
+
+/**
+ * Creates a synchronous Iterup instance from any iterable, iterator or range.
+ * The chain stays synchronous, never creating Promises, until an async
+ * callback or async source promotes it to the async `Iterup` pipeline.
+ * Passing an async iterator returns an async Iterup right away.
+ *
+ * @overload
+ * @param range - Range configuration object to create a numeric sequence
+ * @returns An IterupSync instance yielding numbers in the specified range
+ *
+ * @overload
+ * @param collection - An async iterator, which promotes to the async pipeline
+ * @returns An async Iterup instance
+ *
+ * @overload
+ * @param collection - Any iterator or iterable to enhance
+ * @returns An IterupSync instance with functional programming methods
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4])
+ *   .map(x => x * 2)
+ *   .filterMap(x => x > 4 ? x : None)
+ *   .collect();
+ * // result: [6, 8]
+ *
+ * // An async callback switches to the async pipeline
+ * const promoted = await iterupSync([1, 2, 3])
+ *   .map(async x => x * 2)
+ *   .collect();
+ * // result: [2, 4, 6]
+ * ```
+ */
+export function iterupSync(range: RangeArgument): IterupSync<number>;
+export function iterupSync<Value>(
+  collection: BaseAsyncIterator<Value>
+): Iterup<Value>;
+export function iterupSync<Value>(
+  collection: Iterable<Value> | BaseSyncIterator<Value>
+): IterupSync<Value>;
+export function iterupSync<Value>(
+  collection:
+    | Iterable<Value>
+    | BaseSyncIterator<Value>
+    | BaseAsyncIterator<Value>
+    | RangeArgument
+): IterupSync<Value> | Iterup<Value> | IterupSync<number> {
+  if (isAsyncIterator(collection)) {
+    return iterup(collection);
+  }
+  if (isIterable(collection)) {
+    return fromSyncIterator(iteratorFrom(collection));
+  }
+
+  return fromSyncIterator(range(collection));
+}
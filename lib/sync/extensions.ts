@@ -0,0 +1,1207 @@
+/**
+ * Extension methods and type definitions for the IterupSync interface.
+ *
+ * Mirrors `lib/extensions.ts` for synchronous pipelines. Every method has an
+ * overload taking an async callback which promotes the chain to the async
+ * `Iterup` pipeline.
+ */
+
+import type { Collector } from "../collectors";
+import type { BaseIterator, Iterup, None, Option } from "../core";
+import type {
+  ChunksOptions,
+  ComparableKey,
+  ConcurrencyOptions,
+  ExtremumOptions,
+  HistogramBucket,
+  IteratorValues,
+  MinMaxOptions,
+  SumOptions,
+  ToMapOptions,
+  UnzipOptions,
+  VarianceOptions,
+  ZipLongestOptions,
+  ZipLongestValues,
+} from "../methods";
+import type { Result } from "../result";
+import type { IterupSync } from "./core";
+import {
+  approxPercentile,
+  average,
+  chain,
+  chunkBy,
+  chunks,
+  collect,
+  collectResult,
+  concatStrings,
+  countBy,
+  cycle,
+  drop,
+  dropWhile,
+  enumerate,
+  filter,
+  filterErr,
+  filterMap,
+  filterOk,
+  find,
+  findIndex,
+  findLast,
+  findMap,
+  first,
+  flatMap,
+  flattenOptions,
+  fold,
+  forEach,
+  groupBy,
+  histogram,
+  intersperse,
+  intersperseWith,
+  join,
+  last,
+  lines,
+  map,
+  mapWhile,
+  max,
+  maxBy,
+  maxByKey,
+  median,
+  min,
+  minBy,
+  minByKey,
+  minMax,
+  nth,
+  partition,
+  partitionResults,
+  percentile,
+  reduce,
+  roundRobin,
+  skipUntil,
+  split,
+  stddev,
+  sum,
+  take,
+  takeUntil,
+  takeWhile,
+  toAsync,
+  toMap,
+  toObject,
+  toSet,
+  tryMap,
+  variance,
+  windows,
+  unzip,
+  words,
+  zip,
+  zipLongest,
+  zipWith,
+} from "./methods";
+
+/**
+ * Lazy adapters available on IterupSync instances. The results of these
+ * methods are wrapped as IterupSync instances again by the Proxy.
+ *
+ * @template Value - The type of values in the iterator
+ */
+export type SyncExtensions<Value> = {
+  /**
+   * Transforms and filters values in a single operation. Values that transform
+   * to None are filtered out, while others are transformed and kept.
+   * An async callback promotes the chain to the async pipeline.
+   *
+   * @template FilterValue - The type of the transformed values
+   * @param f - Function that transforms values; return None to filter out
+   * @returns Iterator of transformed, non-None values
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3, 4, 5])
+   *   .filterMap(x => x % 2 === 0 ? x * 2 : None)
+   *   .collect();
+   * // result: [4, 8]
+   * ```
+   */
+  filterMap<FilterValue>(
+    f: (value: Value) => Promise<Option<FilterValue>>,
+    options?: ConcurrencyOptions
+  ): Iterup<FilterValue>;
+  filterMap<FilterValue>(
+    f: (value: Value) => Option<FilterValue>
+  ): IterupSync<FilterValue>;
+
+  /**
+   * Yields pairs [value, index] for each element. Index starts at 0.
+   *
+   * @returns Iterator of [value, index]
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync(['a', 'b', 'c'])
+   *   .enumerate()
+   *   .collect();
+   * // result: [['a', 0], ['b', 1], ['c', 2]]
+   * ```
+   */
+  enumerate(): IterupSync<[Value, number]>;
+
+  /**
+   * Transforms each value in the iterator using the provided function.
+   * An async callback promotes the chain to the async pipeline.
+   *
+   * @template MapValue - The type of values after transformation
+   * @param f - Function to transform each value
+   * @returns Iterator of transformed values
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3])
+   *   .map(x => x * 2)
+   *   .collect();
+   * // result: [2, 4, 6]
+   * ```
+   */
+  map<MapValue>(
+    f: (value: Value) => Promise<MapValue>,
+    options?: ConcurrencyOptions
+  ): Iterup<MapValue>;
+  map<MapValue>(f: (value: Value) => MapValue): IterupSync<MapValue>;
+
+  /**
+   * Transforms each value into an iterable and flattens the results.
+   * An async callback promotes the chain to the async pipeline.
+   *
+   * @template MapValue - The type of values in the resulting flattened iterator
+   * @param f - Function that transforms each value into an iterable
+   * @returns Iterator of flattened transformed values
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3])
+   *   .flatMap(x => [x, x * 2])
+   *   .collect();
+   * // result: [1, 2, 2, 4, 3, 6]
+   * ```
+   */
+  flatMap<MapValue>(
+    f: (value: Value) => Promise<BaseIterator<MapValue>>
+  ): Iterup<MapValue>;
+  flatMap<MapValue>(
+    f: (value: Value) => Iterable<MapValue>
+  ): IterupSync<MapValue>;
+
+  /**
+   * Yields only the values that satisfy the predicate function.
+   * Narrows the value type for type guards. An async predicate promotes the
+   * chain to the async pipeline.
+   *
+   * @template FilterValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value
+   * @returns Iterator of values for which f returned true
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3, 4, 5])
+   *   .filter(x => x > 3)
+   *   .collect();
+   * // result: [4, 5]
+   * ```
+   */
+  filter<FilterValue extends Value>(
+    f: (value: Value) => value is FilterValue
+  ): IterupSync<FilterValue>;
+  filter(f: (value: Value) => Promise<boolean>): Iterup<Value>;
+  filter(f: (value: Value) => boolean): IterupSync<Value>;
+
+  /**
+   * Takes only the first n values from the iterator and stops.
+   * If count <= 0, yields an empty sequence.
+   *
+   * @param count - Maximum number of values to take
+   * @returns Iterator with at most count values
+   */
+  take(count: number): IterupSync<Value>;
+
+  /**
+   * Skips the first n values from the iterator and yields the rest.
+   * If count <= 0, yields the original sequence unchanged.
+   *
+   * @param count - Number of values to skip from the beginning
+   * @returns Iterator with the first count values skipped
+   */
+  drop(count: number): IterupSync<Value>;
+
+  /**
+   * Yields values while the predicate returns true and stops at the first value
+   * for which it returns false. The upstream iterator is closed when stopping.
+   *
+   * @param f - Predicate function to test each value
+   * @returns Iterator of the leading values satisfying the predicate
+   */
+  takeWhile(f: (value: Value) => Promise<boolean>): Iterup<Value>;
+  takeWhile(f: (value: Value) => boolean): IterupSync<Value>;
+
+  /**
+   * Skips values while the predicate returns true and yields the first value for
+   * which it returns false along with all remaining values.
+   *
+   * @param f - Predicate function to test each value
+   * @returns Iterator without the leading values satisfying the predicate
+   */
+  dropWhile(f: (value: Value) => Promise<boolean>): Iterup<Value>;
+  dropWhile(f: (value: Value) => boolean): IterupSync<Value>;
+
+  /**
+   * Transforms values until the provided function returns None, then stops.
+   * The upstream iterator is closed when stopping.
+   *
+   * @template MapValue - The type of values after transformation
+   * @param f - Function that transforms values; return None to stop
+   * @returns Iterator of transformed values up to the first None
+   */
+  mapWhile<MapValue>(
+    f: (value: Value) => Promise<Option<MapValue>>
+  ): Iterup<MapValue>;
+  mapWhile<MapValue>(
+    f: (value: Value) => Option<MapValue>
+  ): IterupSync<MapValue>;
+
+  /**
+   * Skips values until the predicate returns true, then yields the matching
+   * value and all remaining values.
+   *
+   * @param f - Predicate function to test each value
+   * @returns Iterator starting at the first value satisfying the predicate
+   */
+  skipUntil(f: (value: Value) => Promise<boolean>): Iterup<Value>;
+  skipUntil(f: (value: Value) => boolean): IterupSync<Value>;
+
+  /**
+   * Yields values until the predicate returns true, then stops without yielding
+   * the matching value. The upstream iterator is closed when stopping.
+   *
+   * @param f - Predicate function to test each value
+   * @returns Iterator of the values before the first value satisfying the predicate
+   */
+  takeUntil(f: (value: Value) => Promise<boolean>): Iterup<Value>;
+  takeUntil(f: (value: Value) => boolean): IterupSync<Value>;
+
+  /**
+   * Groups consecutive values into arrays of the given size. The last chunk
+   * holds the remaining values and may be smaller unless `dropPartial` is set.
+   *
+   * @param size - The number of values per chunk
+   * @param options - Chunk options
+   * @param options.dropPartial - Drop a smaller last chunk (default: false)
+   * @returns Iterator of chunks
+   * @throws {RangeError} If size is not a positive integer
+   */
+  chunks(size: number, options?: ChunksOptions): IterupSync<Value[]>;
+
+  /**
+   * Yields sliding windows of `size` consecutive values, starting a new
+   * window every `step` values. Only full windows are yielded.
+   *
+   * @param size - The number of values per window
+   * @param step - The distance between the starts of two windows (default: 1)
+   * @returns Iterator of windows
+   * @throws {RangeError} If size or step is not a positive integer
+   */
+  windows(size: number, step?: number): IterupSync<Value[]>;
+
+  /**
+   * Groups runs of consecutive values that share the same key.
+   *
+   * @template Key - The type of the keys
+   * @param f - Function returning the key of each value
+   * @returns Iterator of runs with equal keys
+   */
+  chunkBy<Key>(f: (value: Value) => Promise<Key>): Iterup<Value[]>;
+  chunkBy<Key>(f: (value: Value) => Key): IterupSync<Value[]>;
+
+  /**
+   * Repeats the values from the iterator for a specified number of cycles.
+   * The input is consumed and cached during the first cycle; subsequent cycles
+   * replay the cached values. Defaults to infinite cycles.
+   *
+   * @param cycles - Number of times to repeat the sequence (default: Infinity)
+   * @returns Iterator that yields the original values repeatedly
+   */
+  cycle(cycles?: number): IterupSync<Value>;
+
+  /**
+   * Combines the iterator with other iterators element-wise, yielding tuples
+   * until one of them is exhausted. The remaining iterators are closed with
+   * `return()` once one of them ends. Passing an async iterator promotes the
+   * chain to the async pipeline.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators to zip
+   * @returns Iterator of tuples with one value from each iterator
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3])
+   *   .zip(['a', 'b', 'c'])
+   *   .collect();
+   * // result: [[1, 'a'], [2, 'b'], [3, 'c']]
+   * ```
+   */
+  zip<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<[Value, ...IteratorValues<Others>]>;
+  zip<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<[Value, ...IteratorValues<Others>]>;
+
+  /**
+   * Combines the iterator with other iterators element-wise until all of them
+   * are exhausted. Values of iterators that ended early are padded with
+   * `None`, or with the `fill` value when an options object is passed last.
+   * Passing an async iterator promotes the chain to the async pipeline.
+   *
+   * @template Others - The tuple of the other iterators
+   * @template Fill - The type of the padding value
+   * @param args - The other iterators, optionally followed by `{ fill }`
+   * @returns Iterator of tuples with one value or padding per iterator
+   */
+  zipLongest<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<[Option<Value>, ...ZipLongestValues<Others, None>]>;
+  zipLongest<Others extends Iterable<unknown>[], Fill>(
+    ...args: [...iterators: Others, options: ZipLongestOptions<Fill>]
+  ): IterupSync<[Value | Fill, ...ZipLongestValues<Others, Fill>]>;
+  zipLongest<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<[Option<Value>, ...ZipLongestValues<Others, None>]>;
+  zipLongest<Others extends BaseIterator<unknown>[], Fill>(
+    ...args: [...iterators: Others, options: ZipLongestOptions<Fill>]
+  ): Iterup<[Value | Fill, ...ZipLongestValues<Others, Fill>]>;
+
+  /**
+   * Combines the iterator with other iterators element-wise using a function,
+   * yielding its results until one of the iterators is exhausted. An async
+   * function or iterator promotes the chain to the async pipeline.
+   *
+   * @template Others - The tuple of the other iterators
+   * @template Result - The type returned by the function
+   * @param f - Function receiving one value from each iterator
+   * @param iterators - The other iterators to zip
+   * @returns Iterator of the function results
+   */
+  zipWith<Others extends BaseIterator<unknown>[], Result>(
+    f: (value: Value, ...others: IteratorValues<Others>) => Promise<Result>,
+    ...iterators: Others
+  ): Iterup<Result>;
+  zipWith<Others extends Iterable<unknown>[], Result>(
+    f: (value: Value, ...others: IteratorValues<Others>) => Result,
+    ...iterators: Others
+  ): IterupSync<Result>;
+  zipWith<Others extends BaseIterator<unknown>[], Result>(
+    f: (value: Value, ...others: IteratorValues<Others>) => Result,
+    ...iterators: Others
+  ): Iterup<Result>;
+
+  /**
+   * Yields all values of the iterator followed by the values of each of the
+   * given iterators in turn. Passing an async iterator promotes the chain to
+   * the async pipeline.
+   *
+   * @template Others - The tuple of the iterators to append
+   * @param iterators - The iterators to append
+   * @returns Iterator of all values in order
+   */
+  chain<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<Value | IteratorValues<Others>[number]>;
+  chain<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Alias of `chain`.
+   *
+   * @template Others - The tuple of the iterators to append
+   * @param iterators - The iterators to append
+   * @returns Iterator of all values in order
+   */
+  concat<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<Value | IteratorValues<Others>[number]>;
+  concat<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Takes one value from the iterator and each given iterator in turn,
+   * skipping exhausted iterators, until all of them are exhausted. Passing
+   * an async iterator promotes the chain to the async pipeline.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators
+   * @returns Iterator of the interleaved values
+   */
+  roundRobin<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<Value | IteratorValues<Others>[number]>;
+  roundRobin<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Alias of `roundRobin`.
+   *
+   * @template Others - The tuple of the other iterators
+   * @param iterators - The other iterators
+   * @returns Iterator of the interleaved values
+   */
+  interleave<Others extends Iterable<unknown>[]>(
+    ...iterators: Others
+  ): IterupSync<Value | IteratorValues<Others>[number]>;
+  interleave<Others extends BaseIterator<unknown>[]>(
+    ...iterators: Others
+  ): Iterup<Value | IteratorValues<Others>[number]>;
+
+  /**
+   * Yields the separator between every two consecutive values.
+   *
+   * @template Separator - The type of the separator
+   * @param separator - The value placed between values
+   * @returns Iterator of values and separators
+   */
+  intersperse<Separator>(separator: Separator): IterupSync<Value | Separator>;
+
+  /**
+   * Yields the result of the separator function between every two
+   * consecutive values. An async function promotes the chain to the async
+   * pipeline.
+   *
+   * @template Separator - The type returned by the separator function
+   * @param f - Function producing each separator
+   * @returns Iterator of values and separators
+   */
+  intersperseWith<Separator>(
+    f: () => Promise<Separator>
+  ): Iterup<Value | Separator>;
+  intersperseWith<Separator>(f: () => Separator): IterupSync<Value | Separator>;
+
+  /**
+   * Yields the values of the successful Results and drops the failed ones.
+   *
+   * @returns Iterator of the successful values
+   * @throws {TypeError} If the iterator contains values that are not Results
+   */
+  filterOk<OkValue>(
+    this: Iterable<Result<OkValue, unknown>>
+  ): IterupSync<OkValue>;
+
+  /**
+   * Yields the errors of the failed Results and drops the successful ones.
+   *
+   * @returns Iterator of the errors
+   * @throws {TypeError} If the iterator contains values that are not Results
+   */
+  filterErr<ErrorValue>(
+    this: Iterable<Result<unknown, ErrorValue>>
+  ): IterupSync<ErrorValue>;
+
+  /**
+   * Maps each value with a function and captures thrown errors as failed
+   * Results. An async function promotes the chain to the async pipeline.
+   *
+   * @template MapValue - The type returned by the function
+   * @param f - Function to apply to each value
+   * @returns Iterator of `Ok(mapped)` or `Err(error)` per value
+   */
+  tryMap<MapValue>(
+    f: (value: Value) => Promise<MapValue>
+  ): Iterup<Result<MapValue, unknown>>;
+  tryMap<MapValue>(
+    f: (value: Value) => MapValue
+  ): IterupSync<Result<MapValue, unknown>>;
+
+  /**
+   * Yields the values that are not None, narrowing the value type.
+   *
+   * @returns Iterator of the present values
+   */
+  flattenOptions(): IterupSync<Exclude<Value, None>>;
+};
+
+/**
+ * Object mapping lazy adapter names to their synchronous implementations.
+ * Used by the Proxy to dynamically provide extension methods on IterupSync instances.
+ */
+export const SyncExtensions: Record<keyof SyncExtensions<{}>, any> = {
+  filterMap,
+  filter,
+  enumerate,
+  map,
+  flatMap,
+  take,
+  drop,
+  takeWhile,
+  dropWhile,
+  mapWhile,
+  skipUntil,
+  takeUntil,
+  chunks,
+  windows,
+  chunkBy,
+  cycle,
+  zip,
+  zipLongest,
+  zipWith,
+  chain,
+  concat: chain,
+  roundRobin,
+  interleave: roundRobin,
+  intersperse,
+  intersperseWith,
+  filterOk,
+  filterErr,
+  tryMap,
+  flattenOptions,
+};
+
+/**
+ * Terminal operations available on IterupSync instances. These consume the
+ * iterator and return their result directly instead of a Promise.
+ *
+ * @template Value - The type of values in the iterator
+ */
+export type SyncTerminals<Value> = {
+  /**
+   * Finds the first value for which the provided function returns a non-None value.
+   * Returns the transformed value if found, undefined if none match.
+   *
+   * @template FilterValue - The type of the transformed value
+   * @param f - Function that transforms values, returning None to skip or a value to return
+   * @returns The first transformed value or undefined if none found
+   */
+  findMap<FilterValue>(
+    f: (value: Value) => Promise<Option<FilterValue>>
+  ): Promise<FilterValue | undefined>;
+  findMap<FilterValue>(
+    f: (value: Value) => Option<FilterValue>
+  ): FilterValue | undefined;
+
+  /**
+   * Finds the first value that satisfies the predicate function.
+   * Narrows the value type for type guards.
+   *
+   * @template FindValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value
+   * @returns The first matching value or undefined
+   */
+  find<FindValue extends Value>(
+    f: (value: Value) => value is FindValue
+  ): FindValue | undefined;
+  find(f: (value: Value) => Promise<boolean>): Promise<Value | undefined>;
+  find(f: (value: Value) => boolean): Value | undefined;
+
+  /**
+   * Finds the last value that satisfies the predicate function.
+   * Consumes the entire iterator.
+   *
+   * @template FindValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value
+   * @returns The last matching value or undefined
+   */
+  findLast<FindValue extends Value>(
+    f: (value: Value) => value is FindValue
+  ): FindValue | undefined;
+  findLast(f: (value: Value) => Promise<boolean>): Promise<Value | undefined>;
+  findLast(f: (value: Value) => boolean): Value | undefined;
+
+  /**
+   * Finds the index of the first value that satisfies the predicate function.
+   *
+   * @param f - Predicate function to test each value
+   * @returns The index of the first match or -1 if none match
+   */
+  findIndex(f: (value: Value) => Promise<boolean>): Promise<number>;
+  findIndex(f: (value: Value) => boolean): number;
+
+  /**
+   * Collects all values from the iterator using a collector. Without a
+   * collector the values are collected into an array. The collector must not
+   * return Promises; call `toAsync()` first to use an async collector.
+   *
+   * @template Acc - The accumulator type of the collector
+   * @template Result - The result type of the collector
+   * @param collector - The collector building the result (default: array)
+   * @returns The collector's result
+   *
+   * @example
+   * ```ts
+   * const result = iterupSync([1, 2, 3]).collect();
+   * // result: [1, 2, 3]
+   *
+   * const distinct = iterupSync([1, 1, 2]).collect(collectors.toSet());
+   * // result: Set { 1, 2 }
+   * ```
+   */
+  collect(): Array<Value>;
+  collect<Acc, Result>(collector: Collector<Value, Acc, Result>): Result;
+
+  /**
+   * Collects all values from the iterator into an array.
+   * Alias of `collect()` with the default array collector.
+   *
+   * @returns An array containing all yielded values
+   */
+  toArray(): Array<Value>;
+
+  /**
+   * Splits an iterator of pairs into two iterators that can be consumed
+   * independently. Values are buffered for the side that lags behind.
+   *
+   * @template First - The type of the first values of the pairs
+   * @template Second - The type of the second values of the pairs
+   * @param options - Buffering options
+   * @param options.bufferSize - Maximum number of values buffered per side (default: Infinity)
+   * @returns A tuple of two IterupSync instances
+   * @throws {RangeError} If bufferSize is below 1, or when reading ahead would exceed it
+   */
+  unzip<First, Second>(
+    this: Iterable<readonly [First, Second]>,
+    options?: UnzipOptions
+  ): [IterupSync<First>, IterupSync<Second>];
+
+  /**
+   * Groups values into arrays by the key returned from the key function.
+   * Passing an async key function promotes the chain to the async pipeline.
+   *
+   * @template Key - The type of the group keys
+   * @param f - Function returning the group key of each value
+   * @returns A Map from key to the values in that group
+   */
+  groupBy<Key>(f: (value: Value) => Promise<Key>): Promise<Map<Key, Value[]>>;
+  groupBy<Key>(f: (value: Value) => Key): Map<Key, Value[]>;
+
+  /**
+   * Splits values into those that satisfy the predicate and those that don't.
+   * Passing an async predicate promotes the chain to the async pipeline.
+   *
+   * @template PassValue - The narrowed type when f is a type guard
+   * @param f - Predicate function to test each value
+   * @returns A tuple of passing and failing values
+   */
+  partition(f: (value: Value) => Promise<boolean>): Promise<[Value[], Value[]]>;
+  partition<PassValue extends Value>(
+    f: (value: Value) => value is PassValue
+  ): [PassValue[], Exclude<Value, PassValue>[]];
+  partition(f: (value: Value) => boolean): [Value[], Value[]];
+
+  /**
+   * Counts values by the key returned from the key function.
+   * Passing an async key function promotes the chain to the async pipeline.
+   *
+   * @template Key - The type of the count keys
+   * @param f - Function returning the key of each value
+   * @returns A Map from key to the number of values with that key
+   */
+  countBy<Key>(f: (value: Value) => Promise<Key>): Promise<Map<Key, number>>;
+  countBy<Key>(f: (value: Value) => Key): Map<Key, number>;
+
+  /**
+   * Collects values into a Map keyed by the key function. Passing an async
+   * key or value function promotes the chain to the async pipeline.
+   *
+   * @template Key - The type of the map keys
+   * @template MapValue - The type of the map values
+   * @param keyFn - Function returning the key of each value
+   * @param valueFn - Function returning the map value of each value
+   * @param options - Duplicate key handling
+   * @returns The collected Map
+   * @throws {Error} If a key repeats and the duplicate policy is "throw"
+   * @throws {TypeError} If the policy is "merge" but no merge function is given
+   */
+  toMap<Key, MapValue = Value>(
+    keyFn: (value: Value) => Promise<Key>,
+    valueFn?: (value: Value) => MapValue | Promise<MapValue>,
+    options?: ToMapOptions<Key, MapValue>
+  ): Promise<Map<Key, MapValue>>;
+  toMap<Key, MapValue>(
+    keyFn: (value: Value) => Key,
+    valueFn: (value: Value) => Promise<MapValue>,
+    options?: ToMapOptions<Key, MapValue>
+  ): Promise<Map<Key, MapValue>>;
+  toMap<Key, MapValue = Value>(
+    keyFn: (value: Value) => Key,
+    valueFn?: (value: Value) => MapValue,
+    options?: ToMapOptions<Key, MapValue>
+  ): Map<Key, MapValue>;
+
+  /**
+   * Collects all distinct values into a Set.
+   *
+   * @returns A Set of the values in encounter order
+   */
+  toSet(): Set<Value>;
+
+  /**
+   * Collects `[key, value]` entries into a plain object, like
+   * `Object.fromEntries`. Later entries overwrite earlier ones.
+   *
+   * @returns The collected object
+   * @throws {TypeError} If the iterator contains values that are not entries
+   */
+  toObject<Key extends PropertyKey, EntryValue>(
+    this: Iterable<readonly [Key, EntryValue]>
+  ): Record<Key, EntryValue>;
+
+  /**
+   * Splits Results into the values of the successful ones and the errors of
+   * the failed ones.
+   *
+   * @returns `[values, errors]`
+   * @throws {TypeError} If the iterator contains values that are not Results
+   */
+  partitionResults<OkValue, ErrorValue>(
+    this: Iterable<Result<OkValue, ErrorValue>>
+  ): [OkValue[], ErrorValue[]];
+
+  /**
+   * Collects the values of Results into an array, or returns the first
+   * failed Result. Reading stops at the first failure.
+   *
+   * @returns `Ok(values)` or the first `Err`
+   * @throws {TypeError} If the iterator contains values that are not Results
+   */
+  collectResult<OkValue, ErrorValue>(
+    this: Iterable<Result<OkValue, ErrorValue>>
+  ): Result<OkValue[], ErrorValue>;
+
+  /**
+   * Returns the first value, or None for an empty iterator.
+   *
+   * @returns The first value or None
+   */
+  first(): Option<Value>;
+
+  /**
+   * Returns the last value, or None for an empty iterator.
+   *
+   * @returns The last value or None
+   */
+  last(): Option<Value>;
+
+  /**
+   * Returns the value at the given zero-based position, or None when the
+   * iterator is shorter. Reading stops at that position.
+   *
+   * @param n - The zero-based position of the value
+   * @returns The value or None
+   * @throws {RangeError} If n is not a non-negative integer
+   */
+  nth(n: number): Option<Value>;
+
+  /**
+   * Applies a function to each element and an accumulator, returning the final value.
+   *
+   * @template NewValue - The type of the accumulator and return value
+   * @param initialValue - The initial value for the accumulator
+   * @param f - Function that takes (accumulator, value) and returns the new accumulator
+   * @returns The final accumulated value
+   */
+  fold<NewValue>(
+    initialValue: NewValue,
+    f: (accumulator: NewValue, value: Value) => Promise<NewValue>
+  ): Promise<NewValue>;
+  fold<NewValue>(
+    initialValue: NewValue,
+    f: (accumulator: NewValue, value: Value) => NewValue
+  ): NewValue;
+
+  /**
+   * Reduces the iterator to a single value using the provided function.
+   * Returns undefined if the iterator is empty.
+   *
+   * @param f - Function that takes (accumulator, value) and returns the new accumulator
+   * @returns The reduced value or undefined if empty
+   */
+  reduce(
+    f: (accumulator: Value, value: Value) => Promise<Value>
+  ): Promise<Value | undefined>;
+  reduce(f: (accumulator: Value, value: Value) => Value): Value | undefined;
+
+  /**
+   * Executes a function for each element in the iterator, primarily for side effects.
+   *
+   * @param f - Function to execute for each value
+   */
+  forEach(
+    f: (value: Value) => Promise<void>,
+    options?: Omit<ConcurrencyOptions, "ordered">
+  ): Promise<void>;
+  forEach(f: (value: Value) => void): void;
+
+  /**
+   * Finds the smallest element according to the comparator.
+   *
+   * @param compare - Comparator returning a negative number if a is smaller than b
+   * @param options - Tie-breaking options (default: the first smallest element wins)
+   * @returns The smallest element or undefined if empty
+   */
+  minBy(
+    compare: (a: Value, b: Value) => Promise<number>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+  minBy(
+    compare: (a: Value, b: Value) => number,
+    options?: ExtremumOptions
+  ): Value | undefined;
+
+  /**
+   * Finds the largest element according to the comparator.
+   *
+   * @param compare - Comparator returning a positive number if a is larger than b
+   * @param options - Tie-breaking options (default: the first largest element wins)
+   * @returns The largest element or undefined if empty
+   */
+  maxBy(
+    compare: (a: Value, b: Value) => Promise<number>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+  maxBy(
+    compare: (a: Value, b: Value) => number,
+    options?: ExtremumOptions
+  ): Value | undefined;
+
+  /**
+   * Finds the element with the smallest key. The key selector is called once
+   * per element.
+   *
+   * @param f - Function returning the key to compare
+   * @param options - Tie-breaking options (default: the first smallest element wins)
+   * @returns The element with the smallest key or undefined if empty
+   */
+  minByKey(
+    f: (value: Value) => Promise<ComparableKey>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+  minByKey(
+    f: (value: Value) => ComparableKey,
+    options?: ExtremumOptions
+  ): Value | undefined;
+
+  /**
+   * Finds the element with the largest key. The key selector is called once
+   * per element.
+   *
+   * @param f - Function returning the key to compare
+   * @param options - Tie-breaking options (default: the first largest element wins)
+   * @returns The element with the largest key or undefined if empty
+   */
+  maxByKey(
+    f: (value: Value) => Promise<ComparableKey>,
+    options?: ExtremumOptions
+  ): Promise<Value | undefined>;
+  maxByKey(
+    f: (value: Value) => ComparableKey,
+    options?: ExtremumOptions
+  ): Value | undefined;
+
+  /**
+   * Finds both the smallest and the largest element according to the
+   * comparator in a single pass.
+   *
+   * @param compare - Comparator returning a negative number if a is smaller than b
+   * @param options - Tie-breaking options applied to both ends (default: first wins)
+   * @returns `{ min, max }` or undefined if empty
+   */
+  minMax(
+    compare: (a: Value, b: Value) => Promise<number>,
+    options?: ExtremumOptions
+  ): Promise<{ min: Value; max: Value } | undefined>;
+  minMax(
+    compare: (a: Value, b: Value) => number,
+    options?: ExtremumOptions
+  ): { min: Value; max: Value } | undefined;
+
+  /**
+   * Switches to the async `Iterup` pipeline so that subsequent operations may
+   * use async callbacks and async sources.
+   *
+   * @returns An async Iterup instance yielding the same values
+   *
+   * @example
+   * ```ts
+   * const result = await iterupSync([1, 2, 3])
+   *   .toAsync()
+   *   .map(async x => x * 2)
+   *   .collect();
+   * // result: [2, 4, 6]
+   * ```
+   */
+  toAsync(): Iterup<Value>;
+};
+
+/**
+ * Object mapping terminal operation names to their synchronous implementations.
+ * Results are returned as-is by the Proxy.
+ */
+export const SyncTerminals: Record<keyof SyncTerminals<{}>, any> = {
+  findMap,
+  find,
+  findLast,
+  findIndex,
+  collect,
+  toArray: collect,
+  unzip,
+  groupBy,
+  partition,
+  countBy,
+  toMap,
+  toSet,
+  toObject,
+  partitionResults,
+  collectResult,
+  first,
+  last,
+  nth,
+  fold,
+  reduce,
+  forEach,
+  minBy,
+  maxBy,
+  minByKey,
+  maxByKey,
+  minMax,
+  toAsync,
+};
+
+/**
+ * Synchronous extension methods available only for numeric iterators.
+ *
+ * @template Value - The numeric type of values in the iterator
+ */
+export type SyncNumericExtensions<Value> = {
+  /**
+   * Calculates the sum of all numeric values in the iterator.
+   *
+   * @param options - Summation options
+   * @param options.compensated - Use Neumaier compensated summation (default: false)
+   * @returns The total sum (0 for empty iterators)
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  sum(options?: SumOptions): number;
+
+  /**
+   * Finds the minimum value among all numeric values in the iterator.
+   *
+   * @param options - Comparison options
+   * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+   * @returns The smallest value found or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  min(options?: MinMaxOptions): number | undefined;
+
+  /**
+   * Finds the maximum value among all numeric values in the iterator.
+   *
+   * @param options - Comparison options
+   * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+   * @returns The largest value found or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  max(options?: MinMaxOptions): number | undefined;
+
+  /**
+   * Calculates the arithmetic mean of all numeric values in a single pass.
+   *
+   * @returns The mean or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  average(): number | undefined;
+
+  /**
+   * Calculates the variance of all numeric values using Welford's algorithm.
+   *
+   * @param options - Variance options
+   * @param options.sample - Compute the sample variance instead of the population variance (default: false)
+   * @returns The variance or undefined if there are too few values
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  variance(options?: VarianceOptions): number | undefined;
+
+  /**
+   * Calculates the standard deviation of all numeric values using Welford's
+   * algorithm.
+   *
+   * @param options - Variance options
+   * @param options.sample - Compute the sample standard deviation instead of the population one (default: false)
+   * @returns The standard deviation or undefined if there are too few values
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  stddev(options?: VarianceOptions): number | undefined;
+
+  /**
+   * Calculates the exact median of all numeric values. Buffers all values.
+   *
+   * @returns The median, undefined if empty or NaN if any value is NaN
+   * @throws {TypeError} If the iterator contains non-numeric values
+   */
+  median(): number | undefined;
+
+  /**
+   * Calculates the exact p-th percentile of all numeric values. Buffers all
+   * values.
+   *
+   * @param p - The percentile to compute, between 0 and 100
+   * @returns The percentile, undefined if empty or NaN if any value is NaN
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If p is outside [0, 100]
+   */
+  percentile(p: number): number | undefined;
+
+  /**
+   * Estimates the p-th percentile of all numeric values in constant memory
+   * using the P² algorithm. NaN values are ignored.
+   *
+   * @param p - The percentile to estimate, between 0 and 100
+   * @returns The estimated percentile or undefined if empty
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If p is outside [0, 100]
+   */
+  approxPercentile(p: number): number | undefined;
+
+  /**
+   * Counts the numeric values falling into each bucket delimited by the
+   * given boundaries. NaN values are ignored.
+   *
+   * @param boundaries - Strictly ascending bucket boundaries
+   * @returns boundaries.length + 1 buckets
+   * @throws {TypeError} If the iterator contains non-numeric values
+   * @throws {RangeError} If the boundaries are not strictly ascending
+   */
+  histogram(boundaries: number[]): HistogramBucket[];
+};
+
+export const SyncNumericExtensions: Record<
+  keyof SyncNumericExtensions<{}>,
+  any
+> = {
+  sum,
+  min,
+  max,
+  average,
+  variance,
+  stddev,
+  median,
+  percentile,
+  approxPercentile,
+  histogram,
+};
+
+/**
+ * Synchronous extension methods available only for bigint iterators.
+ * The implementations are shared with SyncNumericExtensions.
+ *
+ * @template Value - The bigint type of values in the iterator
+ */
+export type SyncBigIntExtensions<Value> = {
+  /**
+   * Calculates the sum of all bigint values in the iterator, starting from
+   * `initial`. Without it an empty iterator sums to the number 0.
+   *
+   * @param initial - The value the sum starts from, usually 0n
+   * @returns The total sum (initial for empty iterators)
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   */
+  sum(initial: bigint): bigint;
+
+  /**
+   * Finds the minimum value among all bigint values in the iterator.
+   *
+   * @returns The smallest value found or undefined if empty
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   */
+  min(): bigint | undefined;
+
+  /**
+   * Finds the maximum value among all bigint values in the iterator.
+   *
+   * @returns The largest value found or undefined if empty
+   * @throws {TypeError} If the iterator mixes bigints with other values
+   */
+  max(): bigint | undefined;
+};
+
+export const SyncBigIntExtensions: Record<keyof SyncBigIntExtensions<{}>, any> =
+  {
+    sum,
+    min,
+    max,
+  };
+
+/**
+ * Synchronous lazy adapters available only for string iterators.
+ *
+ * @template Value - The string type of values in the iterator
+ */
+export type SyncStringExtensions<Value> = {
+  /**
+   * Splits a sequence of string chunks into lines. Both "\n" and "\r\n"
+   * line endings are recognized, even when they are split across chunks.
+   *
+   * @returns A new IterupSync instance yielding lines without their line endings
+   * @throws {TypeError} If the iterator contains non-string values
+   */
+  lines(): IterupSync<string>;
+
+  /**
+   * Splits a sequence of string chunks into whitespace separated words.
+   *
+   * @returns A new IterupSync instance yielding non-empty words
+   * @throws {TypeError} If the iterator contains non-string values
+   */
+  words(): IterupSync<string>;
+
+  /**
+   * Splits a sequence of string chunks on a delimiter, like
+   * `String.prototype.split` over the concatenated chunks.
+   *
+   * @param delimiter - The non-empty delimiter to split on
+   * @returns A new IterupSync instance yielding the tokens between delimiters
+   * @throws {TypeError} If the iterator contains non-string values
+   * @throws {RangeError} If the delimiter is empty
+   */
+  split(delimiter: string): IterupSync<string>;
+};
+
+export const SyncStringExtensions: Record<keyof SyncStringExtensions<{}>, any> =
+  {
+    lines,
+    words,
+    split,
+  };
+
+/**
+ * Synchronous terminal operations available only for string iterators.
+ *
+ * @template Value - The string type of values in the iterator
+ */
+export type SyncStringTerminals<Value> = {
+  /**
+   * Joins all string values of the iterator into a single string.
+   *
+   * @param separator - String placed between values (default: ",")
+   * @returns The joined string ("" for empty iterators)
+   * @throws {TypeError} If the iterator contains non-string values
+   */
+  join(separator?: string): string;
+
+  /**
+   * Concatenates all string values of the iterator without a separator.
+   *
+   * @returns The concatenated string
+   * @throws {TypeError} If the iterator contains non-string values
+   */
+  concatStrings(): string;
+};
+
+export const SyncStringTerminals: Record<keyof SyncStringTerminals<{}>, any> = {
+  join,
+  concatStrings,
+};
@@ -0,0 +1,2197 @@
+/**
+ * Synchronous counterparts of the functions in `lib/methods.ts`.
+ *
+ * These functions never create Promises, which makes them suitable for hot
+ * paths over in-memory data. Callbacks must return plain values; returning a
+ * Promise throws a TypeError pointing at the async pipeline instead.
+ */
+
+import { toArray, type Collector } from "../collectors";
+import {
+  iterup,
+  None,
+  type BaseSyncIterator,
+  type Iterup,
+  type Option,
+} from "../core";
+import {
+  averageAccumulator,
+  checkEntry,
+  checkResult,
+  checkSize,
+  duplicateKeyPolicy,
+  extremumAccumulator,
+  histogramAccumulator,
+  joinAccumulator,
+  p2Accumulator,
+  percentileAccumulator,
+  sumAccumulator,
+  tokenSplitter,
+  welfordAccumulator,
+  type ChunksOptions,
+  type ComparableKey,
+  type ExtremumOptions,
+  type HistogramBucket,
+  type MinMaxOptions,
+  type RangeArgument,
+  type SumOptions,
+  type IteratorValues,
+  type ToMapOptions,
+  type UnzipOptions,
+  type VarianceOptions,
+  type ZipLongestOptions,
+  type ZipLongestValues,
+} from "../methods";
+import { isSome } from "../option";
+import { Err, Ok, type Result } from "../result";
+import {
+  isAsyncIterator,
+  isIterable,
+  iteratorFrom,
+  unwrapResult,
+} from "../utils";
+import { fromSyncIterator, Promotion, type IterupSync } from "./core";
+
+/**
+ * Guards against callbacks that unexpectedly return a Promise while running
+ * inside a synchronous pipeline.
+ *
+ * @internal
+ */
+function assertSync<Value>(value: Value, method: string): Value {
+  if (value instanceof Promise) {
+    throw new TypeError(
+      `${method} callback returned a Promise; use an async function or call toAsync() to continue asynchronously`
+    );
+  }
+  return value;
+}
+
+/**
+ * Yields pairs [value, index] for each element. Index starts at 0.
+ *
+ * @template Value
+ * @param iterator - Source iterator
+ * @returns Iterator of [value, index]
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(['a', 'b', 'c'])
+ *   .enumerate()
+ *   .collect();
+ * // result: [['a', 0], ['b', 1], ['c', 2]]
+ * ```
+ */
+export function* enumerate<Value>(
+  iterator: Iterable<Value>
+): BaseSyncIterator<[Value, number]> {
+  let index = 0;
+  for (const value of iterator) {
+    yield [value, index++] as [Value, number];
+  }
+  return;
+}
+
+/**
+ * Finds the first value for which the provided function returns a non-None value.
+ * Returns the transformed value if found, undefined if none match.
+ *
+ * @template FilterValue - The type of the transformed value
+ * @template Value - The type of values in the input iterator
+ * @param iterator - The iterator to search through
+ * @param f - Function that transforms values, returning None to skip or a value to return
+ * @returns The first transformed value or undefined if none found
+ *
+ * @example
+ * ```ts
+ * const result = findMap([1, 2, 3, 4, 5], x => x > 3 ? x * 2 : None);
+ * // result: 8
+ * ```
+ */
+export function findMap<FilterValue, Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Option<FilterValue>
+): FilterValue | undefined {
+  for (const value of iterator) {
+    const newValue = assertSync(f(value), "findMap");
+    if (newValue === None) continue;
+    return newValue;
+  }
+}
+
+/**
+ * Transforms and filters values in a single operation. Values that transform
+ * to None are filtered out, while others are transformed and kept.
+ *
+ * @template FilterValue - The type of the transformed values
+ * @template Value - The type of values in the input iterator
+ * @param iterator - The iterator to filter and transform
+ * @param f - Function that transforms values; return None to filter out
+ * @returns Iterator of transformed, non-None values
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 5])
+ *   .filterMap(x => x % 2 === 0 ? x * 2 : None)
+ *   .collect();
+ * // result: [4, 8]
+ * ```
+ */
+export function* filterMap<FilterValue, Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Option<FilterValue>
+): BaseSyncIterator<FilterValue> {
+  for (const value of iterator) {
+    const newValue = assertSync(f(value), "filterMap");
+    if (newValue === None) continue;
+    yield newValue;
+  }
+  return;
+}
+
+/**
+ * Transforms each value in the iterator using the provided function.
+ *
+ * @template Value - The type of values in the input iterator
+ * @template MapValue - The type of values after transformation
+ * @param iterator - The iterator to transform
+ * @param f - Function to transform each value
+ * @returns Iterator of transformed values
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3])
+ *   .map(x => x * 2)
+ *   .collect();
+ * // result: [2, 4, 6]
+ * ```
+ */
+export function* map<Value, MapValue>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => MapValue
+): BaseSyncIterator<MapValue> {
+  for (const value of iterator) {
+    yield assertSync(f(value), "map");
+  }
+  return;
+}
+
+/**
+ * Transforms each value into an iterable and flattens the results.
+ *
+ * @template Value - The type of values in the input iterator
+ * @template MapValue - The type of values in the resulting flattened iterator
+ * @param iterator - The iterator to transform and flatten
+ * @param f - Function that transforms each value into an iterable
+ * @returns Iterator of flattened transformed values
+ * @throws {TypeError} If f returns an async iterator
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3])
+ *   .flatMap(x => [x, x * 2])
+ *   .collect();
+ * // result: [1, 2, 2, 4, 3, 6]
+ * ```
+ */
+export function* flatMap<Value, MapValue>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Iterable<MapValue>
+): BaseSyncIterator<MapValue> {
+  for (const value of iterator) {
+    const newValues = assertSync(f(value), "flatMap");
+    if (isAsyncIterator(newValues)) {
+      throw new TypeError(
+        "flatMap callback returned an async iterator; call toAsync() to continue asynchronously"
+      );
+    }
+
+    yield* newValues;
+  }
+  return;
+}
+
+/**
+ * Skips the first n values from the iterator and yields the rest.
+ * If count <= 0, yields the original sequence unchanged.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to drop values from
+ * @param count - Number of values to skip from the beginning
+ * @returns Iterator with the first count values skipped
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 5])
+ *   .drop(2)
+ *   .collect();
+ * // result: [3, 4, 5]
+ * ```
+ */
+export function* drop<Value>(
+  iterator: Iterable<Value>,
+  count: number
+): BaseSyncIterator<Value> {
+  if (count <= 0) {
+    yield* iterator;
+    return;
+  }
+
+  for (const value of iterator) {
+    if (count-- > 0) continue;
+    yield value;
+  }
+
+  return;
+}
+
+/**
+ * Takes only the first n values from the iterator and stops.
+ * If count <= 0, yields an empty sequence.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to take values from
+ * @param count - Maximum number of values to take
+ * @returns Iterator with at most count values
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 5])
+ *   .take(3)
+ *   .collect();
+ * // result: [1, 2, 3]
+ * ```
+ */
+export function* take<Value>(
+  iterator: Iterable<Value>,
+  count: number
+): BaseSyncIterator<Value> {
+  if (count <= 0) {
+    return;
+  }
+
+  for (const value of iterator) {
+    yield value;
+    if (count-- <= 1) break;
+  }
+}
+
+/**
+ * Yields values while the predicate returns true and stops at the first value
+ * for which it returns false. The upstream iterator is closed when stopping.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to take values from
+ * @param f - Predicate function to test each value
+ * @returns Iterator of the leading values satisfying the predicate
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 1])
+ *   .takeWhile(x => x < 3)
+ *   .collect();
+ * // result: [1, 2]
+ * ```
+ */
+export function* takeWhile<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): BaseSyncIterator<Value> {
+  for (const value of iterator) {
+    if (!assertSync(f(value), "takeWhile")) break;
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Skips values while the predicate returns true and yields the first value for
+ * which it returns false along with all remaining values.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to drop values from
+ * @param f - Predicate function to test each value
+ * @returns Iterator without the leading values satisfying the predicate
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 1])
+ *   .dropWhile(x => x < 3)
+ *   .collect();
+ * // result: [3, 4, 1]
+ * ```
+ */
+export function* dropWhile<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): BaseSyncIterator<Value> {
+  let dropping = true;
+  for (const value of iterator) {
+    if (dropping && assertSync(f(value), "dropWhile")) continue;
+    dropping = false;
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Transforms values until the provided function returns None, then stops.
+ * The upstream iterator is closed when stopping.
+ *
+ * @template Value - The type of values in the input iterator
+ * @template MapValue - The type of values after transformation
+ * @param iterator - The iterator to transform
+ * @param f - Function that transforms values; return None to stop
+ * @returns Iterator of transformed values up to the first None
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, -1, 3])
+ *   .mapWhile(x => x > 0 ? x * 2 : None)
+ *   .collect();
+ * // result: [2, 4]
+ * ```
+ */
+export function* mapWhile<Value, MapValue>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Option<MapValue>
+): BaseSyncIterator<MapValue> {
+  for (const value of iterator) {
+    const newValue = assertSync(f(value), "mapWhile");
+    if (newValue === None) break;
+    yield newValue;
+  }
+  return;
+}
+
+/**
+ * Skips values until the predicate returns true, then yields the matching value
+ * and all remaining values.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to skip values from
+ * @param f - Predicate function to test each value
+ * @returns Iterator starting at the first value satisfying the predicate
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(['a', 'START', 'b'])
+ *   .skipUntil(x => x === 'START')
+ *   .collect();
+ * // result: ['START', 'b']
+ * ```
+ */
+export function* skipUntil<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): BaseSyncIterator<Value> {
+  yield* dropWhile(iterator, (value) => !assertSync(f(value), "skipUntil"));
+  return;
+}
+
+/**
+ * Yields values until the predicate returns true, then stops without yielding
+ * the matching value. The upstream iterator is closed when stopping.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to take values from
+ * @param f - Predicate function to test each value
+ * @returns Iterator of the values before the first value satisfying the predicate
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(['a', 'END', 'b'])
+ *   .takeUntil(x => x === 'END')
+ *   .collect();
+ * // result: ['a']
+ * ```
+ */
+export function* takeUntil<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): BaseSyncIterator<Value> {
+  yield* takeWhile(iterator, (value) => !assertSync(f(value), "takeUntil"));
+  return;
+}
+
+/**
+ * Groups consecutive values into arrays of the given size. The last chunk
+ * holds the remaining values and may be smaller unless `dropPartial` is set.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to chunk
+ * @param size - The number of values per chunk
+ * @param options - Chunk options
+ * @param options.dropPartial - Drop a smaller last chunk (default: false)
+ * @returns Iterator of chunks
+ * @throws {RangeError} If size is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 5]).chunks(2).collect();
+ * // result: [[1, 2], [3, 4], [5]]
+ * ```
+ */
+export function* chunks<Value>(
+  iterator: Iterable<Value>,
+  size: number,
+  { dropPartial = false }: ChunksOptions = {}
+): BaseSyncIterator<Value[]> {
+  checkSize(size, "size");
+
+  let chunk: Value[] = [];
+  for (const value of iterator) {
+    chunk.push(value);
+    if (chunk.length === size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0 && !dropPartial) {
+    yield chunk;
+  }
+  return;
+}
+
+/**
+ * Yields sliding windows of `size` consecutive values, starting a new window
+ * every `step` values. Only full windows are yielded.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to slide over
+ * @param size - The number of values per window
+ * @param step - The distance between the starts of two windows (default: 1)
+ * @returns Iterator of windows
+ * @throws {RangeError} If size or step is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4]).windows(2).collect();
+ * // result: [[1, 2], [2, 3], [3, 4]]
+ * ```
+ */
+export function* windows<Value>(
+  iterator: Iterable<Value>,
+  size: number,
+  step: number = 1
+): BaseSyncIterator<Value[]> {
+  checkSize(size, "size");
+  checkSize(step, "step");
+
+  let window: Value[] = [];
+  let skip = 0;
+  for (const value of iterator) {
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+    window.push(value);
+    if (window.length === size) {
+      yield window.slice();
+      skip = Math.max(step - size, 0);
+      window = window.slice(step);
+    }
+  }
+  return;
+}
+
+/**
+ * Groups runs of consecutive values that share the same key. A new chunk
+ * starts whenever the key differs from the previous one (compared with ===).
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the keys
+ * @param iterator - The iterator to chunk
+ * @param f - Function returning the key of each value
+ * @returns Iterator of runs with equal keys
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 1, 2, 3, 3]).chunkBy(x => x).collect();
+ * // result: [[1, 1], [2], [3, 3]]
+ * ```
+ */
+export function* chunkBy<Value, Key>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Key
+): BaseSyncIterator<Value[]> {
+  let chunk: Value[] = [];
+  let currentKey: Key | undefined;
+  for (const value of iterator) {
+    const key = assertSync(f(value), "chunkBy");
+    if (chunk.length > 0 && key !== currentKey) {
+      yield chunk;
+      chunk = [];
+    }
+    currentKey = key;
+    chunk.push(value);
+  }
+  if (chunk.length > 0) {
+    yield chunk;
+  }
+  return;
+}
+
+/**
+ * Yields only the values that satisfy the predicate function.
+ * Narrows the value type for type guards.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FilterValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to filter
+ * @param f - Predicate function to test each value
+ * @returns Iterator of values for which f returned true
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4, 5])
+ *   .filter(x => x > 3)
+ *   .collect();
+ * // result: [4, 5]
+ * ```
+ */
+export function* filter<Value, FilterValue extends Value = Value>(
+  iterator: Iterable<Value>,
+  f: ((value: Value) => value is FilterValue) | ((value: Value) => boolean)
+): BaseSyncIterator<FilterValue> {
+  for (const value of iterator) {
+    if (assertSync(f(value), "filter")) {
+      yield value as FilterValue;
+    }
+  }
+  return;
+}
+
+/**
+ * Finds the first value that satisfies the predicate function.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FindValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value
+ * @returns The first matching value or undefined
+ *
+ * @example
+ * ```ts
+ * const result = find([1, 2, 3, 4, 5], x => x > 3);
+ * // result: 4
+ * ```
+ */
+export function find<Value, FindValue extends Value = Value>(
+  iterator: Iterable<Value>,
+  f: ((value: Value) => value is FindValue) | ((value: Value) => boolean)
+): FindValue | undefined {
+  for (const value of iterator) {
+    if (assertSync(f(value), "find")) {
+      return value as FindValue;
+    }
+  }
+}
+
+/**
+ * Finds the last value that satisfies the predicate function.
+ * Consumes the entire iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @template FindValue - The narrowed type when f is a type guard
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value
+ * @returns The last matching value or undefined
+ *
+ * @example
+ * ```ts
+ * const result = findLast([1, 2, 3, 4, 5], x => x < 3);
+ * // result: 2
+ * ```
+ */
+export function findLast<Value, FindValue extends Value = Value>(
+  iterator: Iterable<Value>,
+  f: ((value: Value) => value is FindValue) | ((value: Value) => boolean)
+): FindValue | undefined {
+  let last: FindValue | undefined;
+  for (const value of iterator) {
+    if (assertSync(f(value), "findLast")) {
+      last = value as FindValue;
+    }
+  }
+  return last;
+}
+
+/**
+ * Finds the index of the first value that satisfies the predicate function.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Predicate function to test each value
+ * @returns The index of the first match or -1 if none match
+ *
+ * @example
+ * ```ts
+ * const result = findIndex([1, 2, 3, 4, 5], x => x > 3);
+ * // result: 3
+ * ```
+ */
+export function findIndex<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): number {
+  let index = 0;
+  for (const value of iterator) {
+    if (assertSync(f(value), "findIndex")) {
+      return index;
+    }
+    index++;
+  }
+  return -1;
+}
+
+/**
+ * Collects all values from the iterator using a collector. Without a
+ * collector the values are collected into an array.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Acc - The accumulator type of the collector
+ * @template Result - The result type of the collector
+ * @param iterator - The iterator to collect values from
+ * @param collector - The collector building the result (default: array)
+ * @returns The collector's result
+ * @throws {TypeError} If the collector returns a Promise
+ *
+ * @example
+ * ```ts
+ * const result = collect(iterupSync([1, 2, 3]));
+ * // result: [1, 2, 3]
+ * ```
+ */
+export function collect<Value>(iterator: Iterable<Value>): Array<Value>;
+export function collect<Value, Acc, Result>(
+  iterator: Iterable<Value>,
+  collector: Collector<Value, Acc, Result>
+): Result;
+export function collect<Value>(
+  iterator: Iterable<Value>,
+  collector: Collector<Value, unknown, unknown> = toArray()
+): unknown {
+  let acc = collector.init();
+  for (const value of iterator) {
+    acc = assertSync(collector.accumulate(acc, value), "collect");
+  }
+  return assertSync(collector.finish(acc), "collect");
+}
+
+/**
+ * Groups values into arrays by the key returned from the key function.
+ * Groups and the values within them keep their encounter order.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the group keys
+ * @param iterator - The iterator to group
+ * @param f - Function returning the group key of each value
+ * @returns A Map from key to the values in that group
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3, 4]).groupBy(x => x % 2 === 0 ? "even" : "odd");
+ * // result: Map { "odd" => [1, 3], "even" => [2, 4] }
+ * ```
+ */
+export function groupBy<Value, Key>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Key
+): Map<Key, Value[]> {
+  const result = new Map<Key, Value[]>();
+  for (const value of iterator) {
+    const key = assertSync(f(value), "groupBy");
+    const group = result.get(key);
+    if (group) group.push(value);
+    else result.set(key, [value]);
+  }
+  return result;
+}
+
+/**
+ * Splits values into those that satisfy the predicate and those that don't.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to partition
+ * @param f - Predicate function to test each value
+ * @returns A tuple of passing and failing values
+ *
+ * @example
+ * ```ts
+ * const [even, odd] = iterupSync([1, 2, 3, 4]).partition(x => x % 2 === 0);
+ * // even: [2, 4], odd: [1, 3]
+ * ```
+ */
+export function partition<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => boolean
+): [Value[], Value[]] {
+  const pass: Value[] = [];
+  const fail: Value[] = [];
+  for (const value of iterator) {
+    if (assertSync(f(value), "partition")) pass.push(value);
+    else fail.push(value);
+  }
+  return [pass, fail];
+}
+
+/**
+ * Counts values by the key returned from the key function.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the count keys
+ * @param iterator - The iterator to count
+ * @param f - Function returning the key of each value
+ * @returns A Map from key to the number of values with that key
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(["a", "bb", "cc"]).countBy(x => x.length);
+ * // result: Map { 1 => 1, 2 => 2 }
+ * ```
+ */
+export function countBy<Value, Key>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => Key
+): Map<Key, number> {
+  const result = new Map<Key, number>();
+  for (const value of iterator) {
+    const key = assertSync(f(value), "countBy");
+    result.set(key, (result.get(key) ?? 0) + 1);
+  }
+  return result;
+}
+
+/**
+ * Collects values into a Map keyed by the key function. Values are the
+ * elements themselves unless a value function is given.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Key - The type of the map keys
+ * @template MapValue - The type of the map values
+ * @param iterator - The iterator to collect
+ * @param keyFn - Function returning the key of each value
+ * @param valueFn - Function returning the map value of each value
+ * @param options - Duplicate key handling
+ * @returns The collected Map
+ * @throws {Error} If a key repeats and the duplicate policy is "throw"
+ * @throws {TypeError} If the policy is "merge" but no merge function is given
+ *
+ * @example
+ * ```ts
+ * const byId = iterupSync(users).toMap(user => user.id);
+ * ```
+ */
+export function toMap<Value, Key, MapValue = Value>(
+  iterator: Iterable<Value>,
+  keyFn: (value: Value) => Key,
+  valueFn?: (value: Value) => MapValue,
+  options: ToMapOptions<Key, MapValue> = {}
+): Map<Key, MapValue> {
+  const policy = duplicateKeyPolicy(options);
+  const result = new Map<Key, MapValue>();
+  for (const value of iterator) {
+    const key = assertSync(keyFn(value), "toMap");
+    const mapValue = valueFn
+      ? assertSync(valueFn(value), "toMap")
+      : (value as unknown as MapValue);
+
+    if (!result.has(key) || policy === "last") {
+      result.set(key, mapValue);
+    } else if (policy === "throw") {
+      throw new Error(`toMap encountered duplicate key: ${String(key)}`);
+    } else if (policy === "merge") {
+      const merged = options.merge!(result.get(key)!, mapValue, key);
+      result.set(key, assertSync(merged, "toMap") as MapValue);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collects all distinct values into a Set.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to collect
+ * @returns A Set of the values in encounter order
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 2, 3]).toSet();
+ * // result: Set { 1, 2, 3 }
+ * ```
+ */
+export function toSet<Value>(iterator: Iterable<Value>): Set<Value> {
+  return new Set(iterator);
+}
+
+/**
+ * Collects `[key, value]` entries into a plain object, like
+ * `Object.fromEntries`. Later entries overwrite earlier ones.
+ *
+ * @param iterator - The iterator of entries to collect
+ * @returns The collected object
+ * @throws {TypeError} If the iterator contains values that are not entries
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([["a", 1], ["b", 2]] as const).toObject();
+ * // result: { a: 1, b: 2 }
+ * ```
+ */
+export function toObject(
+  iterator: Iterable<readonly [PropertyKey, unknown]>
+): Record<PropertyKey, unknown> {
+  const result: Record<PropertyKey, unknown> = {};
+  for (const value of iterator) {
+    const [key, entryValue] = checkEntry(value);
+    Object.defineProperty(result, key, {
+      value: entryValue,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return result;
+}
+
+/**
+ * Creates an iterator that yields a sequence of numbers within a specified range.
+ * Both start and end points are inclusive.
+ *
+ * @param options - Range parameters
+ * @param options.from - Starting number (inclusive, default: 0)
+ * @param options.to - Ending number (inclusive, default: Number.MAX_SAFE_INTEGER)
+ * @returns Iterator yielding numbers in the specified range
+ *
+ * @example
+ * ```ts
+ * const basic = iterupSync({ from: 0, to: 5 }).collect();
+ * // result: [0, 1, 2, 3, 4, 5]
+ * ```
+ */
+export function* range({
+  from = 0,
+  to = Number.MAX_SAFE_INTEGER,
+}: RangeArgument): BaseSyncIterator<number> {
+  for (let count = from; count <= to; count++) {
+    yield count;
+  }
+  return;
+}
+
+/**
+ * Calculates the sum of all numeric values in the iterator.
+ * The full IEEE 754 range is supported and NaN propagates to the result.
+ *
+ * @param iterator - The iterator containing numeric values to sum
+ * @param options - Summation options, or the initial value of a bigint sum
+ * @param options.compensated - Use Neumaier compensated summation (default: false)
+ * @returns The total sum (0, or the initial value of a bigint sum, for empty iterators)
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const total = iterupSync([1, 2, 3, 4, 5]).sum();
+ * // result: 15
+ * ```
+ */
+export function sum(iterator: Iterable<bigint>, initial: bigint): bigint;
+export function sum(iterator: Iterable<number>, options?: SumOptions): number;
+export function sum(
+  iterator: Iterable<number | bigint>,
+  options: SumOptions | bigint = {}
+): number | bigint {
+  const accumulator = sumAccumulator(options);
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Finds the minimum value among all numeric values in the iterator.
+ * The full IEEE 754 range is supported, including infinities.
+ *
+ * @param iterator - The iterator containing numeric values to compare
+ * @param options - Comparison options
+ * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+ * @returns The smallest value found or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const minimum = iterupSync([5, 2, 8, 1, 9]).min();
+ * // result: 1
+ * ```
+ */
+export function min(iterator: Iterable<bigint>): bigint | undefined;
+export function min(
+  iterator: Iterable<number>,
+  options?: MinMaxOptions
+): number | undefined;
+export function min(
+  iterator: Iterable<number | bigint>,
+  options: MinMaxOptions = {}
+): number | bigint | undefined {
+  const accumulator = extremumAccumulator("min", options);
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Finds the maximum value among all numeric values in the iterator.
+ * The full IEEE 754 range is supported, including infinities.
+ *
+ * @param iterator - The iterator containing numeric values to compare
+ * @param options - Comparison options
+ * @param options.skipNaN - Ignore NaN values instead of returning NaN (default: false)
+ * @returns The largest value found or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values or mixes numbers and bigints
+ *
+ * @example
+ * ```ts
+ * const maximum = iterupSync([5, 2, 8, 1, 9]).max();
+ * // result: 9
+ * ```
+ */
+export function max(iterator: Iterable<bigint>): bigint | undefined;
+export function max(
+  iterator: Iterable<number>,
+  options?: MinMaxOptions
+): number | undefined;
+export function max(
+  iterator: Iterable<number | bigint>,
+  options: MinMaxOptions = {}
+): number | bigint | undefined {
+  const accumulator = extremumAccumulator("max", options);
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Calculates the arithmetic mean of all numeric values in a single pass.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @returns The mean or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const mean = iterupSync([1, 2, 3, 4]).average();
+ * // result: 2.5
+ * ```
+ */
+export function average(iterator: Iterable<number>): number | undefined {
+  const accumulator = averageAccumulator();
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Calculates the variance of all numeric values in a single pass using
+ * Welford's algorithm.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param options - Variance options
+ * @param options.sample - Compute the sample variance instead of the population variance (default: false)
+ * @returns The variance or undefined if there are too few values
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const variance = iterupSync([2, 4, 4, 4, 5, 5, 7, 9]).variance();
+ * // result: 4
+ * ```
+ */
+export function variance(
+  iterator: Iterable<number>,
+  options: VarianceOptions = {}
+): number | undefined {
+  const accumulator = welfordAccumulator("variance");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.variance(options);
+}
+
+/**
+ * Calculates the standard deviation of all numeric values in a single pass
+ * using Welford's algorithm.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param options - Variance options
+ * @param options.sample - Compute the sample standard deviation instead of the population one (default: false)
+ * @returns The standard deviation or undefined if there are too few values
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const stddev = iterupSync([2, 4, 4, 4, 5, 5, 7, 9]).stddev();
+ * // result: 2
+ * ```
+ */
+export function stddev(
+  iterator: Iterable<number>,
+  options: VarianceOptions = {}
+): number | undefined {
+  const accumulator = welfordAccumulator("stddev");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  const result = accumulator.variance(options);
+  return result === undefined ? undefined : Math.sqrt(result);
+}
+
+/**
+ * Calculates the exact p-th percentile of all numeric values, interpolating
+ * linearly between the closest ranks. Buffers all values.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param p - The percentile to compute, between 0 and 100
+ * @returns The percentile, undefined if empty or NaN if any value is NaN
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If p is outside [0, 100]
+ *
+ * @example
+ * ```ts
+ * const p90 = iterupSync(latencies).percentile(90);
+ * ```
+ */
+export function percentile(
+  iterator: Iterable<number>,
+  p: number
+): number | undefined {
+  if (!(p >= 0 && p <= 100))
+    throw new RangeError("percentile must be between 0 and 100");
+  const accumulator = percentileAccumulator("percentile");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result(p);
+}
+
+/**
+ * Calculates the exact median of all numeric values. Buffers all values.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @returns The median, undefined if empty or NaN if any value is NaN
+ * @throws {TypeError} If the iterator contains non-numeric values
+ *
+ * @example
+ * ```ts
+ * const median = iterupSync([5, 1, 4, 2]).median();
+ * // result: 3
+ * ```
+ */
+export function median(iterator: Iterable<number>): number | undefined {
+  const accumulator = percentileAccumulator("median");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result(50);
+}
+
+/**
+ * Estimates the p-th percentile of all numeric values in constant memory
+ * using the P² algorithm. NaN values are ignored.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param p - The percentile to estimate, between 0 and 100
+ * @returns The estimated percentile or undefined if empty
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If p is outside [0, 100]
+ *
+ * @example
+ * ```ts
+ * const p99 = iterupSync(latencies).approxPercentile(99);
+ * ```
+ */
+export function approxPercentile(
+  iterator: Iterable<number>,
+  p: number
+): number | undefined {
+  const accumulator = p2Accumulator(p, "approxPercentile");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Counts the numeric values falling into each bucket delimited by the given
+ * boundaries. The outer buckets are open ended, so every value except NaN is
+ * counted.
+ *
+ * @param iterator - The iterator containing numeric values
+ * @param boundaries - Strictly ascending bucket boundaries
+ * @returns boundaries.length + 1 buckets
+ * @throws {TypeError} If the iterator contains non-numeric values
+ * @throws {RangeError} If the boundaries are not strictly ascending
+ *
+ * @example
+ * ```ts
+ * const buckets = iterupSync([5, 15, 25, 100]).histogram([10, 50]);
+ * // result: [
+ * //   { from: -Infinity, to: 10, count: 1 },
+ * //   { from: 10, to: 50, count: 2 },
+ * //   { from: 50, to: Infinity, count: 1 },
+ * // ]
+ * ```
+ */
+export function histogram(
+  iterator: Iterable<number>,
+  boundaries: number[]
+): HistogramBucket[] {
+  const accumulator = histogramAccumulator(boundaries);
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Joins all string values of the iterator into a single string.
+ *
+ * @param iterator - The iterator containing string values
+ * @param separator - String placed between values (default: ",")
+ * @returns The joined string ("" for empty iterators)
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const csv = iterupSync(["a", "b", "c"]).join(", ");
+ * // result: "a, b, c"
+ * ```
+ */
+export function join(
+  iterator: Iterable<string>,
+  separator: string = ","
+): string {
+  const accumulator = joinAccumulator(separator, "join");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Concatenates all string values of the iterator without a separator.
+ *
+ * @param iterator - The iterator containing string values
+ * @returns The concatenated string
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const text = iterupSync(["Hel", "lo"]).concatStrings();
+ * // result: "Hello"
+ * ```
+ */
+export function concatStrings(iterator: Iterable<string>): string {
+  const accumulator = joinAccumulator("", "concatStrings");
+  for (const value of iterator) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+/**
+ * Runs string chunks through a token splitter.
+ *
+ * @internal
+ */
+function* splitChunks(
+  iterator: Iterable<string>,
+  splitter: ReturnType<typeof tokenSplitter>
+): BaseSyncIterator<string> {
+  for (const chunk of iterator) {
+    yield* splitter.push(chunk);
+  }
+  yield* splitter.flush();
+  return;
+}
+
+/**
+ * Splits a sequence of string chunks into lines. Both "\n" and "\r\n" line
+ * endings are recognized, even when they are split across chunks.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @returns An iterator yielding lines without their line endings
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const lines = iterupSync(["first\nsec", "ond\r\nthird"]).lines().collect();
+ * // result: ["first", "second", "third"]
+ * ```
+ */
+export function lines(iterator: Iterable<string>): BaseSyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("lines"));
+}
+
+/**
+ * Splits a sequence of string chunks into whitespace separated words.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @returns An iterator yielding non-empty words
+ * @throws {TypeError} If the iterator contains non-string values
+ *
+ * @example
+ * ```ts
+ * const words = iterupSync(["hello wo", "rld"]).words().collect();
+ * // result: ["hello", "world"]
+ * ```
+ */
+export function words(iterator: Iterable<string>): BaseSyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("words"));
+}
+
+/**
+ * Splits a sequence of string chunks on a delimiter, like
+ * `String.prototype.split` over the concatenated chunks.
+ *
+ * @param iterator - The iterator containing string chunks
+ * @param delimiter - The non-empty delimiter to split on
+ * @returns An iterator yielding the tokens between delimiters
+ * @throws {TypeError} If the iterator contains non-string values
+ * @throws {RangeError} If the delimiter is empty
+ *
+ * @example
+ * ```ts
+ * const fields = iterupSync(["a,b", ",c"]).split(",").collect();
+ * // result: ["a", "b", "c"]
+ * ```
+ */
+export function split(
+  iterator: Iterable<string>,
+  delimiter: string
+): BaseSyncIterator<string> {
+  return splitChunks(iterator, tokenSplitter("split", delimiter));
+}
+
+/**
+ * Compares two keys with the relational operators.
+ *
+ * @internal
+ */
+function compareKeys(a: ComparableKey, b: ComparableKey): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * Finds the element that sorts first (direction -1) or last (direction 1)
+ * according to the comparator.
+ *
+ * @internal
+ */
+function extremumBy<Value>(
+  iterator: Iterable<Value>,
+  compare: (a: Value, b: Value) => number,
+  direction: 1 | -1,
+  { ties = "first" }: ExtremumOptions,
+  method: string
+): Value | undefined {
+  let found = false;
+  let best: Value | undefined;
+  for (const value of iterator) {
+    if (!found) {
+      found = true;
+      best = value;
+      continue;
+    }
+
+    const order = assertSync(compare(value, best as Value), method) * direction;
+    if (order > 0 || (order === 0 && ties === "last")) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the element with the smallest (direction -1) or largest (direction 1)
+ * key. Each key is computed once.
+ *
+ * @internal
+ */
+function extremumByKey<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => ComparableKey,
+  direction: 1 | -1,
+  { ties = "first" }: ExtremumOptions,
+  method: string
+): Value | undefined {
+  let found = false;
+  let best: Value | undefined;
+  let bestKey: ComparableKey | undefined;
+  for (const value of iterator) {
+    const key = assertSync(f(value), method);
+    if (!found) {
+      found = true;
+      best = value;
+      bestKey = key;
+      continue;
+    }
+
+    const order = compareKeys(key, bestKey as ComparableKey) * direction;
+    if (order > 0 || (order === 0 && ties === "last")) {
+      best = value;
+      bestKey = key;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the smallest element according to the comparator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a negative number if a is smaller than b
+ * @param options - Tie-breaking options (default: the first smallest element wins)
+ * @returns The smallest element or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const cheapest = iterupSync(offers).minBy((a, b) => a.price - b.price);
+ * ```
+ */
+export function minBy<Value>(
+  iterator: Iterable<Value>,
+  compare: (a: Value, b: Value) => number,
+  options: ExtremumOptions = {}
+): Value | undefined {
+  return extremumBy(iterator, compare, -1, options, "minBy");
+}
+
+/**
+ * Finds the largest element according to the comparator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a positive number if a is larger than b
+ * @param options - Tie-breaking options (default: the first largest element wins)
+ * @returns The largest element or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const priciest = iterupSync(offers).maxBy((a, b) => a.price - b.price);
+ * ```
+ */
+export function maxBy<Value>(
+  iterator: Iterable<Value>,
+  compare: (a: Value, b: Value) => number,
+  options: ExtremumOptions = {}
+): Value | undefined {
+  return extremumBy(iterator, compare, 1, options, "maxBy");
+}
+
+/**
+ * Finds the element with the smallest key. The key selector is called once
+ * per element.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Function returning the key to compare
+ * @param options - Tie-breaking options (default: the first smallest element wins)
+ * @returns The element with the smallest key or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const cheapest = iterupSync(offers).minByKey(offer => offer.price);
+ * ```
+ */
+export function minByKey<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => ComparableKey,
+  options: ExtremumOptions = {}
+): Value | undefined {
+  return extremumByKey(iterator, f, -1, options, "minByKey");
+}
+
+/**
+ * Finds the element with the largest key. The key selector is called once
+ * per element.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param f - Function returning the key to compare
+ * @param options - Tie-breaking options (default: the first largest element wins)
+ * @returns The element with the largest key or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const newest = iterupSync(records).maxByKey(record => record.createdAt);
+ * ```
+ */
+export function maxByKey<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => ComparableKey,
+  options: ExtremumOptions = {}
+): Value | undefined {
+  return extremumByKey(iterator, f, 1, options, "maxByKey");
+}
+
+/**
+ * Finds both the smallest and the largest element according to the comparator
+ * in a single pass.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to search through
+ * @param compare - Comparator returning a negative number if a is smaller than b
+ * @param options - Tie-breaking options applied to both ends (default: first wins)
+ * @returns `{ min, max }` or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const bounds = iterupSync(['pear', 'fig', 'banana'])
+ *   .minMax((a, b) => a.length - b.length);
+ * // result: { min: 'fig', max: 'banana' }
+ * ```
+ */
+export function minMax<Value>(
+  iterator: Iterable<Value>,
+  compare: (a: Value, b: Value) => number,
+  { ties = "first" }: ExtremumOptions = {}
+): { min: Value; max: Value } | undefined {
+  let result: { min: Value; max: Value } | undefined;
+  for (const value of iterator) {
+    if (result === undefined) {
+      result = { min: value, max: value };
+      continue;
+    }
+
+    const minOrder = assertSync(compare(value, result.min), "minMax");
+    if (minOrder < 0 || (minOrder === 0 && ties === "last")) {
+      result.min = value;
+    }
+
+    const maxOrder = assertSync(compare(value, result.max), "minMax");
+    if (maxOrder > 0 || (maxOrder === 0 && ties === "last")) {
+      result.max = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Repeats the values from the iterator for a specified number of cycles.
+ * The input is consumed and cached during the first cycle; subsequent cycles
+ * replay the cached values. Defaults to infinite cycles.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator whose values should be cycled
+ * @param cycles - Number of times to repeat the sequence (default: Infinity)
+ * @returns Iterator that yields the original values repeatedly
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3])
+ *   .cycle(3)
+ *   .collect();
+ * // result: [1, 2, 3, 1, 2, 3, 1, 2, 3]
+ * ```
+ */
+export function* cycle<Value>(
+  iterator: Iterable<Value>,
+  cycles = Infinity
+): BaseSyncIterator<Value> {
+  if (cycles <= 0) {
+    return;
+  }
+
+  const cachedValues: Value[] = [];
+  let initialCycle = true;
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    initialCycle = cycle === 0;
+
+    for (const value of initialCycle ? iterator : cachedValues) {
+      yield value;
+      if (initialCycle) {
+        cachedValues.push(value);
+      }
+    }
+  }
+}
+
+/**
+ * Closes every iterator that has not finished yet.
+ *
+ * @internal
+ */
+function closeIterators(iterators: Iterator<unknown>[], done: boolean[]) {
+  iterators.forEach((iterator, index) => {
+    if (!done[index]) iterator.return?.();
+  });
+}
+
+/**
+ * Combines iterators element-wise, yielding tuples until one is exhausted.
+ * The remaining iterators are closed with `return()` once one of them ends or
+ * the consumer stops early.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator to zip
+ * @param others - The other iterators to zip
+ * @returns Iterator of tuples with one value from each iterator
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3]).zip(['a', 'b', 'c']).collect();
+ * // result: [[1, 'a'], [2, 'b'], [3, 'c']]
+ * ```
+ */
+export function* zip<Value, Others extends Iterable<unknown>[]>(
+  iterator: Iterable<Value>,
+  ...others: Others
+): BaseSyncIterator<[Value, ...IteratorValues<Others>]> {
+  const sources = [iterator, ...others].map((source: Iterable<unknown>) =>
+    iteratorFrom(source)
+  );
+  const done = sources.map(() => false);
+
+  try {
+    for (;;) {
+      const results = sources.map((source, index) => {
+        const result = source.next();
+        if (result.done) done[index] = true;
+        return result;
+      });
+      if (done.includes(true)) break;
+
+      yield results.map((result) => result.value) as [
+        Value,
+        ...IteratorValues<Others>
+      ];
+    }
+  } finally {
+    closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Combines iterators element-wise until all of them are exhausted. Values of
+ * iterators that ended early are padded with `None`, or with the `fill`
+ * value when an options object is passed last.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @template Fill - The type of the padding value
+ * @param iterator - The first iterator to zip
+ * @param args - The other iterators, optionally followed by `{ fill }`
+ * @returns Iterator of tuples with one value or padding per iterator
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3]).zipLongest(['a'], { fill: '-' }).collect();
+ * // result: [[1, 'a'], [2, '-'], [3, '-']]
+ * ```
+ */
+export function zipLongest<Value, Others extends Iterable<unknown>[]>(
+  iterator: Iterable<Value>,
+  ...others: Others
+): BaseSyncIterator<[Option<Value>, ...ZipLongestValues<Others, None>]>;
+export function zipLongest<Value, Others extends Iterable<unknown>[], Fill>(
+  iterator: Iterable<Value>,
+  ...args: [...others: Others, options: ZipLongestOptions<Fill>]
+): BaseSyncIterator<[Value | Fill, ...ZipLongestValues<Others, Fill>]>;
+export function* zipLongest(
+  iterator: Iterable<unknown>,
+  ...args: unknown[]
+): BaseSyncIterator<unknown[]> {
+  const last = args.at(-1);
+  const options = isIterable(last)
+    ? undefined
+    : (args.pop() as ZipLongestOptions<unknown>);
+  const fill = options ? options.fill : None;
+  const sources = [iterator, ...(args as Iterable<unknown>[])].map((source) =>
+    iteratorFrom(source)
+  );
+  const done = sources.map(() => false);
+
+  try {
+    for (;;) {
+      const values = sources.map((source, index) => {
+        if (done[index]) return fill;
+        const result = source.next();
+        if (!result.done) return result.value;
+        done[index] = true;
+        return fill;
+      });
+      if (!done.includes(false)) break;
+
+      yield values;
+    }
+  } finally {
+    closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Combines iterators element-wise with a function, yielding its results until
+ * one of the iterators is exhausted.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @template Result - The type returned by the function
+ * @param iterator - The first iterator to zip
+ * @param f - Function receiving one value from each iterator
+ * @param others - The other iterators to zip
+ * @returns Iterator of the function results
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2]).zipWith((a, b) => a * b, [10, 20]).collect();
+ * // result: [10, 40]
+ * ```
+ */
+export function* zipWith<Value, Others extends Iterable<unknown>[], Result>(
+  iterator: Iterable<Value>,
+  f: (value: Value, ...others: IteratorValues<Others>) => Result,
+  ...others: Others
+): BaseSyncIterator<Result> {
+  for (const values of zip(iterator, ...others)) {
+    yield assertSync(f(...values), "zipWith");
+  }
+  return;
+}
+
+/**
+ * Splits an iterator of pairs into two iterators that can be consumed
+ * independently. Values are buffered for the side that lags behind.
+ *
+ * @template First - The type of the first values of the pairs
+ * @template Second - The type of the second values of the pairs
+ * @param iterator - The iterator of pairs to split
+ * @param options - Buffering options
+ * @param options.bufferSize - Maximum number of values buffered per side (default: Infinity)
+ * @returns A tuple of two IterupSync instances
+ * @throws {RangeError} If bufferSize is below 1, or when reading ahead would exceed it
+ *
+ * @example
+ * ```ts
+ * const [numbers, letters] = iterupSync([[1, 'a'], [2, 'b']] as const).unzip();
+ * numbers.collect(); // [1, 2]
+ * letters.collect(); // ['a', 'b']
+ * ```
+ */
+export function unzip<First, Second>(
+  iterator: Iterable<readonly [First, Second]>,
+  { bufferSize = Infinity }: UnzipOptions = {}
+): [IterupSync<First>, IterupSync<Second>] {
+  if (!(bufferSize >= 1)) {
+    throw new RangeError("bufferSize must be at least 1");
+  }
+
+  const source = iteratorFrom(iterator);
+  const buffers: [unknown[], unknown[]] = [[], []];
+  const active = [true, true];
+  let done = false;
+
+  function* side<Side>(index: 0 | 1): BaseSyncIterator<Side> {
+    const other = 1 - index;
+    try {
+      for (;;) {
+        if (buffers[index].length > 0) {
+          yield buffers[index].shift() as Side;
+          continue;
+        }
+        if (done) return;
+
+        if (active[other] && buffers[other]!.length >= bufferSize) {
+          throw new RangeError(
+            "unzip buffer is full; consume both sides alternately or raise bufferSize"
+          );
+        }
+        const result = source.next();
+        if (result.done) {
+          done = true;
+          return;
+        }
+        result.value.forEach((value, position) => {
+          if (active[position]) buffers[position]!.push(value);
+        });
+      }
+    } finally {
+      active[index] = false;
+      buffers[index] = [];
+      if (!active[other] && !done) {
+        done = true;
+        source.return?.();
+      }
+    }
+  }
+
+  return [fromSyncIterator(side<First>(0)), fromSyncIterator(side<Second>(1))];
+}
+
+/**
+ * Yields all values of the iterator followed by the values of each of the
+ * other iterators in turn.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator
+ * @param others - The iterators to append
+ * @returns Iterator of all values in order
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2]).chain([3], new Set([4])).collect();
+ * // result: [1, 2, 3, 4]
+ * ```
+ */
+export function* chain<Value, Others extends Iterable<unknown>[]>(
+  iterator: Iterable<Value>,
+  ...others: Others
+): BaseSyncIterator<Value | IteratorValues<Others>[number]> {
+  for (const source of [iterator, ...others]) {
+    yield* source as Iterable<Value>;
+  }
+  return;
+}
+
+/**
+ * Takes one value from each iterator in turn, skipping iterators that are
+ * exhausted, until all of them are exhausted.
+ *
+ * @template Value - The type of values in the first iterator
+ * @template Others - The tuple of the other iterators
+ * @param iterator - The first iterator
+ * @param others - The other iterators
+ * @returns Iterator of the interleaved values
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3]).roundRobin(['a']).collect();
+ * // result: [1, 'a', 2, 3]
+ * ```
+ */
+export function* roundRobin<Value, Others extends Iterable<unknown>[]>(
+  iterator: Iterable<Value>,
+  ...others: Others
+): BaseSyncIterator<Value | IteratorValues<Others>[number]> {
+  const sources = [iterator, ...others].map((source: Iterable<unknown>) =>
+    iteratorFrom(source)
+  );
+  const done = sources.map(() => false);
+
+  try {
+    while (done.includes(false)) {
+      for (const [index, source] of sources.entries()) {
+        if (done[index]) continue;
+        const result = source.next();
+        if (result.done) {
+          done[index] = true;
+          continue;
+        }
+        yield result.value as Value;
+      }
+    }
+  } finally {
+    closeIterators(sources, done);
+  }
+  return;
+}
+
+/**
+ * Alias of `roundRobin`.
+ */
+export const interleave = roundRobin;
+
+/**
+ * Yields the separator between every two consecutive values.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Separator - The type of the separator
+ * @param iterator - The iterator to intersperse
+ * @param separator - The value placed between values
+ * @returns Iterator of values and separators
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3]).intersperse(0).collect();
+ * // result: [1, 0, 2, 0, 3]
+ * ```
+ */
+export function* intersperse<Value, Separator>(
+  iterator: Iterable<Value>,
+  separator: Separator
+): BaseSyncIterator<Value | Separator> {
+  yield* intersperseWith(iterator, () => separator);
+  return;
+}
+
+/**
+ * Yields the result of the separator function between every two consecutive
+ * values. The function is called once per separator.
+ *
+ * @template Value - The type of values in the iterator
+ * @template Separator - The type returned by the separator function
+ * @param iterator - The iterator to intersperse
+ * @param f - Function producing each separator
+ * @returns Iterator of values and separators
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(['a', 'b']).intersperseWith(() => ', ').collect();
+ * // result: ['a', ', ', 'b']
+ * ```
+ */
+export function* intersperseWith<Value, Separator>(
+  iterator: Iterable<Value>,
+  f: () => Separator
+): BaseSyncIterator<Value | Separator> {
+  let first = true;
+  for (const value of iterator) {
+    if (!first) yield assertSync(f(), "intersperseWith");
+    first = false;
+    yield value;
+  }
+  return;
+}
+
+/**
+ * Yields the values of the successful Results and drops the failed ones.
+ *
+ * @template Value - The type of the successful values
+ * @param iterator - The iterator of Results
+ * @returns Iterator of the successful values
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const numbers = iterupSync(rows).tryMap(parse).filterOk().collect();
+ * ```
+ */
+export function* filterOk<Value>(
+  iterator: Iterable<Result<Value, unknown>>
+): BaseSyncIterator<Value> {
+  for (const value of iterator) {
+    const result = checkResult(value, "filterOk");
+    if (result.ok) yield result.value as Value;
+  }
+  return;
+}
+
+/**
+ * Yields the errors of the failed Results and drops the successful ones.
+ *
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns Iterator of the errors
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const problems = iterupSync(rows).tryMap(parse).filterErr().collect();
+ * ```
+ */
+export function* filterErr<ErrorValue>(
+  iterator: Iterable<Result<unknown, ErrorValue>>
+): BaseSyncIterator<ErrorValue> {
+  for (const value of iterator) {
+    const result = checkResult(value, "filterErr");
+    if (!result.ok) yield result.error as ErrorValue;
+  }
+  return;
+}
+
+/**
+ * Splits Results into the values of the successful ones and the errors of
+ * the failed ones.
+ *
+ * @template Value - The type of the successful values
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns `[values, errors]`
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const [valid, invalid] = iterupSync(rows).tryMap(parse).partitionResults();
+ * ```
+ */
+export function partitionResults<Value, ErrorValue>(
+  iterator: Iterable<Result<Value, ErrorValue>>
+): [Value[], ErrorValue[]] {
+  const values: Value[] = [];
+  const errors: ErrorValue[] = [];
+  for (const value of iterator) {
+    const result = checkResult(value, "partitionResults");
+    if (result.ok) values.push(result.value as Value);
+    else errors.push(result.error as ErrorValue);
+  }
+  return [values, errors];
+}
+
+/**
+ * Collects the values of Results into an array, or returns the first failed
+ * Result. Reading stops at the first failure.
+ *
+ * @template Value - The type of the successful values
+ * @template ErrorValue - The type of the errors
+ * @param iterator - The iterator of Results
+ * @returns `Ok(values)` or the first `Err`
+ * @throws {TypeError} If the iterator contains values that are not Results
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(rows).tryMap(parse).collectResult();
+ * ```
+ */
+export function collectResult<Value, ErrorValue>(
+  iterator: Iterable<Result<Value, ErrorValue>>
+): Result<Value[], ErrorValue> {
+  const values: Value[] = [];
+  for (const value of iterator) {
+    const result = checkResult(value, "collectResult");
+    if (!result.ok) return result as Err<ErrorValue>;
+    values.push(result.value as Value);
+  }
+  return Ok(values);
+}
+
+/**
+ * Maps each value with a function and captures thrown errors as failed
+ * Results, so one bad value does not end the pipeline.
+ *
+ * @template Value - The type of values in the iterator
+ * @template MapValue - The type returned by the function
+ * @param iterator - The iterator to map
+ * @param f - Function to apply to each value
+ * @returns Iterator of `Ok(mapped)` or `Err(error)` per value
+ *
+ * @example
+ * ```ts
+ * const results = iterupSync(['1', 'x']).tryMap((row) => JSON.parse(row)).collect();
+ * // results: [{ ok: true, value: 1 }, { ok: false, error: SyntaxError }]
+ * ```
+ */
+export function* tryMap<Value, MapValue>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => MapValue
+): BaseSyncIterator<Result<MapValue, unknown>> {
+  for (const value of iterator) {
+    let mapped: MapValue;
+    try {
+      mapped = f(value);
+    } catch (error) {
+      if (error instanceof Promotion) throw error;
+      yield Err(error);
+      continue;
+    }
+    yield Ok(assertSync(mapped, "tryMap"));
+  }
+  return;
+}
+
+/**
+ * Yields the values that are not None, narrowing the value type.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator of Options
+ * @returns Iterator of the present values
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, None, 2]).flattenOptions().collect();
+ * // result: [1, 2]
+ * ```
+ */
+export function* flattenOptions<Value>(
+  iterator: Iterable<Value>
+): BaseSyncIterator<Exclude<Value, None>> {
+  for (const value of iterator) {
+    if (isSome(value)) yield value;
+  }
+  return;
+}
+
+/**
+ * Returns the first value, or None for an empty iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @returns The first value or None
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([undefined, 1]).first();
+ * // result: undefined (not None)
+ * ```
+ */
+export function first<Value>(iterator: Iterable<Value>): Option<Value> {
+  for (const value of iterator) {
+    return value;
+  }
+  return None;
+}
+
+/**
+ * Returns the last value, or None for an empty iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read completely
+ * @returns The last value or None
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync([1, 2, 3]).last();
+ * // result: 3
+ * ```
+ */
+export function last<Value>(iterator: Iterable<Value>): Option<Value> {
+  let result: Option<Value> = None;
+  for (const value of iterator) {
+    result = value;
+  }
+  return result;
+}
+
+/**
+ * Returns the value at the given zero-based position, or None when the
+ * iterator is shorter. Reading stops at that position.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to read from
+ * @param n - The zero-based position of the value
+ * @returns The value or None
+ * @throws {RangeError} If n is not a non-negative integer
+ *
+ * @example
+ * ```ts
+ * const result = iterupSync(['a', 'b', 'c']).nth(1);
+ * // result: 'b'
+ * ```
+ */
+export function nth<Value>(
+  iterator: Iterable<Value>,
+  n: number
+): Option<Value> {
+  if (!(Number.isInteger(n) && n >= 0))
+    throw new RangeError("nth requires a non-negative integer index");
+  let index = 0;
+  for (const value of iterator) {
+    if (index++ === n) return value;
+  }
+  return None;
+}
+
+/**
+ * Applies a function to each element and an accumulator, returning the final value.
+ *
+ * @template Value - The type of values in the iterator
+ * @template NewValue - The type of the accumulator and return value
+ * @param iterator - The iterator to fold over
+ * @param initialValue - The initial value for the accumulator
+ * @param f - Function that takes (accumulator, value) and returns the new accumulator
+ * @returns The final accumulated value
+ *
+ * @example
+ * ```ts
+ * const sum = fold([1, 2, 3, 4], 0, (acc, val) => acc + val);
+ * // result: 10
+ * ```
+ */
+export function fold<Value, NewValue>(
+  iterator: Iterable<Value>,
+  initialValue: NewValue,
+  f: (accumulator: NewValue, value: Value) => NewValue
+): NewValue {
+  let accumulator = initialValue;
+  for (const value of iterator) {
+    accumulator = assertSync(f(accumulator, value), "fold");
+  }
+
+  return accumulator;
+}
+
+/**
+ * Reduces the iterator to a single value using the provided function.
+ * Unlike fold, reduce uses the first element as the initial accumulator value.
+ * Returns undefined if the iterator is empty.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to reduce
+ * @param f - Function that takes (accumulator, value) and returns the new accumulator
+ * @returns The reduced value or undefined if empty
+ *
+ * @example
+ * ```ts
+ * const sum = reduce([1, 2, 3, 4], (acc, val) => acc + val);
+ * // result: 10
+ * ```
+ */
+export function reduce<Value>(
+  iterator: Iterable<Value>,
+  f: (accumulator: Value, value: Value) => Value
+): Value | undefined {
+  const source = iteratorFrom(iterator);
+
+  const firstResult = unwrapResult(source.next());
+  if (firstResult === None) {
+    return undefined;
+  }
+
+  return fold(source, firstResult, f);
+}
+
+/**
+ * Executes a function for each element in the iterator, primarily for side effects.
+ * This consumes the entire iterator.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to iterate over
+ * @param f - Function to execute for each value
+ *
+ * @example
+ * ```ts
+ * forEach([1, 2, 3], (value) => {
+ *   console.log(`Processing: ${value}`);
+ * });
+ * ```
+ */
+export function forEach<Value>(
+  iterator: Iterable<Value>,
+  f: (value: Value) => void
+): void {
+  for (const value of iterator) {
+    assertSync(f(value), "forEach");
+  }
+}
+
+/**
+ * Switches a synchronous pipeline over to the async `Iterup` pipeline.
+ * Subsequent operations may use async callbacks and async sources.
+ *
+ * @template Value - The type of values in the iterator
+ * @param iterator - The iterator to continue asynchronously
+ * @returns An async Iterup instance yielding the same values
+ *
+ * @example
+ * ```ts
+ * const result = await iterupSync([1, 2, 3])
+ *   .map(x => x * 2)
+ *   .toAsync()
+ *   .map(async x => x + 1)
+ *   .collect();
+ * // result: [3, 5, 7]
+ * ```
+ */
+export function toAsync<Value>(iterator: Iterable<Value>): Iterup<Value> {
+  return iterup(iterator);
+}
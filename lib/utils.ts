@@ -119,3 +119,44 @@ export function unwrapResult<Value>(result: IteratorResult<Value>) {
   if (result.done) return None;
   return result.value;
 }
+
+/**
+ * Checks whether a value is a function declared with the `async` keyword.
+ * Used by synchronous pipelines to decide when to promote to the async pipeline.
+ *
+ * @param value - The value to check
+ * @returns True if the value is an async function
+ *
+ * @example
+ * ```ts
+ * isAsyncFunction(async () => 1); // true
+ * isAsyncFunction(() => Promise.resolve(1)); // false
+ * ```
+ */
+export function isAsyncFunction(
+  value: unknown
+): value is (...args: any[]) => Promise<unknown> {
+  return (
+    typeof value === "function" && value.constructor.name === "AsyncFunction"
+  );
+}
+
+/**
+ * Gets the iterator of an iterable, the way `Iterator.from` does, without
+ * relying on the global `Iterator`, which older runtimes like Node 20 lack.
+ * Iterators return themselves.
+ *
+ * @param iterable - The iterable to read
+ * @returns The iterator over its values
+ *
+ * @example
+ * ```ts
+ * const iterator = iteratorFrom([1, 2]);
+ * iterator.next(); // { done: false, value: 1 }
+ * ```
+ */
+export function iteratorFrom<Value>(
+  iterable: Iterable<Value>
+): BaseSyncIterator<Value> {
+  return iterable[Symbol.iterator]() as BaseSyncIterator<Value>;
+}